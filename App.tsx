@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -10,14 +10,26 @@ import {
   ActivityIndicator,
   FlatList,
   Alert,
+  AlertButton,
   Linking,
   TextInput, // Added TextInput
   StatusBar // Added StatusBar
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import AsyncStorage from '@react-native-async-storage/async-storage'; // Added AsyncStorage
-import { fetchHallData, formatDate } from './src/services/api';
-import { HallData } from './src/types';
+import { fetchHallDataOrStored, getCachedHallData, groupDaySlots, retryHallData } from './src/services/api';
+import { formatDate } from './src/services/dates';
+import { describeSpan } from './src/services/bookingSpans';
+import { applyEnquiries, dueFollowUps, loadEnquiries, onEnquiriesChange } from './src/services/enquiries';
+import { applyHolds, formatTimeLeft, loadHolds, onHoldsChange, refreshSheetHolds, releaseHold } from './src/services/holds';
+import { loadQuotes, onQuotesChange } from './src/services/quotes';
+import { HallRequirements, describeHallDetails, describeSlotPrices, filterByRequirements, findHall, hallsRuledOut, hasRequirements, uncheckedRequirements } from './src/services/hallDetails';
+import { getDateAnnotations, isMuhurat, loadDateAnnotations, onDateAnnotationsChange } from './src/services/dateAnnotations';
+import { onConnectivityRestored } from './src/services/network';
+import { previewSlotChange, writeSlotStatus } from './src/services/sheetsWriter';
+import { isWriteBackEnabled } from './src/services/googleAuth';
+import { hasPermission, isSessionExpired, loadSession, revalidateSession, signIn, signOut } from './src/services/auth';
+import { DateAnnotation, Enquiry, EnquirySlot, HallData, Quotation, Session, SlotHold, SlotStatus, TimeSlot } from './src/types';
+import { loadVenueConfig } from './src/services/venueConfig';
 import {
   checkForUpdatesAndReload,
   getDevServerUrl,
@@ -31,21 +43,39 @@ import { LinearGradient } from 'expo-linear-gradient'; // Import LinearGradient
 import { BlurView } from 'expo-blur'; // Import BlurView for iOS-like frosted glass
 import { Image } from 'react-native'; // Ensure correct import for React Native Image component
 import SkeletonItem from './src/components/SkeletonItem';
+import MonthCalendar from './src/components/MonthCalendar';
+import DateSearchPanel from './src/components/DateSearchPanel';
+import SyncStatus from './src/components/SyncStatus';
+import SlotEditor from './src/components/SlotEditor';
+import ShareAvailability from './src/components/ShareAvailability';
+import EnquiryPanel from './src/components/EnquiryPanel';
+import EnquiryForm from './src/components/EnquiryForm';
+import HoldForm from './src/components/HoldForm';
+import RequirementsFilter from './src/components/RequirementsFilter';
+import QuoteBuilder from './src/components/QuoteBuilder';
+import QuoteList from './src/components/QuoteList';
+import DateAnnotationTags from './src/components/DateAnnotationTags';
+import LockScreen from './src/components/LockScreen';
+import { useAppLock } from './src/hooks/useAppLock';
+import { statusColors } from './src/theme';
 
 // Initialize environment variables check
-const apiKey = process.env.EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY;
-console.log('App initialized with API KEY:', apiKey ? 'Set correctly' : 'NOT SET - Check .env file');
+const proxyUrl = process.env.EXPO_PUBLIC_PROXY_URL;
+console.log('App initialized with', proxyUrl ? `proxy ${proxyUrl}` : 'NO PROXY - Check .env file');
 console.log('Development server URL:', __DEV__ ? getDevServerUrl() : 'Production mode');
 
 const ITEMS_PER_PAGE = 20;
-const AUTH_PASSWORD = "1M@GMK#"; // Defined password
-const AUTH_STORAGE_KEY = "@gmk_hall_app_authenticated"; // AsyncStorage key
+const SESSION_RECHECK_INTERVAL_MS = 15 * 60 * 1000; // How often to check the signed-in user still has access
+const WRITE_BACK_ENABLED = isWriteBackEnabled(); // Slots can be changed from the app when a Google OAuth client id is configured
+const HOLD_TICK_MS = 30 * 1000; // How often hold countdowns update and run-out holds are released
 
 export default function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState('');
+  const [session, setSession] = useState<Session | null>(null);
+  const [username, setUsername] = useState('');
+  const [pin, setPin] = useState('');
   const [authError, setAuthError] = useState('');
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+  const appLock = useAppLock(session);
   const [date, setDate] = useState(new Date());
   const [tempDate, setTempDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -59,18 +89,49 @@ export default function App() {
   const [errorDetails, setErrorDetails] = useState<string>('');
   const [showAdvancedTroubleshooting, setShowAdvancedTroubleshooting] = useState(false);
   const [debugDate, setDebugDate] = useState(''); // Added for debugging
+  const [viewMode, setViewMode] = useState<'day' | 'month' | 'search' | 'enquiries' | 'quotes'>('day');
+  const [calendarMonth, setCalendarMonth] = useState(new Date());
+  const [retryingHallId, setRetryingHallId] = useState<string | null>(null);
+  // When the shown day was last read from the sheet, and whether it is the offline copy
+  const [syncState, setSyncState] = useState<{ date: Date; syncedAt: number; stale: boolean } | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const canShare = hasPermission(session, 'shareAvailability');
+  const [sharingOpen, setSharingOpen] = useState(false);
+  // Set to the looked-up day when its month has no tab in the sheet yet
+  const [missingMonth, setMissingMonth] = useState<Date | null>(null);
+  const [editingSlot, setEditingSlot] = useState<HallData | null>(null);
+  const canEditSlots = WRITE_BACK_ENABLED && hasPermission(session, 'editSlots');
+  const [savingSlotKey, setSavingSlotKey] = useState<string | null>(null); // `${hallId}-${timeSlot}` being written
+  const canLogEnquiries = hasPermission(session, 'logEnquiries');
+  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  // Read when marking freshly loaded slots, which happens in callbacks created before the latest change
+  const enquiriesRef = useRef<Enquiry[]>([]);
+  const [enquiryFormSlots, setEnquiryFormSlots] = useState<EnquirySlot[] | null>(null); // Form is open when set
+  const canPlaceHolds = hasPermission(session, 'placeHolds');
+  const canReleaseAnyHold = hasPermission(session, 'releaseAnyHold');
+  const [holds, setHolds] = useState<SlotHold[]>([]);
+  const holdsRef = useRef<SlotHold[]>([]);
+  const [holdingSlot, setHoldingSlot] = useState<HallData | null>(null);
+  const [clock, setClock] = useState(Date.now()); // Hold countdowns are drawn against this
+  const canCreateQuotes = hasPermission(session, 'createQuotes');
+  const [quotes, setQuotes] = useState<Quotation[]>([]);
+  const [quotingSlots, setQuotingSlots] = useState<HallData[] | null>(null); // Quote builder is open for these hall slots
+  const [requirements, setRequirements] = useState<HallRequirements>({}); // Guest count / budget the day's halls must fit
+  const requirementsRef = useRef<HallRequirements>({});
+  const [hiddenHallNames, setHiddenHallNames] = useState<string[]>([]); // Halls the guest count or budget ruled out
+  const [dateAnnotations, setDateAnnotations] = useState<DateAnnotation[]>(getDateAnnotations()); // Muhurats, festivals, holidays
+  // The day's slots as last loaded, before filtering, so a changed filter doesn't need another read
+  const dayDataRef = useRef<{ hallData: HallData[]; date: Date } | null>(null);
+  // Date of the latest lookup, so a slow refresh for a previous date doesn't overwrite the list
+  const latestFindKey = useRef('');
 
   // Check auth status on app load
   useEffect(() => {
     const checkAuthStatus = async () => {
       try {
-        const authStatus = await AsyncStorage.getItem(AUTH_STORAGE_KEY);
-        if (authStatus === 'true') {
-          setIsAuthenticated(true);
-        }
+        setSession(await loadSession());
       } catch (e) {
         console.error("Failed to load auth status", e);
-        // Optionally handle error, e.g., show an error message
       } finally {
         setIsCheckingAuth(false);
       }
@@ -78,6 +139,109 @@ export default function App() {
     checkAuthStatus();
   }, []);
 
+  // End the session when it expires, and periodically make sure the user hasn't been removed or disabled
+  const sessionUsername = session?.username;
+  useEffect(() => {
+    if (!session) return;
+
+    const expiryTimer = setTimeout(() => {
+      handleLogout('Your session has expired. Please sign in again.');
+    }, Math.max(session.expiresAt - Date.now(), 0));
+
+    const recheck = async () => {
+      const current = await revalidateSession(session);
+      if (!current) {
+        handleLogout('Your access has been removed. Ask an admin if this is a mistake.');
+      } else if (current !== session) {
+        setSession(current);
+      }
+    };
+    recheck();
+    const recheckInterval = setInterval(recheck, SESSION_RECHECK_INTERVAL_MS);
+
+    return () => {
+      clearTimeout(expiryTimer);
+      clearInterval(recheckInterval);
+    };
+  }, [sessionUsername, session?.expiresAt]);
+
+  const handleLogin = async () => {
+    setLoading(true);
+    setAuthError('');
+    try {
+      const newSession = await signIn(username, pin);
+      setPin('');
+      setSession(newSession);
+    } catch (e: any) {
+      setAuthError(e.message || 'An unknown error occurred.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async (reason?: string) => {
+    await signOut();
+    setSession(null);
+    setPin('');
+    setAuthError(reason || '');
+  };
+
+  // Keep the hall cards marked with the open enquiries as they are logged, closed or expire
+  useEffect(() => {
+    if (!session) return;
+    const showEnquiries = (list: Enquiry[]) => {
+      enquiriesRef.current = list;
+      setEnquiries(list);
+      setHalls(markSlots);
+      setDisplayedHalls(markSlots);
+    };
+    loadEnquiries().then(showEnquiries).catch(error => console.warn('Error loading enquiries:', error));
+    return onEnquiriesChange(showEnquiries);
+  }, [sessionUsername]);
+
+  useEffect(() => {
+    if (!session) return;
+    loadQuotes().then(setQuotes).catch(error => console.warn('Error loading quotes:', error));
+    return onQuotesChange(setQuotes);
+  }, [sessionUsername]);
+
+  // Same for holds. Every tick redraws the countdowns, releases holds that ran out and picks up holds
+  // placed on other devices (the holds tabs are re-read every couple of minutes).
+  useEffect(() => {
+    if (!session) return;
+    const showHolds = (list: SlotHold[]) => {
+      holdsRef.current = list;
+      setHolds(list);
+      setHalls(markSlots);
+      setDisplayedHalls(markSlots);
+    };
+    loadHolds().then(showHolds).catch(error => console.warn('Error loading holds:', error));
+    refreshSheetHolds();
+    const unsubscribe = onHoldsChange(showHolds);
+    const tick = setInterval(() => {
+      refreshSheetHolds();
+      if (holdsRef.current.length === 0) return;
+      setClock(Date.now());
+      loadHolds().then(showHolds).catch(error => console.warn('Error loading holds:', error));
+    }, HOLD_TICK_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(tick);
+    };
+  }, [sessionUsername]);
+
+  // Refresh the venue/hall layout in the background; the bundled or cached copy is used meanwhile
+  useEffect(() => {
+    loadVenueConfig().catch(error => console.warn('Error loading venue config:', error));
+  }, []);
+
+  // Same for the muhurat, festival and holiday dates marked against the calendar
+  useEffect(() => {
+    const unsubscribe = onDateAnnotationsChange(setDateAnnotations);
+    loadDateAnnotations().catch(error => console.warn('Error loading date annotations:', error));
+    return unsubscribe;
+  }, []);
+
   // Check for updates when app launches
   useEffect(() => {
     const checkUpdates = async () => {
@@ -162,6 +326,7 @@ Expo URL: ${getDevServerUrl()}`,
     setLoading(true);
     setDisplayedHalls([]); // Clear previous results to show skeleton
     setHalls([]);          // Clear all hall data
+    dayDataRef.current = null;
     setErrorType(null);
     setErrorDetails('');
     
@@ -199,11 +364,15 @@ Try restarting the server with "npm start --clear"`,
       
       // Try to fetch data again
       console.log('Attempting to fetch hall data...');
-      const hallData = await fetchHallData(date);
+      latestFindKey.current = formatDate(date);
+      const result = await fetchHallDataOrStored(date, { forceRefresh: true }); // Bypass the month cache on explicit retry
       
-      if (hallData.length > 0) {
-        console.log(`Successfully fetched ${hallData.length} hall records`);
-        processHallData(hallData);
+      if (result.halls.length > 0) {
+        console.log(`Successfully fetched ${result.halls.length} hall records`);
+        processHallData(result.halls);
+        setSyncState({ date, syncedAt: result.syncedAt, stale: result.stale });
+      } else if (result.sheetMissing) {
+        setMissingMonth(date);
       } else {
         console.log('Fetch succeeded but returned empty results');
         setNetworkError(true);
@@ -290,121 +459,98 @@ Try restarting the server with "npm start --clear"`,
     setShowDatePicker(false);
   };
 
-  const handleFind = async () => {
+  const handleFind = async (targetDate: Date = date) => {
     setLoading(true);
     setDisplayedHalls([]); 
     setHalls([]);          
+    dayDataRef.current = null;
     setPage(1);
     setNetworkError(false);
     setErrorType(null);
     setErrorDetails('');
     setShowAdvancedTroubleshooting(false);
-    
+    setSyncState(null);
+    setMissingMonth(null);
+    latestFindKey.current = formatDate(targetDate);
+
+    // Show the last known copy straight away, then revalidate it
+    const cached = await getCachedHallData(targetDate);
+    const hasCopy = cached !== null && cached.halls.length > 0;
+    if (cached && hasCopy && latestFindKey.current === formatDate(targetDate)) {
+      console.log(`Showing ${cached.stale ? 'stored' : 'cached'} hall data for ${formatDate(targetDate)}`);
+      processHallData(cached.halls, targetDate);
+      setSyncState({ date: targetDate, syncedAt: cached.syncedAt, stale: cached.stale });
+      setLoading(false);
+      if (!cached.stale) return; // Already read live in this session
+    }
+
+    await revalidateDay(targetDate, hasCopy);
+  };
+
+  // Fetch a fresh copy of a day. While a copy is on screen, failures only leave it marked as stale.
+  const revalidateDay = async (targetDate: Date, hasCopy: boolean, forceRefresh: boolean = false) => {
+    const findKey = formatDate(targetDate);
+    setRefreshing(true);
     try {
-      console.log(`Fetching hall data for date: ${formatDate(date)}`);
-      const hallData = await fetchHallData(date);
+      console.log(`Fetching hall data for date: ${findKey}`);
+      refreshSheetHolds();
+      const result = await fetchHallDataOrStored(targetDate, { forceRefresh });
+      if (latestFindKey.current !== findKey) return;
+      setMissingMonth(result.sheetMissing ? targetDate : null);
       
-      if (hallData.length > 0) {
-        console.log(`Successfully fetched ${hallData.length} hall records`);
-        processHallData(hallData);
-      } else {
+      if (result.halls.length > 0) {
+        console.log(`Successfully fetched ${result.halls.length} hall records`);
+        processHallData(result.halls, targetDate);
+        setSyncState({ date: targetDate, syncedAt: result.syncedAt, stale: result.stale });
+      } else if (!hasCopy) {
         console.log('Fetch returned empty results for the selected date.');
-        // setNetworkError(true); // Don't set network error for empty data, it's a valid response
-        // setErrorType('network');
-        // setErrorDetails('No data available for the selected date.');
         setHalls([]); // Ensure halls are empty
+        dayDataRef.current = null;
         setDisplayedHalls([]); // Ensure displayedHalls are empty
       }
     } catch (error) {
       console.error('Error fetching hall data:', error);
+      if (latestFindKey.current !== findKey) return;
+      if (hasCopy) {
+        setSyncState(prev => prev && { ...prev, stale: true });
+        return;
+      }
       const detectedErrorType = logErrorForAnalytics(error, 'handleFind');
       setNetworkError(true);
       setErrorType(detectedErrorType);
       setErrorDetails(error instanceof Error ? error.message : String(error));
     } finally {
+      setRefreshing(false);
       setLoading(false);
     }
   };
-  
-  const processHallData = (hallData: HallData[]) => {
-    // console.log('Received hallData for processing:', JSON.stringify(hallData, null, 2));
-
-    const organizedData: HallData[] = [];
-    const locationGroups: { [key: string]: { [hallName: string]: { Morning?: 'Available' | 'Booked' | 'Enquiry', Evening?: 'Available' | 'Booked' | 'Enquiry' } } } = {};
 
-    hallData.forEach(hall => {
-      const upperCaseLocation = hall.location.toUpperCase();
-      if (!locationGroups[upperCaseLocation]) {
-        locationGroups[upperCaseLocation] = {};
-      }
-      if (!locationGroups[upperCaseLocation][hall.hallName]) {
-        locationGroups[upperCaseLocation][hall.hallName] = {};
-      }
-      // Ensure timeslot is one of the expected values
-      if (hall.timeSlot === 'Morning' || hall.timeSlot === 'Evening') {
-        locationGroups[upperCaseLocation][hall.hallName][hall.timeSlot] = hall.status;
-      }
-    });
-
-    // console.log('Grouped location data:', JSON.stringify(locationGroups, null, 2));
-
-    const locationOrder: Array<'GMK BANQUETS TATHAWADE' | 'GMK BANQUETS RAVET'> = [
-      'GMK BANQUETS TATHAWADE',
-      'GMK BANQUETS RAVET'
-    ];
-
-    const hallOrder: {
-      'GMK BANQUETS TATHAWADE': string[];
-      'GMK BANQUETS RAVET': string[];
-    } = {
-      'GMK BANQUETS TATHAWADE': ['Aster', 'Grand', 'Tulip', 'Lotus'],
-      'GMK BANQUETS RAVET': ['Agastya', 'Vyas', 'Lawn']
-    };
+  // Refresh the shown day in the background once the device is back online
+  const dayNeedsRefresh = Boolean(syncState?.stale) || halls.some(hall => hall.status === 'Unknown');
+  useEffect(() => {
+    if (!syncState || !dayNeedsRefresh) return;
+    return onConnectivityRestored(() => revalidateDay(syncState.date, true));
+  }, [syncState, dayNeedsRefresh]);
+  
+  // Show free slots with open enquiries or holds as Enquiry; slots marked earlier are re-checked
+  const markSlots = (slots: HallData[]) => applyHolds(applyEnquiries(slots, enquiriesRef.current), holdsRef.current);
 
-    locationOrder.forEach(location => {
-      const normalizedLocationKey = location.toUpperCase(); // Use consistent casing for lookup
-      if (locationGroups[normalizedLocationKey] && Object.keys(locationGroups[normalizedLocationKey]).length > 0) {
-        organizedData.push({
-          date: formatDate(date), // This date is from the state, consistent for all items in this fetch
-          location: location, // Use original casing for display
-          hallName: '', // Indicates a section header
-          timeSlot: 'Morning', // Placeholder
-          status: 'Available'  // Placeholder
-        });
-
-        hallOrder[location].forEach((hallName: string) => {
-          if (locationGroups[normalizedLocationKey][hallName]) {
-            const slots = locationGroups[normalizedLocationKey][hallName];
-            organizedData.push({
-              date: formatDate(date),
-              location: location,
-              hallName,
-              timeSlot: 'Morning',
-              status: slots.Morning || 'Enquiry' // Default to 'Enquiry' or similar if not explicitly booked/available
-            });
-            organizedData.push({
-              date: formatDate(date),
-              location: location,
-              hallName,
-              timeSlot: 'Evening',
-              status: slots.Evening || 'Enquiry'
-            });
-          } else {
-            // If a hall defined in hallOrder is not in the data, you might want to represent it as 'Not Available' or skip it.
-            // For now, we skip it, meaning only halls present in data are shown.
-            // console.warn(`Hall ${hallName} not found in data for location ${location}`);
-          }
-        });
-      } else {
-        // console.warn(`Location ${location} not found in data or has no halls.`);
-      }
-    });
-    
+  const processHallData = (hallData: HallData[], forDate: Date = date) => {
+    dayDataRef.current = { hallData, date: forDate };
+    setHiddenHallNames(hallsRuledOut(hallData, requirementsRef.current).map(hall => hall.name));
+    const organizedData = markSlots(groupDaySlots(filterByRequirements(hallData, requirementsRef.current), forDate));
     // console.log('Organized Data:', JSON.stringify(organizedData, null, 2));
     setHalls(organizedData);
     setDisplayedHalls(organizedData.slice(0, ITEMS_PER_PAGE));
   };
 
+  useEffect(() => {
+    requirementsRef.current = requirements;
+    if (dayDataRef.current) {
+      processHallData(dayDataRef.current.hallData, dayDataRef.current.date);
+    }
+  }, [requirements, dateAnnotations]); // A muhurat surcharge can take a hall over the budget
+
   const loadMore = useCallback(() => {
     if (loadingMore || displayedHalls.length >= halls.length) return;
 
@@ -434,6 +580,243 @@ Try restarting the server with "npm start --clear"`,
     );
   };
 
+  // Swap updated slots into the list without rebuilding it (keeps the loaded pages)
+  const replaceSlots = (updated: HallData[]) => {
+    const marked = markSlots(updated);
+    const patch = (items: HallData[]) => items.map(item => {
+      const fresh = marked.find(h => h.hallId === item.hallId && h.timeSlot === item.timeSlot);
+      return fresh && item.hallName !== ''
+        ? { ...item, status: fresh.status, booking: fresh.booking, span: fresh.span, enquiryIds: fresh.enquiryIds, hold: fresh.hold, error: fresh.error, cell: fresh.cell }
+        : item;
+    });
+    setHalls(patch);
+    setDisplayedHalls(patch);
+  };
+
+  // Re-read one hall whose slots came back Unknown and patch its card in place
+  const retryHall = async (slot: HallData) => {
+    const [year, month, day] = slot.date.split('-').map(Number);
+    setRetryingHallId(slot.hallId);
+    try {
+      const hallData = await retryHallData(new Date(year, month - 1, day), slot.hallId);
+      replaceSlots(hallData.filter(h => h.hallId === slot.hallId));
+    } catch (error) {
+      console.error(`Error retrying hall ${slot.hallId}:`, error);
+      Alert.alert('Retry failed', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+    } finally {
+      setRetryingHallId(null);
+    }
+  };
+
+  // Write a slot change to the sheet, showing it on the card straight away and undoing it if the write fails
+  const saveSlotChange = async (slot: HallData, status: SlotStatus, note: string, force: boolean = false) => {
+    if (!session) return;
+    setEditingSlot(null);
+    setSavingSlotKey(`${slot.hallId}-${slot.timeSlot}`);
+    replaceSlots([previewSlotChange(slot, status, note)]);
+
+    try {
+      const result = await writeSlotStatus(slot, status, session.username, note, { force });
+      if (result.status === 'conflict') {
+        replaceSlots([slot]);
+        Alert.alert(
+          'Changed in the sheet',
+          `${slot.hallName} ${slot.timeSlot} on ${slot.date} was changed by someone else since it was loaded.\n\nSheet now has: "${result.currentValue}"`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Reload', onPress: () => syncState && revalidateDay(syncState.date, true, true) },
+            { text: 'Overwrite', style: 'destructive', onPress: () => saveSlotChange(slot, status, note, true) },
+          ]
+        );
+        return;
+      }
+
+      replaceSlots([result.slot]);
+      // A held slot that is now booked (or otherwise taken) no longer needs its hold
+      if (slot.hold && status !== 'Available' && session) {
+        releaseHold(slot.hold.id, session.username).catch(error => console.warn(`Could not release hold ${slot.hold?.id}:`, error));
+      }
+      if (!result.auditLogged) {
+        Alert.alert('Saved without audit entry', 'The slot was changed, but the change could not be recorded in the audit tab.', [{ text: 'OK' }]);
+      }
+    } catch (error) {
+      console.error(`Error changing ${slot.hallId} ${slot.timeSlot}:`, error);
+      replaceSlots([slot]);
+      Alert.alert('Could not save', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+    } finally {
+      setSavingSlotKey(null);
+    }
+  };
+
+  // Show what was written in the sheet for a booked or held slot, or why an unknown slot couldn't be read
+  const showSlotDetails = (slot: HallData) => {
+    if (slot.status === 'Unknown') {
+      Alert.alert(
+        `${slot.hallName} – ${slot.timeSlot}`,
+        `${slot.location}\n${slot.date}\n\nThis slot could not be read from the sheet, so it may be free or booked.\n\nReason: ${slot.error || 'Unknown error'}`,
+        [{ text: 'Cancel', style: 'cancel' }, { text: 'Retry', onPress: () => retryHall(slot) }]
+      );
+      return;
+    }
+    if (slot.hold) {
+      showSlotHold(slot, slot.hold);
+      return;
+    }
+    if (slot.enquiryIds) {
+      showSlotEnquiries(slot);
+      return;
+    }
+    if (!slot.booking) {
+      if ((canLogEnquiries || canPlaceHolds) && slot.status === 'Available') {
+        Alert.alert(
+          `${slot.hallName} – ${slot.timeSlot}`,
+          `${slot.location}\n${slot.date}\n\nFree in the sheet.`,
+          alertButtons([
+            ...(canPlaceHolds ? [{ text: 'Hold', onPress: () => setHoldingSlot(slot) }] : []),
+            ...(canLogEnquiries ? [{ text: 'Log enquiry', onPress: () => setEnquiryFormSlots([enquirySlotFor(slot)]) }] : []),
+            ...(canEditSlots ? [{ text: 'Change', onPress: () => setEditingSlot(slot) }] : []),
+          ]),
+          { cancelable: true }
+        );
+      } else if (canEditSlots) {
+        setEditingSlot(slot);
+      }
+      return;
+    }
+    const { booking } = slot;
+    const lines = [
+      booking.label ? `Booking: ${booking.label}` : null,
+      booking.eventType ? `Event: ${booking.eventType}` : null,
+      booking.tentative ? 'Tentative hold (not confirmed)' : null,
+      booking.notes ? `Notes: ${booking.notes}` : null,
+      `Sheet entry: "${booking.raw}"`,
+    ].filter(Boolean);
+    Alert.alert(
+      `${slot.hallName} – ${slot.timeSlot}`,
+      `${slot.location}\n${slot.date}\n\n${lines.join('\n')}`,
+      canEditSlots ? [{ text: 'Change', onPress: () => setEditingSlot(slot) }, { text: 'OK' }] : [{ text: 'OK' }]
+    );
+  };
+
+  // Android shows at most three alert buttons; there a full alert is dismissed by tapping outside it instead
+  const alertButtons = (actions: AlertButton[]): AlertButton[] => {
+    if (actions.length === 0) return [{ text: 'OK' }];
+    if (Platform.OS === 'android' && actions.length >= 3) return actions.slice(0, 3);
+    return [{ text: 'Cancel', style: 'cancel' }, ...actions];
+  };
+
+  // Open the slot editor, first warning about a hold someone else placed on the slot
+  const editSlot = (slot: HallData) => {
+    const { hold } = slot;
+    if (hold && hold.heldBy !== session?.username) {
+      Alert.alert(
+        `Held by ${hold.heldBy}`,
+        `${slot.hallName} ${slot.timeSlot} on ${slot.date} is held for ${hold.customerName} for another ${formatTimeLeft(hold.expiresAt)}. Change it anyway?`,
+        [{ text: 'Cancel', style: 'cancel' }, { text: 'Change anyway', style: 'destructive', onPress: () => setEditingSlot(slot) }]
+      );
+      return;
+    }
+    setEditingSlot(slot);
+  };
+
+  const handleReleaseHold = async (hold: SlotHold) => {
+    if (!session) return;
+    try {
+      await releaseHold(hold.id, session.username);
+    } catch (error) {
+      console.error(`Error releasing hold ${hold.id}:`, error);
+      Alert.alert('Could not release', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+    }
+  };
+
+  // Who a free slot is held for and until when; anyone else looking at it is warned that it is taken for now
+  const showSlotHold = (slot: HallData, hold: SlotHold) => {
+    const mine = hold.heldBy === session?.username;
+    const until = new Date(hold.expiresAt).toLocaleString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+    Alert.alert(
+      mine ? `${slot.hallName} – ${slot.timeSlot}` : `Held by ${hold.heldBy}`,
+      `${slot.location}\n${slot.date}\n\n${mine ? 'You are holding' : `${hold.heldBy} is holding`} this slot for ${hold.customerName} until ${until} (${formatTimeLeft(hold.expiresAt)} left).` +
+        `${hold.note ? `\nNote: ${hold.note}` : ''}\n\nIt is free in the sheet and is released automatically when the hold runs out.`,
+      alertButtons([
+        ...(mine || canReleaseAnyHold ? [{ text: 'Release', style: 'destructive' as const, onPress: () => handleReleaseHold(hold) }] : []),
+        ...(canEditSlots ? [{ text: 'Change', onPress: () => setEditingSlot(slot) }] : []),
+      ]),
+      { cancelable: true }
+    );
+  };
+
+  const enquirySlotFor = (slot: HallData): EnquirySlot => ({
+    locationId: slot.locationId,
+    hallId: slot.hallId,
+    hallName: slot.hallName,
+    date: slot.date,
+    timeSlot: slot.timeSlot,
+  });
+
+  // Who asked about a free slot that shows as Enquiry
+  const showSlotEnquiries = (slot: HallData) => {
+    const asking = enquiries.filter(enquiry => slot.enquiryIds?.includes(enquiry.id));
+    const lines = asking.map(enquiry => [
+      `${enquiry.customerName} – ${enquiry.phone}`,
+      [enquiry.eventType, enquiry.guestCount ? `${enquiry.guestCount} guests` : null].filter(Boolean).join(', '),
+      `Logged by ${enquiry.createdBy}, held until ${new Date(enquiry.expiresAt).toLocaleDateString()}`,
+    ].filter(Boolean).join('\n'));
+    Alert.alert(
+      `${slot.hallName} – ${slot.timeSlot}`,
+      `${slot.location}\n${slot.date}\n\nFree in the sheet, with an open enquiry:\n\n${lines.join('\n\n')}`,
+      alertButtons([
+        ...(canPlaceHolds ? [{ text: 'Hold', onPress: () => setHoldingSlot(slot) }] : []),
+        ...(canLogEnquiries ? [{ text: 'Enquiries', onPress: () => setViewMode('enquiries') }] : []),
+        ...(canEditSlots ? [{ text: 'Change', onPress: () => setEditingSlot(slot) }] : []),
+      ]),
+      { cancelable: true }
+    );
+  };
+
+  const renderSlotBadge = (slot: HallData | undefined, timeSlot: TimeSlot) => {
+    const status = slot?.status || 'Unknown'; // Default if not found or mismatched
+    const badgeStyles = {
+      Available: styles.availableBadge,
+      Booked: styles.bookedBadge,
+      Enquiry: styles.enquiryBadge,
+      Maintenance: styles.maintenanceBadge,
+      Unknown: styles.unknownBadge,
+    };
+    return (
+      <TouchableOpacity
+        style={[styles.timeSlotBadge, badgeStyles[status]]}
+        onPress={() => slot && showSlotDetails(slot)}
+        onLongPress={() => canEditSlots && slot && editSlot(slot)}
+        disabled={!slot?.booking && !slot?.enquiryIds && !slot?.hold && status !== 'Unknown' && !canEditSlots && !((canLogEnquiries || canPlaceHolds) && status === 'Available')}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.timeSlotText}>{timeSlot}</Text>
+        {slot && savingSlotKey === `${slot.hallId}-${slot.timeSlot}` ? (
+          <ActivityIndicator size="small" color="#222222" style={{ marginTop: 5 }} />
+        ) : (
+          <Text style={styles.statusText}>{status}</Text>
+        )}
+        {slot?.booking?.label ? (
+          <Text style={styles.bookingLabelText} numberOfLines={1}>{slot.booking.label}</Text>
+        ) : null}
+        {slot?.hold ? (
+          <>
+            <Text style={styles.bookingLabelText} numberOfLines={1}>{slot.hold.customerName}</Text>
+            <Text style={styles.holdCountdownText} numberOfLines={1}>⏳ {formatTimeLeft(slot.hold.expiresAt, clock)}</Text>
+          </>
+        ) : slot?.enquiryIds ? (
+          <Text style={styles.bookingLabelText} numberOfLines={1}>
+            {enquiries.find(enquiry => enquiry.id === slot.enquiryIds?.[0])?.customerName || 'Enquiry'}
+            {slot.enquiryIds.length > 1 ? ` +${slot.enquiryIds.length - 1}` : ''}
+          </Text>
+        ) : null}
+        {status === 'Unknown' ? (
+          <Text style={styles.bookingLabelText} numberOfLines={1}>Couldn't read sheet</Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
   const renderHallItem = useCallback(({ item, index }: { item: HallData, index: number }) => {
     if (item.hallName === '') { 
       return (
@@ -443,39 +826,61 @@ Try restarting the server with "npm start --clear"`,
       );
     }
 
-    if (item.timeSlot === 'Morning') {
-      const eveningSlotIndex = index + 1;
-      let eveningSlotStatus = 'Enquiry'; // Default if not found or mismatched
+    // A hall's slots are consecutive rows; render its card on the first of them
+    if (index > 0 && halls[index - 1]?.hallId === item.hallId) {
+      return null;
+    }
+    const hallSlots = halls.filter(h => h.hallId === item.hallId && h.hallName !== '');
+    const hasUnknown = hallSlots.some(slot => slot.status === 'Unknown');
+    const spanSlot = hallSlots.find(slot => slot.span);
+    const spanText = spanSlot ? describeSpan(spanSlot) : null;
+    const details = findHall(item.hallId)?.details;
+    const detailsText = describeHallDetails(details);
+    const priceText = details?.pricing ? describeSlotPrices(details.pricing, hallSlots.map(slot => slot.timeSlot), item.date, { muhurat: isMuhurat(item.date, dateAnnotations) }) : '';
+    const unchecked = uncheckedRequirements(details, requirements);
+    const canQuote = canCreateQuotes && hallSlots.some(slot => slot.status === 'Available' || slot.status === 'Enquiry');
 
-      if (eveningSlotIndex < halls.length && 
-          halls[eveningSlotIndex].hallName === item.hallName && 
-          halls[eveningSlotIndex].timeSlot === 'Evening') {
-        eveningSlotStatus = halls[eveningSlotIndex].status;
-      } else {
-        // console.warn(`Evening slot for ${item.hallName} mismatched or not found directly after morning slot.`);
-        // Attempt to find it further if data isn't strictly paired (though current logic assumes pairs)
-        const foundEveningSlot = halls.find(h => h.hallName === item.hallName && h.location === item.location && h.timeSlot === 'Evening');
-        if (foundEveningSlot) eveningSlotStatus = foundEveningSlot.status;
-      }
-      
-      return (
-        <View style={styles.hallItem}>
+    return (
+      <View style={styles.hallItem}>
+        <View style={styles.hallHeaderRow}>
           <Text style={styles.hallName}>{item.hallName}</Text>
-          <View style={styles.slotsContainer}>
-            <View style={[styles.timeSlotBadge, item.status === 'Available' ? styles.availableBadge : (item.status === 'Booked' ? styles.bookedBadge : styles.enquiryBadge)]}>
-              <Text style={styles.timeSlotText}>Morning</Text>
-              <Text style={styles.statusText}>{item.status}</Text>
-            </View>
-            <View style={[styles.timeSlotBadge, eveningSlotStatus === 'Available' ? styles.availableBadge : (eveningSlotStatus === 'Booked' ? styles.bookedBadge : styles.enquiryBadge)]}>
-              <Text style={styles.timeSlotText}>Evening</Text>
-              <Text style={styles.statusText}>{eveningSlotStatus}</Text>
-            </View>
-          </View>
+          {canQuote && !hasUnknown && (
+            <TouchableOpacity style={styles.hallActionButton} onPress={() => setQuotingSlots(hallSlots)}>
+              <Text style={styles.hallActionText}>Quote</Text>
+            </TouchableOpacity>
+          )}
+          {hasUnknown && (
+            retryingHallId === item.hallId ? (
+              <ActivityIndicator size="small" color="#C6A556" />
+            ) : (
+              <TouchableOpacity style={styles.hallActionButton} onPress={() => retryHall(item)} disabled={retryingHallId !== null}>
+                <Text style={styles.hallActionText}>↻ Retry</Text>
+              </TouchableOpacity>
+            )
+          )}
         </View>
-      );
-    }
-    return null; // Only render for "Morning" items, Evening is paired.
-  }, [halls, styles]); // styles dependency
+        {detailsText || priceText ? (
+          <Text style={styles.hallDetailsText}>{[detailsText, priceText].filter(Boolean).join(' · ')}</Text>
+        ) : null}
+        {unchecked ? <Text style={styles.uncheckedText}>No {unchecked} on file, so not checked against the filter</Text> : null}
+        {spanText ? <Text style={styles.spanText}>{spanText}</Text> : null}
+        <View style={styles.slotsContainer}>
+          {hallSlots.map(slot => (
+            <React.Fragment key={slot.timeSlot}>{renderSlotBadge(slot, slot.timeSlot)}</React.Fragment>
+          ))}
+        </View>
+      </View>
+    );
+  }, [halls, styles, retryingHallId, savingSlotKey, syncState, canEditSlots, canLogEnquiries, canPlaceHolds, canCreateQuotes, enquiries, clock, requirements, dateAnnotations]); // styles dependency
+
+  const dueFollowUpCount = dueFollowUps(enquiries).length;
+
+  // Tapping a day in the month calendar or a search result opens the per-hall list for that day
+  const handleCalendarDaySelect = (selectedDay: Date) => {
+    setDate(selectedDay);
+    setViewMode('day');
+    handleFind(selectedDay); // Served from the month grid the calendar already loaded
+  };
 
   const renderDatePicker = () => {
     if (Platform.OS === 'ios') {
@@ -508,6 +913,7 @@ Try restarting the server with "npm start --clear"`,
               textColor="#FFFFFF" 
               themeVariant="dark" // Ensure this is supported or remove if causing issues
             />
+            <DateAnnotationTags dateKey={formatDate(tempDate)} annotations={dateAnnotations} style={styles.pickerAnnotationsIOS} />
           </View>
         </View>
       </Modal>
@@ -523,7 +929,7 @@ Try restarting the server with "npm start --clear"`,
     );
   };
 
-  if (isCheckingAuth) {
+  if (isCheckingAuth || appLock.checking) {
     return (
       <View style={{ flex: 1, backgroundColor: '#000000' }}>
         <SafeAreaView style={styles.safeArea}>
@@ -537,7 +943,7 @@ Try restarting the server with "npm start --clear"`,
     );
   }
 
-  if (!isAuthenticated) {
+  if (!session || isSessionExpired(session)) {
     return (
       <View style={{ flex: 1, backgroundColor: '#000000' }}>
         <SafeAreaView style={styles.safeArea}>
@@ -548,42 +954,32 @@ Try restarting the server with "npm start --clear"`,
             {authError ? <Text style={styles.passwordError}>{authError}</Text> : null}
             <TextInput
               style={styles.passwordInput}
-              placeholder="Enter Password"
+              placeholder="Username"
               placeholderTextColor="#757575"
-              secureTextEntry
-              value={password}
-              onChangeText={setPassword}
+              value={username}
+              onChangeText={setUsername}
               autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={styles.passwordInput}
+              placeholder="PIN"
+              placeholderTextColor="#757575"
+              secureTextEntry
+              keyboardType="number-pad"
+              value={pin}
+              onChangeText={setPin}
+              onSubmitEditing={handleLogin}
             />
             <TouchableOpacity
               style={styles.passwordButton}
-              onPress={async () => {
-                setLoading(true); 
-                setAuthError('');
-                try {
-                  await new Promise<void>((resolve, reject) => { // Explicitly type Promise
-                    setTimeout(() => {
-                      if (password === AUTH_PASSWORD) {
-                        resolve();
-                      } else {
-                        reject(new Error('Invalid password, please try again.'));
-                      }
-                    }, 500); 
-                  });
-                  await AsyncStorage.setItem(AUTH_STORAGE_KEY, 'true');
-                  setIsAuthenticated(true);
-                } catch (e: any) { 
-                  setAuthError(e.message || 'An unknown error occurred.');
-                } finally {
-                  setLoading(false); 
-                }
-              }}
+              onPress={handleLogin}
               disabled={loading} 
             >
               {loading ? ( 
                 <ActivityIndicator size="small" color="#000000" /> 
               ) : (
-                <Text style={styles.passwordButtonText}>Unlock</Text>
+                <Text style={styles.passwordButtonText}>Sign In</Text>
               )}
             </TouchableOpacity>
           </View>
@@ -592,13 +988,41 @@ Try restarting the server with "npm start --clear"`,
     );
   }
 
+  if (appLock.locked) {
+    return (
+      <View style={{ flex: 1, backgroundColor: '#000000' }}>
+        <SafeAreaView style={styles.safeArea}>
+          <StatusBar barStyle="light-content" backgroundColor="#000000" />
+          <LockScreen
+            session={session}
+            lockoutUntil={appLock.lockoutUntil}
+            biometricsAvailable={appLock.biometricsAvailable}
+            onUnlockWithPin={appLock.unlockWithPin}
+            onUnlockWithBiometrics={appLock.unlockWithBiometrics}
+            onSignOut={() => handleLogout()}
+          />
+        </SafeAreaView>
+      </View>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <StatusBar barStyle="light-content" backgroundColor="#000000" />
-      <View style={styles.container}>
+      {/* Every touch counts as activity for the inactivity lock; the capture handler never claims the touch */}
+      <View style={styles.container} onStartShouldSetResponderCapture={() => { appLock.markActivity(); return false; }}>
         <View style={styles.header}>
           <Image source={require('./assets/icon.png')} style={styles.logo} resizeMode="contain" />
           <Text style={styles.heading} numberOfLines={1}>GMK Banquets</Text>
+          <View style={styles.userRow}>
+            <Text style={styles.userText} numberOfLines={1}>{session.name} · {session.role}</Text>
+            <TouchableOpacity onPress={appLock.lock}>
+              <Text style={[styles.logoutText, styles.lockText]}>Lock</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleLogout()}>
+              <Text style={styles.logoutText}>Log out</Text>
+            </TouchableOpacity>
+          </View>
         </View>
         
         <View style={styles.dateSection}>
@@ -615,11 +1039,12 @@ Try restarting the server with "npm start --clear"`,
                 {formatDate(date)}
               </Text>
             </TouchableOpacity>
+            <DateAnnotationTags dateKey={formatDate(date)} annotations={dateAnnotations} />
           </View>
           
           <TouchableOpacity
             style={styles.findButton}
-            onPress={handleFind}
+            onPress={() => handleFind()}
             disabled={loading}
           >
             {loading && displayedHalls.length === 0 ? ( 
@@ -631,8 +1056,101 @@ Try restarting the server with "npm start --clear"`,
         </View>
         
         {renderDatePicker()}
+        {canEditSlots && (
+          <SlotEditor slot={editingSlot} onClose={() => setEditingSlot(null)} onSave={(slot, status, note) => saveSlotChange(slot, status, note)} />
+        )}
+        {canLogEnquiries && (
+          <EnquiryForm
+            visible={enquiryFormSlots !== null}
+            initialSlots={enquiryFormSlots || []}
+            initialDate={date}
+            createdBy={session.username}
+            onClose={() => setEnquiryFormSlots(null)}
+            onSaved={() => setEnquiryFormSlots(null)}
+          />
+        )}
+        {canPlaceHolds && (
+          <HoldForm slot={holdingSlot} heldBy={session.username} onClose={() => setHoldingSlot(null)} onPlaced={() => setHoldingSlot(null)} />
+        )}
+        {canCreateQuotes && (
+          <QuoteBuilder
+            slots={quotingSlots}
+            initialGuestCount={requirements.guestCount}
+            createdBy={session.username}
+            onClose={() => setQuotingSlots(null)}
+          />
+        )}
+        {syncState && canShare && (
+          <ShareAvailability
+            visible={sharingOpen}
+            date={syncState.date}
+            halls={halls}
+            syncedAt={syncState.syncedAt}
+            stale={syncState.stale}
+            onClose={() => setSharingOpen(false)}
+          />
+        )}
+
+        <View style={styles.viewModeToggle}>
+          {(['day', 'month', 'search', 'enquiries', 'quotes'] as const)
+            .filter(mode => (mode !== 'enquiries' || canLogEnquiries) && (mode !== 'quotes' || canCreateQuotes))
+            .map(mode => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.viewModeButton, viewMode === mode && styles.viewModeButtonActive]}
+                onPress={() => {
+                  if (mode === 'month') {
+                    setCalendarMonth(new Date(date.getFullYear(), date.getMonth(), 1));
+                  }
+                  setViewMode(mode);
+                }}
+              >
+                <Text style={[styles.viewModeButtonText, viewMode === mode && styles.viewModeButtonTextActive]}>
+                  {mode === 'day' ? 'Day' : mode === 'month' ? 'Month' : mode === 'search' ? 'Search' : mode === 'enquiries' ? 'Enquiries' : 'Quotes'}
+                  {mode === 'enquiries' && dueFollowUpCount > 0 ? ` (${dueFollowUpCount})` : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+        </View>
+
+        {viewMode === 'day' && (
+          <RequirementsFilter value={requirements} onChange={setRequirements} />
+        )}
+        {viewMode === 'day' && hasRequirements(requirements) && hiddenHallNames.length > 0 && (
+          <Text style={styles.hiddenHallsText}>Hidden (too small or over budget): {hiddenHallNames.join(', ')}</Text>
+        )}
+
+        {viewMode === 'month' && (
+          <MonthCalendar
+            month={calendarMonth}
+            selectedDate={date}
+            enquiries={enquiries}
+            holds={holds}
+            dateAnnotations={dateAnnotations}
+            onChangeMonth={setCalendarMonth}
+            onSelectDay={handleCalendarDaySelect}
+          />
+        )}
+
+        {viewMode === 'search' && (
+          <DateSearchPanel onSelectDate={handleCalendarDaySelect} dateAnnotations={dateAnnotations} />
+        )}
+
+        {viewMode === 'enquiries' && canLogEnquiries && (
+          <EnquiryPanel
+            enquiries={enquiries}
+            username={session.username}
+            canBookInSheet={canEditSlots}
+            onNewEnquiry={() => setEnquiryFormSlots([])}
+            onSelectDate={handleCalendarDaySelect}
+          />
+        )}
+
+        {viewMode === 'quotes' && canCreateQuotes && (
+          <QuoteList quotes={quotes} onSelectDate={handleCalendarDaySelect} />
+        )}
 
-        {loading && !networkError && displayedHalls.length === 0 && (
+        {viewMode === 'day' && loading && !networkError && displayedHalls.length === 0 && (
           <FlatList
             data={Array.from({ length: 6 })} // Changed length to 6 to add one more skeleton item
             renderItem={() => <SkeletonItem />}
@@ -643,7 +1161,7 @@ Try restarting the server with "npm start --clear"`,
           />
         )}
 
-        {networkError && (
+        {viewMode === 'day' && networkError && (
           <View style={styles.errorContainer}>
             {Platform.OS === 'ios' ? (
               <BlurView intensity={50} tint="dark" style={StyleSheet.absoluteFill} />
@@ -709,11 +1227,26 @@ Try restarting the server with "npm start --clear"`,
           </View>
         )}
 
-        {!loading && !networkError && displayedHalls.length > 0 && (
+        {viewMode === 'day' && !loading && !networkError && displayedHalls.length > 0 && syncState && (
+          <SyncStatus
+            syncedAt={syncState.syncedAt}
+            stale={syncState.stale}
+            refreshing={refreshing}
+            onRefresh={() => revalidateDay(syncState.date, true, true)}
+          />
+        )}
+
+        {viewMode === 'day' && !loading && !networkError && displayedHalls.length > 0 && syncState && canShare && (
+          <TouchableOpacity style={styles.shareButton} onPress={() => setSharingOpen(true)}>
+            <Text style={styles.shareButtonText}>Share availability</Text>
+          </TouchableOpacity>
+        )}
+
+        {viewMode === 'day' && !loading && !networkError && displayedHalls.length > 0 && (
           <FlatList
             data={displayedHalls}
             renderItem={renderHallItem}
-            keyExtractor={(item, index) => `${item.location}-${item.hallName}-${item.timeSlot}-${index}`} // Ensure unique keys
+            keyExtractor={(item, index) => `${item.locationId}-${item.hallId}-${item.timeSlot}-${index}`} // Ensure unique keys
             contentContainerStyle={styles.listContent}
             style={styles.list}
             ListFooterComponent={renderFooter}
@@ -723,10 +1256,23 @@ Try restarting the server with "npm start --clear"`,
           />
         )}
         
-        {!loading && !networkError && halls.length === 0 && ( 
+        {viewMode === 'day' && !loading && !networkError && halls.length === 0 && ( 
           <View style={styles.noHallsContainer}>
-            <Text style={styles.noHallsText}>No halls found for the selected date.</Text>
-            <Text style={styles.tipText}>Tip: Try selecting a different date.</Text>
+            {missingMonth ? (
+              <Text style={styles.noHallsText}>
+                {missingMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })} hasn't been added to the sheet yet.
+              </Text>
+            ) : hasRequirements(requirements) ? (
+              <>
+                <Text style={styles.noHallsText}>No hall fits these guests and budget.</Text>
+                <Text style={styles.tipText}>Tip: Clear the filter to see every hall.</Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.noHallsText}>No halls found for the selected date.</Text>
+                <Text style={styles.tipText}>Tip: Try selecting a different date.</Text>
+              </>
+            )}
           </View>
         )}
       </View>
@@ -766,6 +1312,24 @@ const styles = StyleSheet.create({
     color: '#C6A556', 
     textAlign: 'center',
   },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  userText: {
+    color: '#A0A0A0',
+    fontSize: 13,
+    marginRight: 12,
+  },
+  logoutText: {
+    color: '#C6A556',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  lockText: {
+    marginRight: 12,
+  },
   dateSection: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -809,6 +1373,29 @@ const styles = StyleSheet.create({
     color: '#000000', 
     fontWeight: 'bold',
   },
+  viewModeToggle: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    backgroundColor: '#1C1C1E',
+    borderRadius: 20,
+    padding: 3,
+  },
+  viewModeButton: {
+    paddingVertical: 7,
+    paddingHorizontal: 10,
+    borderRadius: 17,
+  },
+  viewModeButtonActive: {
+    backgroundColor: '#C6A556',
+  },
+  viewModeButtonText: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  viewModeButtonTextActive: {
+    color: '#000000',
+  },
   modalContainerIOS: {
     flex: 1,
     justifyContent: 'flex-end',
@@ -849,6 +1436,10 @@ const styles = StyleSheet.create({
     // width: '100%', // Ensure it takes full width if needed
     // height: 216, // Standard iOS picker height
   },
+  pickerAnnotationsIOS: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
   loadingText: {
     marginTop: 15,
     color: '#B0B0B0', // Slightly brighter loading text
@@ -964,6 +1555,7 @@ const styles = StyleSheet.create({
     fontSize: 20, 
     fontWeight: '600', 
     color: '#C6A556', 
+    textTransform: 'uppercase',
   },
   hallItem: {
     backgroundColor: '#1C1C1E', // Darker item background, consistent with iOS modal
@@ -982,6 +1574,63 @@ const styles = StyleSheet.create({
     color: '#E8E8E8', 
     marginBottom: 14, 
   },
+  hallHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  hallActionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#C6A556',
+  },
+  hallActionText: {
+    color: '#C6A556',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  shareButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C6A556',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  shareButtonText: {
+    color: '#C6A556',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hallDetailsText: {
+    color: '#A0A0A0',
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  uncheckedText: {
+    color: '#A0A0A0',
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  hiddenHallsText: {
+    color: '#A0A0A0',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  spanText: {
+    color: '#C6A556',
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: -8,
+    marginBottom: 10,
+  },
   slotsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between', 
@@ -1008,17 +1657,38 @@ const styles = StyleSheet.create({
     marginTop: 5, 
     fontWeight: '600', // Bolder status
   },
+  bookingLabelText: {
+    fontSize: 12,
+    color: '#333333',
+    marginTop: 2,
+    paddingHorizontal: 6,
+  },
+  holdCountdownText: {
+    fontSize: 11,
+    color: '#222222',
+    fontWeight: '600',
+    marginTop: 1,
+  },
   availableBadge: {
-    backgroundColor: '#90EE90', // LightGreen (from user)
-    borderColor: '#5cb85c', // Darker green border
+    backgroundColor: statusColors.Available.background,
+    borderColor: statusColors.Available.border,
   },
   bookedBadge: {
-    backgroundColor: '#F08080', // LightCoral (from user)
-    borderColor: '#d9534f', // Darker red border
+    backgroundColor: statusColors.Booked.background,
+    borderColor: statusColors.Booked.border,
   },
   enquiryBadge: { // Added style for 'Enquiry' or other statuses
-    backgroundColor: '#DAA520', // Goldenrod (from user for 'Enquiry')
-    borderColor: '#b8860b', // Darker gold border
+    backgroundColor: statusColors.Enquiry.background,
+    borderColor: statusColors.Enquiry.border,
+  },
+  maintenanceBadge: {
+    backgroundColor: statusColors.Maintenance.background,
+    borderColor: statusColors.Maintenance.border,
+  },
+  unknownBadge: {
+    backgroundColor: statusColors.Unknown.background,
+    borderColor: statusColors.Unknown.border,
+    borderStyle: 'dashed',
   },
   footerLoader: {
     paddingVertical: 25,
@@ -0,0 +1,85 @@
+// Read a month tab, work out its layout (date column, header rows, each hall's Morning/Evening columns)
+// and compare it with the venue config. Exits with 1 when the config doesn't match the sheet.
+// Usage: npm run discover-layout -- [YYYY-MM]
+// Offline: EXPO_PUBLIC_AVAILABILITY_SOURCE=fixtures npm run discover-layout -- 2025-06
+import 'dotenv/config';
+import { getSheetDetails } from './src/services/api';
+import { getAvailabilitySource } from './src/services/availabilitySource';
+import { diffLayout, discoverLayout, proposeLocations } from './src/services/layoutDiscovery';
+import { tabRange } from './src/services/sheetRange';
+import { resolveMonthTab } from './src/services/sheetTabs';
+import { loadVenueConfig } from './src/services/venueConfig';
+import { LocationConfig } from './src/types';
+
+// Wide and tall enough for any month tab we have: up to column AZ, header rows plus 31 days
+const TAB_RANGE = 'A1:AZ60';
+
+const parseMonth = (value: string | undefined): Date => {
+  if (!value) {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    console.error('Usage: npm run discover-layout -- [YYYY-MM]');
+    process.exit(1);
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+};
+
+async function discover() {
+  const date = parseMonth(process.argv[2]);
+  const { sheetName, daysInMonth } = getSheetDetails(date);
+  const venueConfig = await loadVenueConfig();
+  const source = getAvailabilitySource();
+  console.log(`Checking '${sheetName}' (${daysInMonth} days) through the ${source.name} source\n`);
+
+  // All locations may share one spreadsheet; each spreadsheet is one tab to read
+  const locationsBySheet = new Map<string, LocationConfig[]>();
+  venueConfig.locations.forEach(location => {
+    locationsBySheet.set(location.sheetId, [...(locationsBySheet.get(location.sheetId) || []), location]);
+  });
+
+  let issueCount = 0;
+  const proposed: LocationConfig[] = [];
+  for (const [sheetId, locations] of locationsBySheet) {
+    console.log(`Spreadsheet ${sheetId} (${locations.map(location => location.name).join(', ')})`);
+    const tab = await resolveMonthTab(sheetId, date.getFullYear(), date.getMonth(), sheetName);
+    const read = tab === null ? null : await source.readRanges(sheetId, [tabRange(tab, TAB_RANGE)]);
+    if (!read || read.tabMissing) {
+      console.log(`  ✗ No tab for ${sheetName}\n`);
+      issueCount++;
+      proposed.push(...locations);
+      continue;
+    }
+
+    if (tab !== sheetName) {
+      console.log(`  Tab:               '${tab}'`);
+    }
+    const layout = discoverLayout(read.valueRanges[0] || [], sheetName);
+    console.log(`  Date column:       ${layout.dateColumn ? `${layout.dateColumn} (days 1-${layout.daysFound})` : 'not found'}`);
+    console.log(`  Hall header row:   ${layout.hallHeaderRow ?? 'not found'}`);
+    console.log(`  Slot header row:   ${layout.slotHeaderRow ?? 'not found'}`);
+    console.log(`  Day 1 row:         ${layout.firstDayRow}`);
+    layout.halls.forEach(hall => {
+      console.log(`  ${hall.name.padEnd(18)} morning ${hall.morningColumn}, evening ${hall.eveningColumn}`);
+    });
+
+    const issues = diffLayout(layout, locations, daysInMonth);
+    issueCount += issues.length;
+    console.log(issues.length === 0 ? '  ✓ Matches the venue config' : `  ${issues.length} difference(s) from the venue config:`);
+    issues.forEach(issue => console.log(`  ✗ ${issue.message}`));
+    console.log('');
+
+    proposed.push(...proposeLocations(layout, locations));
+  }
+
+  console.log('Proposed venue config (review ids and names before using it):');
+  console.log(JSON.stringify({ locations: proposed }, null, 2));
+  process.exit(issueCount > 0 ? 1 : 0);
+}
+
+discover().catch(error => {
+  console.error('Layout discovery failed:', error);
+  process.exit(1);
+});
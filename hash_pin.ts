@@ -0,0 +1,13 @@
+// Generate the "PIN Hash" value for a row of the USERS tab
+// Usage: npm run hash-pin -- 4821
+import { createHash, randomBytes } from 'crypto';
+
+const pin = process.argv[2];
+if (!pin || !/^\d{4,8}$/.test(pin)) {
+  console.error('Usage: npm run hash-pin -- <4 to 8 digit PIN>');
+  process.exit(1);
+}
+
+const salt = randomBytes(8).toString('hex');
+const hash = createHash('sha256').update(`${salt}:${pin}`).digest('hex');
+console.log(`sha256:${salt}:${hash}`);
@@ -1,12 +1,15 @@
 // Test script to check fetchHallData with our current date
+// Offline: EXPO_PUBLIC_AVAILABILITY_SOURCE=mock npx tsx run_test.ts
 import { fetchHallData } from './src/services/api';
+import { getAvailabilitySource } from './src/services/availabilitySource';
 
 async function runTest() {
   try {
     console.log('Starting test...');
     
     // Verify API key is available
-    const apiKey = process.env.EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY;
+    const apiKey = process.env.GOOGLE_SHEETS_API_KEY || process.env.EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY;
+    console.log('Data source:', getAvailabilitySource().name);
     console.log('API Key available:', apiKey ? `Yes (length: ${apiKey.length})` : 'No');
     
     // Test with current date
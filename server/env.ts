@@ -0,0 +1,9 @@
+// Loaded before anything else so the shared services see the server's settings
+import 'dotenv/config';
+
+// The .env file may point the app at this proxy; the proxy itself always reads the spreadsheets
+delete process.env.EXPO_PUBLIC_PROXY_URL;
+
+if (!process.env.GOOGLE_SHEETS_API_KEY) {
+    console.error('GOOGLE_SHEETS_API_KEY is not set; every sheet read will fail.');
+}
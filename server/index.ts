@@ -0,0 +1,244 @@
+// Availability proxy: reads the spreadsheets with the Google Sheets API key so the key never ships in the app.
+// Run with `npm run proxy` and point the app at it with EXPO_PUBLIC_PROXY_URL.
+//
+//   GET  /availability?date=YYYY-MM-DD       -> HallData[] for the day, in fetchHallData order
+//   GET  /availability/month?month=YYYY-MM   -> MonthAvailability; add hallId=<id> to re-read one hall,
+//                                               refresh=1 to skip the cache
+//   GET  /venue-config                       -> VenueConfig, for EXPO_PUBLIC_VENUE_CONFIG_URL
+//   GET  /holds?sheetId=<id>                 -> SlotHold[] from the holds tab of a spreadsheet in the config
+//   POST /login, GET /users/:username        -> the sign-in contract in src/services/auth.ts; the lookup needs
+//                                               the token from /login and only returns that token's own user
+//   GET  /health
+import './env';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { fetchHallMonthData, fetchMonthData, sortDaySlots } from '../src/services/api';
+import { formatDate } from '../src/services/dates';
+import { loadVenueConfig } from '../src/services/venueConfig';
+import { readSheetHolds } from '../src/services/holds';
+import { MonthAvailability } from '../src/types';
+import { createRateLimiter } from './rateLimit';
+import { checkLogin, findUser, issueSessionToken, tokenUsername } from './users';
+
+const PORT = Number(process.env.PROXY_PORT || process.env.PORT) || 8787;
+// How long a month read from the spreadsheets is served to every client before it is read again
+const CACHE_TTL_MS = (Number(process.env.PROXY_CACHE_SECONDS) || 60) * 1000;
+// An explicit refresh still reuses a copy this fresh, so a burst of pull-to-refreshes costs one read
+const MIN_REFRESH_AGE_MS = 10 * 1000;
+const VENUE_CONFIG_TTL_MS = 5 * 60 * 1000;
+// Behind a reverse proxy every request comes from the same address; trust X-Forwarded-For there
+const TRUST_FORWARDED_FOR = process.env.PROXY_TRUST_FORWARDED_FOR === '1';
+
+// Requests per minute per client, and sign-in attempts per 15 minutes per client and per username
+const allowRequest = createRateLimiter(Number(process.env.PROXY_RATE_LIMIT) || 120, 60 * 1000);
+const allowLogin = createRateLimiter(10, 15 * 60 * 1000);
+
+const MAX_BODY_BYTES = 10 * 1024;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string, public retryAfterSeconds?: number) {
+        super(message);
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...headers
+    });
+    res.end(JSON.stringify(body));
+};
+
+const clientAddress = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (TRUST_FORWARDED_FOR && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress || 'unknown';
+};
+
+const checkRateLimit = (limiter: (key: string) => number, key: string) => {
+    const retryAfterSeconds = limiter(key);
+    if (retryAfterSeconds > 0) {
+        throw new HttpError(429, 'Too many requests', retryAfterSeconds);
+    }
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body too large'));
+            req.destroy();
+        }
+    });
+    req.on('end', () => {
+        try {
+            resolve(body ? JSON.parse(body) : {});
+        } catch {
+            reject(new HttpError(400, 'Request body is not valid JSON'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// "2025-06-14" -> local Date, rejecting impossible days like 2025-02-30
+const parseDateParam = (value: string | null): Date => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+    const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+    if (!date || formatDate(date) !== value) {
+        throw new HttpError(400, 'date must be YYYY-MM-DD');
+    }
+    return date;
+};
+
+// "2025-06" -> the 1st of that month
+const parseMonthParam = (value: string | null): Date => {
+    const match = /^(\d{4})-(\d{2})$/.exec(value || '');
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        throw new HttpError(400, 'month must be YYYY-MM');
+    }
+    return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+};
+
+let venueConfigLoadedAt = 0;
+
+// The shared services keep a remotely loaded config forever; re-read it now and then so layout edits show up
+const refreshVenueConfig = async () => {
+    const stale = Date.now() - venueConfigLoadedAt > VENUE_CONFIG_TTL_MS;
+    const config = await loadVenueConfig({ forceRefresh: stale });
+    if (stale) venueConfigLoadedAt = Date.now();
+    return config;
+};
+
+// A month from the shared month cache, read again once it is older than CACHE_TTL_MS.
+// Months where a hall failed are never cached, so they are read again on every request.
+const getMonth = async (date: Date, refresh: boolean): Promise<MonthAvailability> => {
+    await refreshVenueConfig();
+    const month = await fetchMonthData(date);
+    const age = Date.now() - month.fetchedAt;
+    if (age > CACHE_TTL_MS || (refresh && age > MIN_REFRESH_AGE_MS)) {
+        return fetchMonthData(date, { forceRefresh: true });
+    }
+    return month;
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const address = clientAddress(req);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+        });
+        res.end();
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+
+    checkRateLimit(allowRequest, address);
+
+    if (req.method === 'GET' && url.pathname === '/availability') {
+        const date = parseDateParam(url.searchParams.get('date'));
+        const month = await getMonth(date, url.searchParams.get('refresh') === '1');
+        sendJson(res, 200, sortDaySlots(month.days[formatDate(date)] || []));
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/availability/month') {
+        const date = parseMonthParam(url.searchParams.get('month'));
+        const hallId = url.searchParams.get('hallId');
+        if (hallId) {
+            await refreshVenueConfig();
+            sendJson(res, 200, await fetchHallMonthData(date, hallId).catch(error => {
+                throw new HttpError(404, error instanceof Error ? error.message : String(error));
+            }));
+            return;
+        }
+        sendJson(res, 200, await getMonth(date, url.searchParams.get('refresh') === '1'));
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/venue-config') {
+        sendJson(res, 200, await refreshVenueConfig());
+        return;
+    }
+
+    // Never cached: a hold placed a moment ago on another device has to show up before a slot is held again
+    if (req.method === 'GET' && url.pathname === '/holds') {
+        const sheetId = url.searchParams.get('sheetId');
+        const config = await refreshVenueConfig();
+        if (!sheetId || !config.locations.some(location => location.sheetId === sheetId)) {
+            throw new HttpError(404, 'No such spreadsheet in the venue config');
+        }
+        sendJson(res, 200, await readSheetHolds(sheetId));
+        return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/login') {
+        const body = await readJsonBody(req);
+        const { username, pin } = (body !== null && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+        if (typeof username !== 'string' || typeof pin !== 'string') {
+            throw new HttpError(400, 'username and pin are required');
+        }
+        checkRateLimit(allowLogin, `address:${address}`);
+        checkRateLimit(allowLogin, `user:${username.trim().toLowerCase()}`);
+
+        await refreshVenueConfig();
+        const user = await checkLogin(username, pin);
+        if (!user) {
+            console.log(`Failed sign-in for '${username}' from ${address}`);
+            throw new HttpError(401, 'Incorrect username or PIN');
+        }
+        sendJson(res, 200, { ...user, token: issueSessionToken(user.username) });
+        return;
+    }
+
+    const userMatch = /^\/users\/([^/]+)$/.exec(url.pathname);
+    if (req.method === 'GET' && userMatch) {
+        const authorization = req.headers.authorization || '';
+        const signedIn = authorization.startsWith('Bearer ') ? tokenUsername(authorization.slice('Bearer '.length)) : null;
+        if (!signedIn) {
+            throw new HttpError(401, 'Sign in again');
+        }
+        if (signedIn !== decodeURIComponent(userMatch[1]).trim().toLowerCase()) {
+            throw new HttpError(403, 'Only your own account can be looked up');
+        }
+        const user = await findUser(signedIn);
+        if (!user) {
+            throw new HttpError(404, 'No such user');
+        }
+        sendJson(res, 200, user);
+        return;
+    }
+
+    throw new HttpError(404, 'Not found');
+};
+
+const server = createServer((req, res) => {
+    const startedAt = Date.now();
+    handleRequest(req, res)
+        .catch(error => {
+            if (error instanceof HttpError) {
+                const headers: Record<string, string> = error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : {};
+                sendJson(res, error.status, { error: error.message }, headers);
+                return;
+            }
+            console.error(`${req.method} ${req.url} failed:`, error);
+            sendJson(res, 502, { error: 'Could not read the spreadsheets' });
+        })
+        .finally(() => {
+            console.log(`${req.method} ${req.url} -> ${res.statusCode} (${Date.now() - startedAt}ms)`);
+        });
+});
+
+server.listen(PORT, () => {
+    console.log(`Availability proxy listening on port ${PORT} (cache ${CACHE_TTL_MS / 1000}s)`);
+});
@@ -0,0 +1,27 @@
+// Fixed-window request counting per key (client address, username, ...)
+export const createRateLimiter = (limit: number, windowMs: number) => {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+    let lastSweepAt = Date.now();
+
+    // Seconds the caller must wait, or 0 if the request may go ahead
+    return (key: string, now: number = Date.now()): number => {
+        // Drop finished windows now and then so idle clients don't pile up
+        if (now - lastSweepAt > windowMs) {
+            windows.forEach((window, windowKey) => {
+                if (now - window.startedAt >= windowMs) windows.delete(windowKey);
+            });
+            lastSweepAt = now;
+        }
+
+        const window = windows.get(key);
+        if (!window || now - window.startedAt >= windowMs) {
+            windows.set(key, { startedAt: now, count: 1 });
+            return 0;
+        }
+        if (window.count >= limit) {
+            return Math.ceil((window.startedAt + windowMs - now) / 1000);
+        }
+        window.count++;
+        return 0;
+    };
+};
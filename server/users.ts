@@ -0,0 +1,68 @@
+// Sign-in backed by the USERS tab, implementing the HTTP contract in src/services/auth.ts.
+// PINs are checked here, so the app never needs to read the tab (or hold the key that can).
+// A correct PIN gets a signed token, and only that token can look its own account up again.
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { UserAccount } from '../src/types';
+import { fetchSheetUsers, normalizeUsername } from '../src/services/userAccounts';
+
+const USERS_CACHE_TTL_MS = 60 * 1000;
+// Tokens last as long as the app's sessions. Without a fixed secret they stop working when the proxy restarts,
+// and the app then keeps its session unchecked until the user signs in again.
+const TOKEN_TTL_MS = (Number(process.env.EXPO_PUBLIC_SESSION_HOURS) || 12) * 60 * 60 * 1000;
+const TOKEN_SECRET = process.env.PROXY_SESSION_SECRET || randomBytes(32).toString('hex');
+
+let cachedUsers: { users: UserAccount[]; fetchedAt: number } | null = null;
+
+const getUsers = async (): Promise<UserAccount[]> => {
+    if (!cachedUsers || Date.now() - cachedUsers.fetchedAt > USERS_CACHE_TTL_MS) {
+        cachedUsers = { users: await fetchSheetUsers(), fetchedAt: Date.now() };
+    }
+    return cachedUsers.users;
+};
+
+// Same scheme as hash_pin.ts: sha256 of "<salt>:<pin>"
+const verifyPin = (pin: string, pinHash: string): boolean => {
+    const [scheme, salt, expected] = pinHash.split(':');
+    if (scheme !== 'sha256' || !salt || !expected) {
+        return false;
+    }
+    return createHash('sha256').update(`${salt}:${pin}`).digest('hex') === expected.toLowerCase();
+};
+
+// The account for a correct username and PIN, or null. Disabled accounts are refused like a wrong PIN.
+export const checkLogin = async (username: string, pin: string): Promise<Pick<UserAccount, 'username' | 'name' | 'role'> | null> => {
+    const normalized = normalizeUsername(username);
+    const user = (await getUsers()).find(candidate => candidate.username === normalized);
+    if (!user || !user.active || !user.pinHash || !verifyPin(pin, user.pinHash)) {
+        return null;
+    }
+    return { username: user.username, name: user.name, role: user.role };
+};
+
+export const findUser = async (username: string): Promise<Omit<UserAccount, 'pinHash'> | null> => {
+    const normalized = normalizeUsername(username);
+    const user = (await getUsers()).find(candidate => candidate.username === normalized);
+    return user ? { username: user.username, name: user.name, role: user.role, active: user.active } : null;
+};
+
+const sign = (payload: string) => createHmac('sha256', TOKEN_SECRET).update(payload).digest('base64url');
+
+// "<username>.<expires>.<signature>", with the username base64url-encoded
+export const issueSessionToken = (username: string, now: number = Date.now()): string => {
+    const payload = `${Buffer.from(username).toString('base64url')}.${now + TOKEN_TTL_MS}`;
+    return `${payload}.${sign(payload)}`;
+};
+
+// The username a token was issued to, or null if it is forged, malformed or expired
+export const tokenUsername = (token: string, now: number = Date.now()): string | null => {
+    const [encoded, expires, signature] = token.split('.');
+    if (!encoded || !expires || !signature) {
+        return null;
+    }
+    const expected = Buffer.from(sign(`${encoded}.${expires}`));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected) || Number(expires) <= now) {
+        return null;
+    }
+    return Buffer.from(encoded, 'base64url').toString();
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { DateAnnotation } from '../types';
+import { annotationsFor } from '../services/dateAnnotations';
+import { annotationColors } from '../theme';
+
+interface DateAnnotationTagsProps {
+  dateKey: string; // 'YYYY-MM-DD'
+  annotations: DateAnnotation[]; // The date list in use, from loadDateAnnotations
+  style?: StyleProp<ViewStyle>;
+}
+
+// The day's muhurat, festivals and holidays as small colored tags; nothing for an ordinary day
+const DateAnnotationTags = ({ dateKey, annotations, style }: DateAnnotationTagsProps) => {
+  const dayAnnotations = annotationsFor(dateKey, annotations);
+  if (dayAnnotations.length === 0) return null;
+
+  return (
+    <View style={[styles.row, style]}>
+      {dayAnnotations.map((entry, index) => (
+        <View key={`${entry.kind}-${index}`} style={[styles.tag, { borderColor: annotationColors[entry.kind] }]}>
+          <Text style={[styles.tagText, { color: annotationColors[entry.kind] }]} numberOfLines={1}>{entry.name}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tag: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 6,
+    marginTop: 4,
+  },
+  tagText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default DateAnnotationTags;
@@ -0,0 +1,347 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  FlatList,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { DateAnnotation, DateSearchCriteria, DateSearchMatch, DateSearchResult } from '../types';
+import { getLocationOptions } from '../services/api';
+import { formatDate } from '../services/dates';
+import { findAvailableDates } from '../services/search';
+import { statusColors } from '../theme';
+import DateAnnotationTags from './DateAnnotationTags';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SLOT_OPTIONS: Array<{ value: DateSearchCriteria['timeSlot']; label: string }> = [
+  { value: 'Either', label: 'Any slot' },
+  { value: 'Morning', label: 'Morning' },
+  { value: 'Evening', label: 'Evening' },
+  { value: 'FullDay', label: 'Full day' },
+];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const addMonths = (date: Date, months: number) =>
+  new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+
+const formatResultDate = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return `${WEEKDAY_LABELS[date.getDay()]}, ${dateKey}`;
+};
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip = ({ label, selected, onPress }: ChipProps) => (
+  <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+interface DateSearchPanelProps {
+  onSelectDate: (date: Date) => void; // Open the per-hall list for a result
+  dateAnnotations: DateAnnotation[];
+}
+
+const DateSearchPanel = ({ onSelectDate, dateAnnotations }: DateSearchPanelProps) => {
+  const locationOptions = useMemo(() => getLocationOptions(), []);
+
+  const [startDate, setStartDate] = useState(new Date());
+  const [endDate, setEndDate] = useState(addMonths(new Date(), 3));
+  const [activePicker, setActivePicker] = useState<'start' | 'end' | null>(null);
+  const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const [selectedHalls, setSelectedHalls] = useState<string[]>([]);
+  const [timeSlot, setTimeSlot] = useState<DateSearchCriteria['timeSlot']>('Either');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [muhuratOnly, setMuhuratOnly] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [result, setResult] = useState<DateSearchResult | null>(null);
+  const [searchError, setSearchError] = useState('');
+
+  // Only offer halls belonging to the chosen locations (or all when none chosen)
+  const hallOptions = locationOptions
+    .filter(entry => selectedLocations.length === 0 || selectedLocations.includes(entry.id))
+    .flatMap(entry => entry.halls);
+
+  const handleSearch = async () => {
+    setSearching(true);
+    setSearchError('');
+    setResult(null);
+    try {
+      const searchResult = await findAvailableDates({
+        startDate,
+        endDate,
+        locationIds: selectedLocations,
+        hallIds: selectedHalls.filter(hallId => hallOptions.some(hall => hall.id === hallId)),
+        timeSlot,
+        weekdays,
+        muhuratOnly,
+      });
+      setResult(searchResult);
+    } catch (error) {
+      console.error('Date search failed:', error);
+      setSearchError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handlePickerChange = (event: any, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setActivePicker(null);
+    }
+    if (!selected) return;
+    if (activePicker === 'start') setStartDate(selected);
+    if (activePicker === 'end') setEndDate(selected);
+  };
+
+  const renderDateField = (label: string, value: Date, picker: 'start' | 'end') => (
+    <View style={styles.dateField}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TouchableOpacity onPress={() => setActivePicker(activePicker === picker ? null : picker)}>
+        <Text style={styles.dateValue}>{formatDate(value)}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMatch = ({ item }: { item: DateSearchMatch }) => {
+    const [year, month, day] = item.date.split('-').map(Number);
+    return (
+      <TouchableOpacity style={styles.resultItem} onPress={() => onSelectDate(new Date(year, month - 1, day))}>
+        <Text style={styles.resultDate}>{formatResultDate(item.date)}</Text>
+        <DateAnnotationTags dateKey={item.date} annotations={dateAnnotations} />
+        <Text style={styles.resultHalls}>
+          {item.freeSlots.map(slot => `${slot.hallName} (${slot.timeSlot})`).join(', ')}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFilters = () => (
+    <View>
+      <View style={styles.dateRow}>
+        {renderDateField('From', startDate, 'start')}
+        {renderDateField('To', endDate, 'end')}
+      </View>
+      {activePicker && (
+        <DateTimePicker
+          value={activePicker === 'start' ? startDate : endDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          onChange={handlePickerChange}
+          themeVariant="dark"
+        />
+      )}
+
+      <Text style={styles.fieldLabel}>Locations</Text>
+      <View style={styles.chipRow}>
+        {locationOptions.map(entry => (
+          <Chip
+            key={entry.id}
+            label={entry.name}
+            selected={selectedLocations.includes(entry.id)}
+            onPress={() => setSelectedLocations(toggle(selectedLocations, entry.id))}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.fieldLabel}>Halls</Text>
+      <View style={styles.chipRow}>
+        {hallOptions.map(hall => (
+          <Chip
+            key={hall.id}
+            label={hall.name}
+            selected={selectedHalls.includes(hall.id)}
+            onPress={() => setSelectedHalls(toggle(selectedHalls, hall.id))}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.fieldLabel}>Slot</Text>
+      <View style={styles.chipRow}>
+        {SLOT_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={timeSlot === option.value}
+            onPress={() => setTimeSlot(option.value)}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.fieldLabel}>Weekdays</Text>
+      <View style={styles.chipRow}>
+        {WEEKDAY_LABELS.map((label, weekday) => (
+          <Chip
+            key={label}
+            label={label}
+            selected={weekdays.includes(weekday)}
+            onPress={() => setWeekdays(toggle(weekdays, weekday))}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.fieldLabel}>Dates</Text>
+      <View style={styles.chipRow}>
+        <Chip label="All dates" selected={!muhuratOnly} onPress={() => setMuhuratOnly(false)} />
+        <Chip label="Muhurat dates only" selected={muhuratOnly} onPress={() => setMuhuratOnly(true)} />
+      </View>
+
+      <TouchableOpacity style={styles.searchButton} onPress={handleSearch} disabled={searching}>
+        {searching ? (
+          <ActivityIndicator size="small" color="#000000" />
+        ) : (
+          <Text style={styles.searchButtonText}>Find Free Dates</Text>
+        )}
+      </TouchableOpacity>
+
+      {searchError ? <Text style={styles.errorText}>{searchError}</Text> : null}
+
+      {result && result.missingMonths.length > 0 && (
+        <Text style={styles.warningText}>
+          Not yet in the sheet: {result.missingMonths.join(', ')}. These months were not searched.
+        </Text>
+      )}
+      {result?.muhuratListCoverage && (
+        <Text style={styles.warningText}>
+          Muhurat dates are only listed from {result.muhuratListCoverage.from} to {result.muhuratListCoverage.to}. Dates outside that were left out.
+        </Text>
+      )}
+      {result && result.incompleteMonths.length > 0 && (
+        <Text style={styles.warningText}>
+          Could not fully load: {result.incompleteMonths.join(', ')}. Some free dates may be missing.
+        </Text>
+      )}
+      {result && (
+        <Text style={styles.resultCount}>
+          {result.matches.length === 0 ? 'No free dates match these filters.' : `${result.matches.length} matching date(s)`}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <FlatList
+      data={result?.matches || []}
+      renderItem={renderMatch}
+      keyExtractor={item => item.date}
+      ListHeaderComponent={renderFilters()}
+      style={styles.list}
+      contentContainerStyle={styles.listContent}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    marginTop: 12,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dateField: {
+    flex: 1,
+  },
+  fieldLabel: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  dateValue: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: 'bold',
+    paddingVertical: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    backgroundColor: '#1C1C1E',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#C6A556',
+    borderColor: '#C6A556',
+  },
+  chipText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  searchButton: {
+    marginTop: 16,
+    height: 48,
+    backgroundColor: '#D4AF37',
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  searchButtonText: {
+    fontSize: 17,
+    color: '#000000',
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#FF7B7B',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  warningText: {
+    color: statusColors.Enquiry.background,
+    marginTop: 12,
+    fontSize: 14,
+  },
+  resultCount: {
+    color: '#B0B0B0',
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  resultItem: {
+    backgroundColor: '#1C1C1E',
+    padding: 14,
+    marginVertical: 5,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: statusColors.Available.border,
+  },
+  resultDate: {
+    color: '#E8E8E8',
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  resultHalls: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 4,
+  },
+});
+
+export default DateSearchPanel;
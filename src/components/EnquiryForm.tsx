@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Enquiry, EnquirySlot, TimeSlot } from '../types';
+import { formatDate } from '../services/dates';
+import { getVenueConfig } from '../services/venueConfig';
+import { locationSlots } from '../services/slots';
+import { ENQUIRY_EVENT_TYPES, createEnquiry } from '../services/enquiries';
+
+interface EnquiryFormProps {
+  visible: boolean;
+  initialSlots: EnquirySlot[]; // Prefilled from the slot that was tapped; may be empty
+  initialDate: Date;           // Date the slot picker starts on
+  createdBy: string;           // Username of the signed-in user
+  onClose: () => void;
+  onSaved: (enquiry: Enquiry) => void;
+}
+
+// Log a customer enquiry: who is asking, for what event, and which hall slots on which dates
+const EnquiryForm = ({ visible, initialSlots, initialDate, createdBy, onClose, onSaved }: EnquiryFormProps) => {
+  const [customerName, setCustomerName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [eventType, setEventType] = useState('');
+  const [guestCount, setGuestCount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [slots, setSlots] = useState<EnquirySlot[]>([]);
+  const [pickDate, setPickDate] = useState(initialDate);
+  const [showPicker, setShowPicker] = useState(false);
+  const [pickHallId, setPickHallId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Start a fresh form each time it opens
+  useEffect(() => {
+    if (!visible) return;
+    setCustomerName('');
+    setPhone('');
+    setEventType('');
+    setGuestCount('');
+    setNotes('');
+    setSlots(initialSlots);
+    setPickDate(initialDate);
+    setPickHallId(null);
+    setError('');
+  }, [visible]);
+
+  const halls = useMemo(() => getVenueConfig().locations.flatMap(location =>
+    location.halls.map(hall => ({ location, hall }))
+  ), [visible]);
+  const picked = halls.find(entry => entry.hall.id === pickHallId);
+
+  const addSlot = (timeSlot: TimeSlot) => {
+    if (!picked) return;
+    const slot: EnquirySlot = {
+      locationId: picked.location.id,
+      hallId: picked.hall.id,
+      hallName: picked.hall.name,
+      date: formatDate(pickDate),
+      timeSlot,
+    };
+    const exists = slots.some(other => other.hallId === slot.hallId && other.date === slot.date && other.timeSlot === slot.timeSlot);
+    if (!exists) setSlots([...slots, slot]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const enquiry = await createEnquiry({
+        customerName,
+        phone,
+        eventType: eventType || undefined,
+        guestCount: guestCount.trim() ? Number(guestCount) : undefined,
+        slots,
+        notes,
+      }, createdBy);
+      onSaved(enquiry);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Log enquiry</Text>
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <TextInput
+              style={styles.input}
+              value={customerName}
+              onChangeText={setCustomerName}
+              placeholder="Customer name"
+              placeholderTextColor="#666666"
+            />
+            <TextInput
+              style={styles.input}
+              value={phone}
+              onChangeText={setPhone}
+              placeholder="Phone"
+              placeholderTextColor="#666666"
+              keyboardType="phone-pad"
+            />
+
+            <Text style={styles.fieldLabel}>Event</Text>
+            <View style={styles.chipRow}>
+              {ENQUIRY_EVENT_TYPES.map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, eventType === type && styles.chipSelected]}
+                  onPress={() => setEventType(eventType === type ? '' : type)}
+                >
+                  <Text style={[styles.chipText, eventType === type && styles.chipTextSelected]}>{type}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.input}
+              value={guestCount}
+              onChangeText={setGuestCount}
+              placeholder="Guests (approx.)"
+              placeholderTextColor="#666666"
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.fieldLabel}>Requested slots</Text>
+            {slots.length === 0 && <Text style={styles.hintText}>Add the halls and slots the customer asked about.</Text>}
+            {slots.map((slot, index) => (
+              <View key={`${slot.hallId}-${slot.date}-${slot.timeSlot}`} style={styles.slotRow}>
+                <Text style={styles.slotText}>{slot.date} · {slot.hallName} · {slot.timeSlot}</Text>
+                <TouchableOpacity onPress={() => setSlots(slots.filter((_, other) => other !== index))}>
+                  <Text style={styles.removeText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={styles.pickRow}>
+              <Text style={styles.pickLabel}>Add for</Text>
+              <TouchableOpacity onPress={() => setShowPicker(!showPicker)}>
+                <Text style={styles.pickDate}>{formatDate(pickDate)}</Text>
+              </TouchableOpacity>
+            </View>
+            {showPicker && (
+              <DateTimePicker
+                value={pickDate}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                minimumDate={new Date()}
+                onChange={(_event: unknown, selected?: Date) => {
+                  if (Platform.OS === 'android') setShowPicker(false);
+                  if (selected) setPickDate(selected);
+                }}
+                themeVariant="dark"
+              />
+            )}
+            <View style={styles.chipRow}>
+              {halls.map(({ hall }) => (
+                <TouchableOpacity
+                  key={hall.id}
+                  style={[styles.chip, pickHallId === hall.id && styles.chipSelected]}
+                  onPress={() => setPickHallId(pickHallId === hall.id ? null : hall.id)}
+                >
+                  <Text style={[styles.chipText, pickHallId === hall.id && styles.chipTextSelected]}>{hall.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {picked && (
+              <View style={styles.chipRow}>
+                {locationSlots(picked.location).map(timeSlot => (
+                  <TouchableOpacity key={timeSlot} style={styles.addChip} onPress={() => addSlot(timeSlot)}>
+                    <Text style={styles.addChipText}>+ {timeSlot}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Notes, e.g. wants veg menu quote"
+              placeholderTextColor="#666666"
+              multiline
+            />
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+          </ScrollView>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+              {saving ? <ActivityIndicator size="small" color="#000000" /> : <Text style={styles.saveText}>Save</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1C1C1E',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 34,
+    maxHeight: '90%',
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  body: {
+    marginTop: 10,
+  },
+  input: {
+    backgroundColor: '#2C2C2E',
+    color: '#FFFFFF',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginTop: 10,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  fieldLabel: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  hintText: {
+    color: '#777777',
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#C6A556',
+    borderColor: '#C6A556',
+  },
+  chipText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  addChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C6A556',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  addChipText: {
+    color: '#C6A556',
+    fontSize: 14,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2C2C2E',
+  },
+  slotText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+    flex: 1,
+  },
+  removeText: {
+    color: '#FF7B7B',
+    fontSize: 13,
+  },
+  pickRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  pickLabel: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginRight: 8,
+  },
+  pickDate: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#FF7B7B',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 6,
+  },
+  cancelText: {
+    color: '#E8E8E8',
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    backgroundColor: '#D4AF37',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 6,
+  },
+  saveText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default EnquiryForm;
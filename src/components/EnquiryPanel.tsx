@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SectionList,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { Enquiry } from '../types';
+import {
+  EnquiryConversion,
+  convertEnquiry,
+  dueFollowUps,
+  isEnquiryActive,
+  markEnquiryLost,
+  scheduleFollowUp,
+} from '../services/enquiries';
+import { statusColors } from '../theme';
+
+interface EnquiryPanelProps {
+  enquiries: Enquiry[];
+  canBookInSheet: boolean; // Converting can write the bookings to the sheet
+  username: string; // Recorded in the audit tab for slots booked from here
+  onNewEnquiry: () => void;
+  onSelectDate: (date: Date) => void;
+}
+
+const STATUS_LABELS: Record<Enquiry['status'], string> = {
+  open: 'Open',
+  converted: 'Booked',
+  lost: 'Lost',
+  expired: 'Expired',
+};
+
+const formatWhen = (time: number) =>
+  new Date(time).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Tomorrow at 10:00, for "call back tomorrow"
+const tomorrowMorning = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 10, 0).getTime();
+};
+
+// The follow-up list first, then the other open enquiries, then recently closed ones
+const EnquiryPanel = ({ enquiries, username, canBookInSheet, onNewEnquiry, onSelectDate }: EnquiryPanelProps) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const due = dueFollowUps(enquiries);
+  const open = enquiries.filter(enquiry => isEnquiryActive(enquiry) && !due.includes(enquiry));
+  const closed = enquiries.filter(enquiry => !isEnquiryActive(enquiry));
+  const sections = [
+    { title: 'Follow up today', data: due },
+    { title: 'Open', data: open },
+    { title: 'Closed', data: closed },
+  ].filter(section => section.data.length > 0);
+
+  const run = async (enquiry: Enquiry, action: () => Promise<unknown>) => {
+    setBusyId(enquiry.id);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Updating enquiry ${enquiry.id} failed:`, error);
+      Alert.alert('Could not update', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reportConversion = ({ booked, notBooked }: EnquiryConversion) => {
+    if (notBooked.length === 0) return;
+    const lines = notBooked.map(({ slot, reason }) => `${slot.date} ${slot.hallName} ${slot.timeSlot}: ${reason}`);
+    Alert.alert(
+      booked.length > 0 ? 'Partly booked' : 'Nothing booked',
+      `${booked.length} of ${booked.length + notBooked.length} slot(s) were booked.\n\n${lines.join('\n')}`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const handleConvert = (enquiry: Enquiry) => {
+    const convert = (writeToSheet: boolean) =>
+      run(enquiry, async () => reportConversion(await convertEnquiry(enquiry.id, username, { writeToSheet })));
+    Alert.alert(
+      'Convert to booking',
+      `Mark ${enquiry.customerName}'s enquiry as booked?`,
+      canBookInSheet
+        ? [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Close only', onPress: () => convert(false) },
+            { text: 'Book in sheet', onPress: () => convert(true) },
+          ]
+        : [{ text: 'Cancel', style: 'cancel' }, { text: 'Mark booked', onPress: () => convert(false) }]
+    );
+  };
+
+  const handleLost = (enquiry: Enquiry) => {
+    Alert.alert('Mark as lost', `Free the slots held for ${enquiry.customerName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Mark lost', style: 'destructive', onPress: () => run(enquiry, () => markEnquiryLost(enquiry.id)) },
+    ]);
+  };
+
+  const openDate = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    onSelectDate(new Date(year, month - 1, day));
+  };
+
+  const renderEnquiry = ({ item }: { item: Enquiry }) => {
+    const active = isEnquiryActive(item);
+    const details = [item.eventType, item.guestCount ? `${item.guestCount} guests` : null].filter(Boolean).join(' · ');
+    return (
+      <View style={[styles.item, !active && styles.itemClosed]}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.customer} numberOfLines={1}>{item.customerName}</Text>
+          <Text style={styles.status}>{STATUS_LABELS[item.status]}</Text>
+        </View>
+        <TouchableOpacity onPress={() => Linking.openURL(`tel:${item.phone.replace(/[^\d+]/g, '')}`)}>
+          <Text style={styles.phone}>{item.phone}</Text>
+        </TouchableOpacity>
+        {details ? <Text style={styles.details}>{details}</Text> : null}
+        {item.slots.map(slot => (
+          <TouchableOpacity key={`${slot.hallId}-${slot.date}-${slot.timeSlot}`} onPress={() => openDate(slot.date)}>
+            <Text style={styles.slot}>{slot.date} · {slot.hallName} · {slot.timeSlot}</Text>
+          </TouchableOpacity>
+        ))}
+        {item.notes ? <Text style={styles.details}>{item.notes}</Text> : null}
+        <Text style={styles.meta}>
+          {active && item.followUpAt !== null ? `Follow up ${formatWhen(item.followUpAt)} · ` : ''}
+          {active ? `Expires ${formatWhen(item.expiresAt)}` : `Updated ${formatWhen(item.updatedAt)}`} · by {item.createdBy}
+        </Text>
+
+        {active && (
+          busyId === item.id ? (
+            <ActivityIndicator size="small" color="#C6A556" style={styles.busy} />
+          ) : (
+            <View style={styles.actionRow}>
+              <TouchableOpacity style={styles.action} onPress={() => handleConvert(item)}>
+                <Text style={styles.actionText}>Booked</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.action} onPress={() => run(item, () => scheduleFollowUp(item.id, tomorrowMorning()))}>
+                <Text style={styles.actionText}>Call tomorrow</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.action} onPress={() => handleLost(item)}>
+                <Text style={[styles.actionText, styles.lostText]}>Lost</Text>
+              </TouchableOpacity>
+            </View>
+          )
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SectionList
+      sections={sections}
+      renderItem={renderEnquiry}
+      renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+      keyExtractor={item => item.id}
+      ListHeaderComponent={(
+        <TouchableOpacity style={styles.newButton} onPress={onNewEnquiry}>
+          <Text style={styles.newButtonText}>Log enquiry</Text>
+        </TouchableOpacity>
+      )}
+      ListEmptyComponent={<Text style={styles.emptyText}>No enquiries yet.</Text>}
+      style={styles.list}
+      contentContainerStyle={styles.listContent}
+      stickySectionHeadersEnabled={false}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    marginTop: 12,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  newButton: {
+    height: 48,
+    backgroundColor: '#D4AF37',
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  newButtonText: {
+    fontSize: 17,
+    color: '#000000',
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    color: '#B0B0B0',
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  item: {
+    backgroundColor: '#1C1C1E',
+    padding: 14,
+    marginVertical: 5,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: statusColors.Enquiry.border,
+  },
+  itemClosed: {
+    borderLeftColor: '#3A3A3C',
+    opacity: 0.7,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  customer: {
+    color: '#E8E8E8',
+    fontSize: 17,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  status: {
+    color: statusColors.Enquiry.background,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  phone: {
+    color: '#0A84FF',
+    fontSize: 15,
+    marginTop: 4,
+  },
+  details: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  slot: {
+    color: '#E8E8E8',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  meta: {
+    color: '#777777',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  busy: {
+    marginTop: 10,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  action: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    marginRight: 8,
+  },
+  actionText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  lostText: {
+    color: '#FF7B7B',
+  },
+});
+
+export default EnquiryPanel;
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { HallData } from '../types';
+import { formatTimeLeft, holdPresets, placeHold } from '../services/holds';
+
+interface HoldFormProps {
+  slot: HallData | null; // Slot to hold; the modal is hidden when null
+  heldBy: string;        // Username of the signed-in user
+  onClose: () => void;
+  onPlaced: () => void;
+}
+
+const formatUntil = (time: number) =>
+  new Date(time).toLocaleString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Hold a free slot for a customer for a while, e.g. till Monday evening
+const HoldForm = ({ slot, heldBy, onClose, onPlaced }: HoldFormProps) => {
+  const [customerName, setCustomerName] = useState('');
+  const [note, setNote] = useState('');
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const presets = useMemo(() => (slot ? holdPresets(slot.date) : []), [slot]);
+
+  useEffect(() => {
+    if (!slot) return;
+    setCustomerName('');
+    setNote('');
+    setExpiresAt(presets[0]?.expiresAt ?? null);
+    setError('');
+  }, [slot]);
+
+  const handlePlace = async () => {
+    if (!slot || expiresAt === null) return;
+    setSaving(true);
+    setError('');
+    try {
+      await placeHold(slot, { customerName, note, expiresAt }, heldBy);
+      onPlaced();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={slot !== null} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          {slot && (
+            <>
+              <Text style={styles.title}>Hold {slot.hallName} – {slot.timeSlot}</Text>
+              <Text style={styles.subtitle}>{slot.location} · {slot.date}</Text>
+
+              <TextInput
+                style={styles.input}
+                value={customerName}
+                onChangeText={setCustomerName}
+                placeholder="Customer name"
+                placeholderTextColor="#666666"
+              />
+              <TextInput
+                style={styles.input}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Note, e.g. will confirm after family meeting"
+                placeholderTextColor="#666666"
+              />
+
+              <Text style={styles.fieldLabel}>Hold for</Text>
+              {presets.length === 0 ? (
+                <Text style={styles.errorText}>This slot is too close to hold.</Text>
+              ) : (
+                <View style={styles.chipRow}>
+                  {presets.map(preset => (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={[styles.chip, expiresAt === preset.expiresAt && styles.chipSelected]}
+                      onPress={() => setExpiresAt(preset.expiresAt)}
+                    >
+                      <Text style={[styles.chipText, expiresAt === preset.expiresAt && styles.chipTextSelected]}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {expiresAt !== null && (
+                <Text style={styles.untilText}>
+                  Released automatically {formatUntil(expiresAt)} ({formatTimeLeft(expiresAt)} from now)
+                </Text>
+              )}
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, expiresAt === null && styles.saveButtonDisabled]}
+                  onPress={handlePlace}
+                  disabled={saving || expiresAt === null}
+                >
+                  {saving ? <ActivityIndicator size="small" color="#000000" /> : <Text style={styles.saveText}>Hold</Text>}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1C1C1E',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 34,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  input: {
+    backgroundColor: '#2C2C2E',
+    color: '#FFFFFF',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginTop: 10,
+  },
+  fieldLabel: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#C6A556',
+    borderColor: '#C6A556',
+  },
+  chipText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  untilText: {
+    color: '#C6A556',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  errorText: {
+    color: '#FF7B7B',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 18,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 6,
+  },
+  cancelText: {
+    color: '#E8E8E8',
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    backgroundColor: '#D4AF37',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 6,
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default HoldForm;
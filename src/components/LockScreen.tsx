@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Image } from 'react-native';
+import { Session } from '../types';
+
+interface LockScreenProps {
+  session: Session;
+  lockoutUntil: number | null;
+  biometricsAvailable: boolean;
+  onUnlockWithPin: (pin: string) => Promise<void>; // Rejects with a message to show
+  onUnlockWithBiometrics: () => Promise<void>;
+  onSignOut: () => void;
+}
+
+// Shown over a signed-in session after inactivity or time in the background
+const LockScreen = ({ session, lockoutUntil, biometricsAvailable, onUnlockWithPin, onUnlockWithBiometrics, onSignOut }: LockScreenProps) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const lockedOutFor = lockoutUntil ? Math.max(0, Math.ceil((lockoutUntil - now) / 1000)) : 0;
+
+  // Count the lockout down
+  useEffect(() => {
+    if (!lockoutUntil || lockoutUntil <= Date.now()) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockoutUntil]);
+
+  // Offer biometrics straight away when the device supports them
+  useEffect(() => {
+    if (biometricsAvailable) {
+      onUnlockWithBiometrics().catch(e => console.warn('Biometric unlock failed:', e));
+    }
+  }, [biometricsAvailable]);
+
+  const handleUnlock = async () => {
+    setChecking(true);
+    setError('');
+    try {
+      await onUnlockWithPin(pin);
+    } catch (e: any) {
+      setError(e.message || 'Could not unlock.');
+    } finally {
+      setPin('');
+      setChecking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Image source={require('../../assets/icon.png')} style={styles.logo} resizeMode="contain" />
+      <Text style={styles.title}>Locked</Text>
+      <Text style={styles.subtitle}>{session.name}, enter your PIN to continue</Text>
+
+      {lockedOutFor > 0 ? (
+        <Text style={styles.errorText}>Too many wrong PINs. Try again in {lockedOutFor}s.</Text>
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : null}
+
+      <TextInput
+        style={styles.pinInput}
+        placeholder="PIN"
+        placeholderTextColor="#757575"
+        secureTextEntry
+        keyboardType="number-pad"
+        value={pin}
+        onChangeText={setPin}
+        onSubmitEditing={handleUnlock}
+        editable={lockedOutFor === 0 && !checking}
+      />
+      <TouchableOpacity
+        style={[styles.unlockButton, (lockedOutFor > 0 || !pin) && styles.buttonDisabled]}
+        onPress={handleUnlock}
+        disabled={lockedOutFor > 0 || !pin || checking}
+      >
+        {checking ? <ActivityIndicator size="small" color="#000000" /> : <Text style={styles.unlockText}>Unlock</Text>}
+      </TouchableOpacity>
+
+      {biometricsAvailable && lockedOutFor === 0 && (
+        <TouchableOpacity style={styles.linkButton} onPress={() => onUnlockWithBiometrics()}>
+          <Text style={styles.linkText}>Use fingerprint / face</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.linkButton} onPress={onSignOut}>
+        <Text style={styles.signOutText}>Not {session.name}? Sign out</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 35,
+    backgroundColor: '#000000',
+  },
+  logo: {
+    width: 70,
+    height: 70,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '600',
+    color: '#C6A556',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#A0A0A0',
+    marginTop: 8,
+    marginBottom: 30,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#FF7B7B',
+    marginBottom: 18,
+    textAlign: 'center',
+    fontSize: 15,
+  },
+  pinInput: {
+    width: '100%',
+    backgroundColor: '#1C1C1E',
+    color: '#FFFFFF',
+    paddingHorizontal: 22,
+    paddingVertical: 18,
+    borderRadius: 12,
+    marginBottom: 25,
+    fontSize: 18,
+    borderColor: '#C6A556',
+    borderWidth: 1.5,
+    textAlign: 'center',
+  },
+  unlockButton: {
+    backgroundColor: '#D4AF37',
+    paddingVertical: 18,
+    borderRadius: 12,
+    width: '100%',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  unlockText: {
+    color: '#000000',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  linkButton: {
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#C6A556',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  signOutText: {
+    color: '#A0A0A0',
+    fontSize: 14,
+  },
+});
+
+export default LockScreen;
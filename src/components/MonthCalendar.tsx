@@ -0,0 +1,341 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { DateAnnotation, Enquiry, HallData, SlotHold } from '../types';
+import { formatDate } from '../services/dates';
+import { useMonthAvailability } from '../hooks/useMonthAvailability';
+import { annotationsFor } from '../services/dateAnnotations';
+import { applyEnquiries } from '../services/enquiries';
+import { applyHolds } from '../services/holds';
+import { annotationColors, statusColors } from '../theme';
+import SyncStatus from './SyncStatus';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_LABELS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+interface DaySummary {
+  available: number;
+  booked: number;
+  enquiry: number;
+  maintenance: number;
+  unknown: number;
+}
+
+// Count hall/slot combinations per status for one day
+const summarizeDay = (halls: HallData[]): DaySummary => {
+  return halls.reduce<DaySummary>((summary, hall) => {
+    if (hall.status === 'Available') summary.available++;
+    else if (hall.status === 'Booked') summary.booked++;
+    else if (hall.status === 'Maintenance') summary.maintenance++;
+    else if (hall.status === 'Unknown') summary.unknown++;
+    else summary.enquiry++;
+    return summary;
+  }, { available: 0, booked: 0, enquiry: 0, maintenance: 0, unknown: 0 });
+};
+
+interface MonthCalendarProps {
+  month: Date; // Any date inside the month to show
+  selectedDate: Date;
+  enquiries: Enquiry[]; // Open enquiries and holds count as Enquiry, as on the hall cards
+  holds: SlotHold[];
+  dateAnnotations: DateAnnotation[]; // Muhurats, festivals and holidays to dot the days with
+  onChangeMonth: (month: Date) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+const MonthCalendar = ({ month, selectedDate, enquiries, holds, dateAnnotations, onChangeMonth, onSelectDay }: MonthCalendarProps) => {
+  const { data, loading, refreshing, error, syncedAt, stale, reload } = useMonthAvailability(month);
+
+  const year = month.getFullYear();
+  const monthIndex = month.getMonth();
+  const selectedKey = formatDate(selectedDate);
+  const todayKey = formatDate(new Date());
+
+  // Leading blanks for the weekday of the 1st, then one cell per day
+  const cells = useMemo(() => {
+    const firstWeekday = new Date(year, monthIndex, 1).getDay();
+    const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+    const result: Array<Date | null> = Array.from({ length: firstWeekday }, () => null);
+    for (let day = 1; day <= daysInMonth; day++) {
+      result.push(new Date(year, monthIndex, day));
+    }
+    return result;
+  }, [year, monthIndex]);
+
+  // Sheet entries the status vocabulary doesn't know yet, so the dictionary can be extended
+  const showUnrecognizedTokens = () => {
+    if (!data) return;
+    const lines = data.unrecognizedTokens.map(entry =>
+      `"${entry.token}" ×${entry.count} (${entry.locationId}; e.g. ${entry.examples[0]})`
+    );
+    Alert.alert(
+      'Unrecognized sheet entries',
+      `These values were read as bookings because no status rule matches them:\n\n${lines.join('\n')}`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const failedCount = data?.failedHallIds.length || 0;
+  const problemText = error
+    || (data?.sheetMissing ? `${MONTH_LABELS[monthIndex]} ${year} has not been added to the sheet yet.`
+      : stale ? `${failedCount} hall(s) could not be refreshed and show the offline copy.`
+      : `${failedCount} hall(s) could not be read and are shown as Unknown.`);
+
+  const renderDayCell = (day: Date | null, index: number) => {
+    if (!day) {
+      return <View key={`blank-${index}`} style={styles.dayCell} />;
+    }
+
+    const dateKey = formatDate(day);
+    // Every slot of a missing tab is Unknown; the retry row below explains it instead
+    const summary = data && !data.sheetMissing
+      ? summarizeDay(applyHolds(applyEnquiries(data.days[dateKey] || [], enquiries), holds))
+      : null;
+    const total = summary ? summary.available + summary.booked + summary.enquiry + summary.maintenance + summary.unknown : 0;
+    // One dot per kind of note (muhurat, festival, holiday); the day view lists them by name
+    const annotationKinds = Array.from(new Set(annotationsFor(dateKey, dateAnnotations).map(entry => entry.kind)));
+
+    return (
+      <TouchableOpacity
+        key={dateKey}
+        style={[
+          styles.dayCell,
+          dateKey === selectedKey && styles.dayCellSelected,
+        ]}
+        onPress={() => onSelectDay(day)}
+      >
+        {annotationKinds.length > 0 && (
+          <View style={styles.annotationDots}>
+            {annotationKinds.map(kind => (
+              <View key={kind} style={[styles.annotationDot, { backgroundColor: annotationColors[kind] }]} />
+            ))}
+          </View>
+        )}
+        <Text style={[styles.dayNumber, dateKey === todayKey && styles.dayNumberToday]}>
+          {day.getDate()}
+        </Text>
+        {summary && total > 0 && (
+          <>
+            <View style={styles.heatBar}>
+              {summary.available > 0 && <View style={[styles.heatSegment, { flex: summary.available, backgroundColor: statusColors.Available.background }]} />}
+              {summary.enquiry > 0 && <View style={[styles.heatSegment, { flex: summary.enquiry, backgroundColor: statusColors.Enquiry.background }]} />}
+              {summary.booked > 0 && <View style={[styles.heatSegment, { flex: summary.booked, backgroundColor: statusColors.Booked.background }]} />}
+              {summary.maintenance > 0 && <View style={[styles.heatSegment, { flex: summary.maintenance, backgroundColor: statusColors.Maintenance.background }]} />}
+              {summary.unknown > 0 && <View style={[styles.heatSegment, { flex: summary.unknown, backgroundColor: statusColors.Unknown.background }]} />}
+            </View>
+            <Text style={styles.countText}>
+              <Text style={{ color: statusColors.Available.background }}>{summary.available}</Text>
+              {' · '}
+              <Text style={{ color: statusColors.Booked.background }}>{summary.booked}</Text>
+              {summary.enquiry > 0 && (
+                <>
+                  {' · '}
+                  <Text style={{ color: statusColors.Enquiry.background }}>{summary.enquiry}</Text>
+                </>
+              )}
+            </Text>
+          </>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.monthHeader}>
+        <TouchableOpacity style={styles.navButton} onPress={() => onChangeMonth(new Date(year, monthIndex - 1, 1))}>
+          <Text style={styles.navButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>{MONTH_LABELS[monthIndex]} {year}</Text>
+        <TouchableOpacity style={styles.navButton} onPress={() => onChangeMonth(new Date(year, monthIndex + 1, 1))}>
+          <Text style={styles.navButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekdayRow}>
+        {WEEKDAY_LABELS.map(label => (
+          <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {cells.map(renderDayCell)}
+      </View>
+
+      {loading && (
+        <View style={styles.statusRow}>
+          <ActivityIndicator size="small" color="#C6A556" />
+          <Text style={styles.statusText}>Loading month...</Text>
+        </View>
+      )}
+      {!loading && (error || (data && !data.complete)) && (
+        <TouchableOpacity style={styles.statusRow} onPress={reload}>
+          <Text style={styles.errorText}>{problemText} Tap to retry.</Text>
+        </TouchableOpacity>
+      )}
+
+      {!loading && data && !data.sheetMissing && (
+        <SyncStatus syncedAt={syncedAt} stale={stale} refreshing={refreshing} onRefresh={reload} />
+      )}
+
+      {!loading && data && data.unrecognizedTokens.length > 0 && (
+        <TouchableOpacity style={styles.statusRow} onPress={showUnrecognizedTokens}>
+          <Text style={styles.statusText}>
+            {data.unrecognizedTokens.length} unrecognized sheet entr{data.unrecognizedTokens.length === 1 ? 'y' : 'ies'} – tap to review
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.legend}>
+        {(['Available', 'Booked', 'Enquiry', 'Maintenance', 'Unknown'] as const).map(status => (
+          <View key={status} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: statusColors[status].background }]} />
+            <Text style={styles.legendText}>{status}</Text>
+          </View>
+        ))}
+      </View>
+      <View style={styles.legend}>
+        {(['muhurat', 'festival', 'holiday'] as const).map(kind => (
+          <View key={kind} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: annotationColors[kind] }]} />
+            <Text style={styles.legendText}>{kind === 'muhurat' ? 'Muhurat' : kind === 'festival' ? 'Festival' : 'Holiday'}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  navButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  navButtonText: {
+    color: '#C6A556',
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  monthTitle: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    marginBottom: 6,
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    color: '#A0A0A0',
+    fontSize: 13,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    minHeight: 62,
+    padding: 4,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  dayCellSelected: {
+    backgroundColor: 'rgba(198, 165, 86, 0.2)',
+    borderWidth: 1,
+    borderColor: '#C6A556',
+  },
+  annotationDots: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    flexDirection: 'row',
+  },
+  annotationDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginLeft: 2,
+  },
+  dayNumber: {
+    color: '#E8E8E8',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  dayNumberToday: {
+    color: '#C6A556',
+  },
+  heatBar: {
+    flexDirection: 'row',
+    width: '100%',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: 5,
+  },
+  heatSegment: {
+    height: '100%',
+  },
+  countText: {
+    fontSize: 10,
+    color: '#777777',
+    marginTop: 3,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  statusText: {
+    color: '#B0B0B0',
+    marginLeft: 8,
+  },
+  errorText: {
+    color: '#FF7B7B',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 10,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 6,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  legendText: {
+    color: '#A0A0A0',
+    fontSize: 13,
+  },
+});
+
+export default MonthCalendar;
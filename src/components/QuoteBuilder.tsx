@@ -0,0 +1,542 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { HallData, PriceList, QuoteDiscount, QuoteSlot, Quotation } from '../types';
+import { ENQUIRY_EVENT_TYPES } from '../services/enquiries';
+import { formatPrice } from '../services/hallDetails';
+import { getPriceList, loadPriceList } from '../services/priceList';
+import { NewQuote, calculateTotals, createQuote, hallRentLines, quoteLines } from '../services/quotes';
+import { shareQuote } from '../services/quoteExport';
+
+interface QuoteBuilderProps {
+  slots: HallData[] | null;    // The hall card's slots for the day; the modal is hidden when null
+  initialGuestCount?: number;  // The guest count the day's list is filtered by, if any
+  createdBy: string;           // Username of the signed-in user
+  onClose: () => void;
+}
+
+// "1,20,000" -> 120000; blank means not entered
+const parseNumber = (text: string): number | undefined => {
+  const cleaned = text.replace(/[^\d.]/g, '');
+  return cleaned ? Number(cleaned) : undefined;
+};
+
+const quoteSlotFor = (slot: HallData): QuoteSlot => ({
+  locationId: slot.locationId,
+  location: slot.location,
+  hallId: slot.hallId,
+  hallName: slot.hallName,
+  date: slot.date,
+  timeSlot: slot.timeSlot,
+});
+
+// Build a quote for one of a hall's free slots from the price list, then share it as a message or PDF
+const QuoteBuilder = ({ slots, initialGuestCount, createdBy, onClose }: QuoteBuilderProps) => {
+  const [priceList, setPriceList] = useState<PriceList>(getPriceList());
+  const [timeSlot, setTimeSlot] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [eventType, setEventType] = useState('');
+  const [guestCount, setGuestCount] = useState('');
+  const [rent, setRent] = useState('');
+  const [itemIds, setItemIds] = useState<string[]>([]);
+  const [discount, setDiscount] = useState('');
+  const [discountKind, setDiscountKind] = useState<QuoteDiscount['kind']>('percent');
+  const [applyTaxes, setApplyTaxes] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState<Quotation | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  // Slots that can still be offered; held or enquired slots may be, booked ones not
+  const freeSlots = useMemo(
+    () => (slots || []).filter(slot => slot.status === 'Available' || slot.status === 'Enquiry'),
+    [slots]
+  );
+
+  // Start a fresh quote each time it opens
+  useEffect(() => {
+    if (!slots) return;
+    setTimeSlot(freeSlots[0]?.timeSlot || '');
+    setCustomerName('');
+    setPhone('');
+    setEventType('');
+    setGuestCount(initialGuestCount ? String(initialGuestCount) : '');
+    setRent('');
+    setItemIds([]);
+    setDiscount('');
+    setDiscountKind('percent');
+    setApplyTaxes(true);
+    setNotes('');
+    setError('');
+    setSaved(null);
+    loadPriceList().then(setPriceList).catch(e => console.warn('Could not refresh the price list:', e));
+  }, [slots]);
+
+  const selected = freeSlots.find(slot => slot.timeSlot === timeSlot);
+  const draft: NewQuote | null = selected ? {
+    slot: quoteSlotFor(selected),
+    customerName,
+    phone,
+    eventType: eventType || undefined,
+    guestCount: parseNumber(guestCount),
+    rent: parseNumber(rent),
+    itemIds,
+    discount: parseNumber(discount) ? { kind: discountKind, value: parseNumber(discount)! } : undefined,
+    applyTaxes,
+    notes,
+  } : null;
+  const lines = draft ? quoteLines(draft, priceList) : [];
+  const totals = calculateTotals(lines, draft?.discount, applyTaxes ? priceList.taxes : []);
+  const listedRent = selected ? hallRentLines(quoteSlotFor(selected)).reduce((sum, entry) => sum + entry.amount, 0) : 0;
+
+  const toggleItem = (id: string) =>
+    setItemIds(itemIds.includes(id) ? itemIds.filter(other => other !== id) : [...itemIds, id]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError('');
+    try {
+      setSaved(await createQuote(draft, createdBy, Date.now(), priceList));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleShare = async (format: 'text' | 'pdf') => {
+    if (!saved) return;
+    setSharing(true);
+    setError('');
+    try {
+      await shareQuote(saved, format);
+    } catch (e) {
+      console.error(`Sharing quote ${saved.id} failed:`, e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const renderItems = (category: 'package' | 'item', label: string) => {
+    const entries = priceList.items.filter(item => item.category === category);
+    if (entries.length === 0) return null;
+    return (
+      <>
+        <Text style={styles.fieldLabel}>{label}</Text>
+        {entries.map(item => {
+          const picked = itemIds.includes(item.id);
+          return (
+            <TouchableOpacity key={item.id} style={[styles.itemRow, picked && styles.itemRowPicked]} onPress={() => toggleItem(item.id)}>
+              <View style={styles.itemInfo}>
+                <Text style={styles.itemName}>{picked ? '✓ ' : ''}{item.name}</Text>
+                {item.description ? <Text style={styles.itemDescription}>{item.description}</Text> : null}
+              </View>
+              <Text style={styles.itemPrice}>{formatPrice(item.price)}{item.unit === 'perGuest' ? ' / guest' : ''}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </>
+    );
+  };
+
+  const first = slots?.[0];
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={slots !== null} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          {first && (
+            <>
+              <Text style={styles.title}>{saved ? `Quotation ${saved.id}` : `Quote ${first.hallName}`}</Text>
+              <Text style={styles.subtitle}>{first.location} · {first.date}</Text>
+            </>
+          )}
+
+          {saved ? (
+            <View style={styles.body}>
+              <Text style={styles.savedText}>
+                {saved.customerName} · {saved.slot.timeSlot} · {formatPrice(saved.totals.total)}
+              </Text>
+              <Text style={styles.hintText}>Saved on this device; find it again under Quotes.</Text>
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => handleShare('text')} disabled={sharing}>
+                  <Text style={styles.cancelText}>Message</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.cancelButton, styles.middleButton]} onPress={() => handleShare('pdf')} disabled={sharing}>
+                  {sharing ? <ActivityIndicator size="small" color="#C6A556" /> : <Text style={styles.cancelText}>PDF</Text>}
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={onClose}>
+                  <Text style={styles.saveText}>Done</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <>
+              <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+                <Text style={styles.fieldLabel}>Slot</Text>
+                {freeSlots.length === 0 ? (
+                  <Text style={styles.errorText}>This hall has no free slot on this day.</Text>
+                ) : (
+                  <View style={styles.chipRow}>
+                    {freeSlots.map(slot => (
+                      <TouchableOpacity
+                        key={slot.timeSlot}
+                        style={[styles.chip, timeSlot === slot.timeSlot && styles.chipSelected]}
+                        onPress={() => setTimeSlot(slot.timeSlot)}
+                      >
+                        <Text style={[styles.chipText, timeSlot === slot.timeSlot && styles.chipTextSelected]}>{slot.timeSlot}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                <TextInput
+                  style={styles.input}
+                  value={customerName}
+                  onChangeText={setCustomerName}
+                  placeholder="Customer name"
+                  placeholderTextColor="#666666"
+                />
+                <TextInput
+                  style={styles.input}
+                  value={phone}
+                  onChangeText={setPhone}
+                  placeholder="Phone (optional)"
+                  placeholderTextColor="#666666"
+                  keyboardType="phone-pad"
+                />
+                <Text style={styles.fieldLabel}>Event</Text>
+                <View style={styles.chipRow}>
+                  {ENQUIRY_EVENT_TYPES.map(type => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[styles.chip, eventType === type && styles.chipSelected]}
+                      onPress={() => setEventType(eventType === type ? '' : type)}
+                    >
+                      <Text style={[styles.chipText, eventType === type && styles.chipTextSelected]}>{type}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={guestCount}
+                  onChangeText={setGuestCount}
+                  placeholder="Guests"
+                  placeholderTextColor="#666666"
+                  keyboardType="number-pad"
+                />
+                <TextInput
+                  style={styles.input}
+                  value={rent}
+                  onChangeText={setRent}
+                  placeholder={listedRent > 0 ? `Hall rent (listed ${formatPrice(listedRent)})` : 'Hall rent ₹'}
+                  placeholderTextColor="#666666"
+                  keyboardType="number-pad"
+                />
+
+                {renderItems('package', 'Packages')}
+                {renderItems('item', 'Add-ons')}
+
+                <Text style={styles.fieldLabel}>Discount</Text>
+                <View style={styles.discountRow}>
+                  <TextInput
+                    style={[styles.input, styles.discountInput]}
+                    value={discount}
+                    onChangeText={setDiscount}
+                    placeholder="0"
+                    placeholderTextColor="#666666"
+                    keyboardType="decimal-pad"
+                  />
+                  {(['percent', 'amount'] as const).map(kind => (
+                    <TouchableOpacity
+                      key={kind}
+                      style={[styles.chip, styles.kindChip, discountKind === kind && styles.chipSelected]}
+                      onPress={() => setDiscountKind(kind)}
+                    >
+                      <Text style={[styles.chipText, discountKind === kind && styles.chipTextSelected]}>{kind === 'percent' ? '%' : '₹'}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {priceList.taxes.length > 0 && (
+                  <View style={styles.taxRow}>
+                    <Text style={styles.taxLabel}>Add {priceList.taxes.map(tax => `${tax.name} ${tax.percent}%`).join(' + ')}</Text>
+                    <Switch value={applyTaxes} onValueChange={setApplyTaxes} trackColor={{ true: '#C6A556', false: '#3A3A3C' }} />
+                  </View>
+                )}
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  value={notes}
+                  onChangeText={setNotes}
+                  placeholder="Notes printed on the quote"
+                  placeholderTextColor="#666666"
+                  multiline
+                />
+
+                <View style={styles.summary}>
+                  {lines.map((entry, index) => (
+                    <View key={`${entry.description}-${index}`} style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel} numberOfLines={1}>
+                        {entry.description}{entry.quantity !== 1 ? ` × ${entry.quantity}` : ''}
+                      </Text>
+                      <Text style={styles.summaryAmount}>{formatPrice(entry.amount)}</Text>
+                    </View>
+                  ))}
+                  {totals.discount > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>Discount</Text>
+                      <Text style={styles.summaryAmount}>-{formatPrice(totals.discount)}</Text>
+                    </View>
+                  )}
+                  {totals.taxes.map(tax => (
+                    <View key={tax.name} style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{tax.name} {tax.percent}%</Text>
+                      <Text style={styles.summaryAmount}>{formatPrice(tax.amount)}</Text>
+                    </View>
+                  ))}
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.totalText}>Total</Text>
+                    <Text style={styles.totalText}>{formatPrice(totals.total)}</Text>
+                  </View>
+                </View>
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+              </ScrollView>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, !selected && styles.saveButtonDisabled]}
+                  onPress={handleSave}
+                  disabled={saving || !selected}
+                >
+                  {saving ? <ActivityIndicator size="small" color="#000000" /> : <Text style={styles.saveText}>Save quote</Text>}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1C1C1E',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 34,
+    maxHeight: '90%',
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  body: {
+    marginTop: 10,
+  },
+  input: {
+    backgroundColor: '#2C2C2E',
+    color: '#FFFFFF',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginTop: 10,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  fieldLabel: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  hintText: {
+    color: '#777777',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#C6A556',
+    borderColor: '#C6A556',
+  },
+  chipText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2C2C2E',
+    marginBottom: 6,
+  },
+  itemRowPicked: {
+    borderColor: '#C6A556',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemName: {
+    color: '#E8E8E8',
+    fontSize: 15,
+  },
+  itemDescription: {
+    color: '#777777',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  itemPrice: {
+    color: '#C6A556',
+    fontSize: 14,
+  },
+  discountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  discountInput: {
+    flex: 1,
+    marginTop: 0,
+    marginRight: 8,
+  },
+  kindChip: {
+    marginBottom: 0,
+  },
+  taxRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  taxLabel: {
+    color: '#E8E8E8',
+    fontSize: 15,
+  },
+  summary: {
+    marginTop: 16,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#3A3A3C',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  summaryLabel: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    flex: 1,
+    marginRight: 8,
+  },
+  summaryAmount: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  totalText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  savedText: {
+    color: '#E8E8E8',
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#FF7B7B',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 6,
+  },
+  middleButton: {
+    marginLeft: 6,
+  },
+  cancelText: {
+    color: '#E8E8E8',
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    backgroundColor: '#D4AF37',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 6,
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default QuoteBuilder;
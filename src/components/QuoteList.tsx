@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Quotation } from '../types';
+import { formatPrice } from '../services/hallDetails';
+import { searchQuotes } from '../services/quotes';
+import { shareQuote } from '../services/quoteExport';
+
+interface QuoteListProps {
+  quotes: Quotation[];
+  onSelectDate: (date: Date) => void;
+}
+
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Saved quotes, newest first, searchable by customer, phone or quote number; each can be shared again
+const QuoteList = ({ quotes, onSelectDate }: QuoteListProps) => {
+  const [query, setQuery] = useState('');
+  const [sharingId, setSharingId] = useState<string | null>(null);
+
+  const share = async (quote: Quotation, format: 'text' | 'pdf') => {
+    setSharingId(quote.id);
+    try {
+      await shareQuote(quote, format);
+    } catch (error) {
+      console.error(`Sharing quote ${quote.id} failed:`, error);
+      Alert.alert('Could not share', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+    } finally {
+      setSharingId(null);
+    }
+  };
+
+  const openDate = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    onSelectDate(new Date(year, month - 1, day));
+  };
+
+  const renderQuote = ({ item }: { item: Quotation }) => {
+    const expired = item.validUntil < Date.now();
+    return (
+      <View style={[styles.item, expired && styles.itemExpired]}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.customer} numberOfLines={1}>{item.customerName}</Text>
+          <Text style={styles.total}>{formatPrice(item.totals.total)}</Text>
+        </View>
+        <TouchableOpacity onPress={() => openDate(item.slot.date)}>
+          <Text style={styles.slot}>{item.slot.date} · {item.slot.hallName} · {item.slot.timeSlot}</Text>
+        </TouchableOpacity>
+        <Text style={styles.meta}>
+          {item.id} · {formatDay(item.createdAt)} by {item.createdBy} · {expired ? 'Expired' : `Valid till ${formatDay(item.validUntil)}`}
+        </Text>
+        {sharingId === item.id ? (
+          <ActivityIndicator size="small" color="#C6A556" style={styles.busy} />
+        ) : (
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.action} onPress={() => share(item, 'text')} disabled={sharingId !== null}>
+              <Text style={styles.actionText}>Message</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => share(item, 'pdf')} disabled={sharingId !== null}>
+              <Text style={styles.actionText}>PDF</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <FlatList
+      data={searchQuotes(quotes, query)}
+      renderItem={renderQuote}
+      keyExtractor={item => item.id}
+      ListHeaderComponent={(
+        <TextInput
+          style={styles.search}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search by customer, phone or quote no."
+          placeholderTextColor="#666666"
+          autoCorrect={false}
+        />
+      )}
+      ListEmptyComponent={(
+        <Text style={styles.emptyText}>
+          {quotes.length === 0 ? 'No quotes yet. Tap Quote on a hall card to make one.' : 'No quotes match.'}
+        </Text>
+      )}
+      style={styles.list}
+      contentContainerStyle={styles.listContent}
+      keyboardShouldPersistTaps="handled"
+      showsVerticalScrollIndicator={false}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    marginTop: 12,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  search: {
+    backgroundColor: '#1C1C1E',
+    color: '#FFFFFF',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 6,
+  },
+  emptyText: {
+    color: '#B0B0B0',
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  item: {
+    backgroundColor: '#1C1C1E',
+    padding: 14,
+    marginVertical: 5,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#C6A556',
+  },
+  itemExpired: {
+    borderLeftColor: '#3A3A3C',
+    opacity: 0.7,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  customer: {
+    color: '#E8E8E8',
+    fontSize: 17,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  total: {
+    color: '#C6A556',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  slot: {
+    color: '#E8E8E8',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  meta: {
+    color: '#777777',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  busy: {
+    marginTop: 10,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  action: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    marginRight: 8,
+  },
+  actionText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+});
+
+export default QuoteList;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { HallRequirements, hasRequirements } from '../services/hallDetails';
+
+interface RequirementsFilterProps {
+  value: HallRequirements;
+  onChange: (value: HallRequirements) => void;
+}
+
+// "1,20,000" -> 120000; blank or zero clears the field
+const parseAmount = (text: string): number | undefined => {
+  const value = Number(text.replace(/\D/g, ''));
+  return value > 0 ? value : undefined;
+};
+
+// Guest count and per-slot budget; halls that can't take the guests or cost more are hidden
+const RequirementsFilter = ({ value, onChange }: RequirementsFilterProps) => (
+  <View style={styles.row}>
+    <TextInput
+      style={styles.input}
+      value={value.guestCount !== undefined ? String(value.guestCount) : ''}
+      onChangeText={text => onChange({ ...value, guestCount: parseAmount(text) })}
+      placeholder="Guests"
+      placeholderTextColor="#666666"
+      keyboardType="number-pad"
+    />
+    <TextInput
+      style={styles.input}
+      value={value.maxBudget !== undefined ? String(value.maxBudget) : ''}
+      onChangeText={text => onChange({ ...value, maxBudget: parseAmount(text) })}
+      placeholder="Budget ₹ per slot"
+      placeholderTextColor="#666666"
+      keyboardType="number-pad"
+    />
+    {hasRequirements(value) && (
+      <TouchableOpacity style={styles.clearButton} onPress={() => onChange({})}>
+        <Text style={styles.clearText}>Clear</Text>
+      </TouchableOpacity>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1C1C1E',
+    color: '#FFFFFF',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  clearButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  clearText: {
+    color: '#C6A556',
+    fontSize: 14,
+  },
+});
+
+export default RequirementsFilter;
@@ -0,0 +1,359 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { captureRef } from 'react-native-view-shot';
+import { HallData } from '../types';
+import {
+  AvailabilityExport,
+  BRAND_NAME,
+  CUSTOMER_STATUS_LABELS,
+  buildAvailabilityHtml,
+  collectAvailability,
+  exportLocations,
+  formatAvailabilityText,
+  formatExportDate,
+} from '../services/availabilityExport';
+import { formatDate } from '../services/dates';
+import { statusColors } from '../theme';
+
+type ShareRange = 'day' | 'week';
+
+const RANGE_OPTIONS: Array<{ value: ShareRange; label: string }> = [
+  { value: 'day', label: 'This day' },
+  { value: 'week', label: '7 days' },
+];
+
+interface ShareAvailabilityProps {
+  visible: boolean;
+  date: Date;           // The day on the results screen
+  halls: HallData[];    // Its rows as shown (groupDaySlots order)
+  syncedAt: number;
+  stale: boolean;
+  onClose: () => void;
+}
+
+// Share the results as a message, a branded PNG card or a PDF through the native share sheet.
+// "This day" shares exactly what is on screen; "7 days" reads the following days the same way.
+const ShareAvailability = ({ visible, date, halls, syncedAt, stale, onClose }: ShareAvailabilityProps) => {
+  const [range, setRange] = useState<ShareRange>('day');
+  const [data, setData] = useState<AvailabilityExport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const cardRef = useRef<View>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    if (range === 'day') {
+      setData({ days: [{ date: formatDate(date), rows: halls }], syncedAt, stale });
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 6);
+    collectAvailability(date, end)
+      .then(result => { if (!cancelled) setData(result); })
+      .catch(error => {
+        console.error('Could not read the days to share:', error);
+        if (!cancelled) {
+          Alert.alert('Could not load', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+          setRange('day');
+        }
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [visible, range, date, halls, syncedAt, stale]);
+
+  const title = data && data.days.length > 1
+    ? `${formatExportDate(data.days[0].date)} – ${formatExportDate(data.days[data.days.length - 1].date)}`
+    : formatExportDate(formatDate(date));
+
+  // Run one share action, reporting failures instead of leaving the sheet half done
+  const runShare = async (label: string, action: (current: AvailabilityExport) => Promise<void>) => {
+    if (!data) return;
+    setSharing(true);
+    try {
+      await action(data);
+    } catch (error) {
+      console.error(`Sharing as ${label} failed:`, error);
+      Alert.alert('Could not share', error instanceof Error ? error.message : String(error), [{ text: 'OK' }]);
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const shareFile = async (uri: string, mimeType: string, UTI: string) => {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing files is not available on this device.');
+    }
+    await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: `${BRAND_NAME} availability` });
+  };
+
+  const shareText = () => runShare('text', async current => {
+    await Share.share({ message: formatAvailabilityText(current) });
+  });
+
+  const shareImage = () => runShare('image', async () => {
+    const uri = await captureRef(cardRef, { format: 'png', quality: 1, result: 'tmpfile' });
+    await shareFile(uri, 'image/png', 'public.png');
+  });
+
+  const sharePdf = () => runShare('PDF', async current => {
+    const { uri } = await Print.printToFileAsync({ html: buildAvailabilityHtml(current) });
+    await shareFile(uri, 'application/pdf', 'com.adobe.pdf');
+  });
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Share availability</Text>
+
+          <View style={styles.rangeRow}>
+            {RANGE_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.rangeOption, range === option.value && styles.rangeOptionSelected]}
+                onPress={() => setRange(option.value)}
+                disabled={loading || sharing}
+              >
+                <Text style={[styles.rangeText, range === option.value && styles.rangeTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView style={styles.preview}>
+            {loading || !data ? (
+              <ActivityIndicator size="large" color="#C6A556" style={styles.loader} />
+            ) : (
+              // The PNG is a capture of this card
+              <View ref={cardRef} collapsable={false} style={styles.card}>
+                <Text style={styles.cardBrand}>{BRAND_NAME}</Text>
+                <Text style={styles.cardTitle}>Hall availability · {title}</Text>
+                {data.days.map(day => (
+                  <View key={day.date} style={styles.cardDay}>
+                    {data.days.length > 1 && <Text style={styles.cardDate}>{formatExportDate(day.date)}</Text>}
+                    {exportLocations(day.rows).map(location => (
+                      <View key={location.name} style={styles.cardLocation}>
+                        <Text style={styles.cardLocationName}>{location.name}</Text>
+                        {location.halls.map(hall => (
+                          <View key={hall.name} style={styles.cardHall}>
+                            <Text style={styles.cardHallName} numberOfLines={1}>{hall.name}</Text>
+                            <View style={styles.cardSlots}>
+                              {hall.slots.map(slot => (
+                                <View
+                                  key={slot.timeSlot}
+                                  style={[styles.cardSlot, { backgroundColor: statusColors[slot.status].background }]}
+                                >
+                                  <Text style={styles.cardSlotName}>{slot.timeSlot}</Text>
+                                  <Text style={styles.cardSlotStatus}>{CUSTOMER_STATUS_LABELS[slot.status]}</Text>
+                                </View>
+                              ))}
+                            </View>
+                          </View>
+                        ))}
+                      </View>
+                    ))}
+                  </View>
+                ))}
+                <Text style={styles.cardFooter}>Subject to confirmation.</Text>
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.actionRow}>
+            {([['Message', shareText], ['Image', shareImage], ['PDF', sharePdf]] as const).map(([label, action]) => (
+              <TouchableOpacity
+                key={label}
+                style={[styles.actionButton, (loading || sharing || !data) && styles.actionButtonDisabled]}
+                onPress={action}
+                disabled={loading || sharing || !data}
+              >
+                <Text style={styles.actionText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {sharing && <ActivityIndicator size="small" color="#C6A556" style={styles.sharingIndicator} />}
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1C1C1E',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 34,
+    maxHeight: '90%',
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    marginTop: 14,
+  },
+  rangeOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    marginRight: 8,
+  },
+  rangeOptionSelected: {
+    backgroundColor: '#C6A556',
+    borderColor: '#C6A556',
+  },
+  rangeText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  rangeTextSelected: {
+    color: '#121212',
+    fontWeight: '600',
+  },
+  preview: {
+    marginTop: 14,
+    maxHeight: 380,
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderTopWidth: 6,
+    borderTopColor: '#C6A556',
+  },
+  cardBrand: {
+    color: '#C6A556',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  cardTitle: {
+    color: '#444444',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  cardDay: {
+    marginTop: 10,
+  },
+  cardDate: {
+    color: '#222222',
+    fontSize: 15,
+    fontWeight: 'bold',
+    borderBottomWidth: 1,
+    borderBottomColor: '#C6A556',
+    paddingBottom: 2,
+  },
+  cardLocation: {
+    marginTop: 8,
+  },
+  cardLocationName: {
+    color: '#222222',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  cardHall: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cardHallName: {
+    width: 90,
+    color: '#333333',
+    fontSize: 13,
+  },
+  cardSlots: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  cardSlot: {
+    flex: 1,
+    borderRadius: 6,
+    paddingVertical: 4,
+    marginLeft: 4,
+    alignItems: 'center',
+  },
+  cardSlotName: {
+    color: '#333333',
+    fontSize: 10,
+  },
+  cardSlotStatus: {
+    color: '#111111',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  cardFooter: {
+    color: '#777777',
+    fontSize: 11,
+    marginTop: 10,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    height: 46,
+    borderRadius: 23,
+    backgroundColor: '#D4AF37',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 4,
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionText: {
+    color: '#000000',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  sharingIndicator: {
+    marginTop: 10,
+  },
+  closeButton: {
+    height: 46,
+    borderRadius: 23,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  closeText: {
+    color: '#E8E8E8',
+    fontSize: 16,
+  },
+});
+
+export default ShareAvailability;
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { HallData, SlotStatus } from '../types';
+import { useGoogleSignIn } from '../hooks/useGoogleSignIn';
+import { statusColors } from '../theme';
+
+const EDITABLE_STATUSES: SlotStatus[] = ['Available', 'Booked', 'Enquiry', 'Maintenance'];
+// Statuses whose cell can carry a client/event name
+const STATUSES_WITH_NOTE: SlotStatus[] = ['Booked', 'Enquiry'];
+
+interface SlotEditorProps {
+  slot: HallData | null; // Slot being edited; the modal is hidden when null
+  onClose: () => void;
+  onSave: (slot: HallData, status: SlotStatus, note: string) => void;
+}
+
+// Change a slot's status and booking note; saving is only possible once signed in with Google
+const SlotEditor = ({ slot, onClose, onSave }: SlotEditorProps) => {
+  const { auth, ready, signingIn, error, signIn, signOut } = useGoogleSignIn();
+  const [status, setStatus] = useState<SlotStatus>('Booked');
+  const [note, setNote] = useState('');
+
+  // Start from what the slot currently shows
+  useEffect(() => {
+    if (!slot) return;
+    setStatus(slot.status === 'Unknown' ? 'Booked' : slot.status);
+    setNote(slot.booking?.label || '');
+  }, [slot]);
+
+  const noteEnabled = STATUSES_WITH_NOTE.includes(status);
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={slot !== null} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          {slot && (
+            <>
+              <Text style={styles.title}>{slot.hallName} – {slot.timeSlot}</Text>
+              <Text style={styles.subtitle}>{slot.location} · {slot.date}</Text>
+              {slot.cell && <Text style={styles.cellText}>Sheet cell {slot.cell.range}: "{slot.cell.value}"</Text>}
+
+              <View style={styles.statusRow}>
+                {EDITABLE_STATUSES.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.statusOption,
+                      { borderColor: statusColors[option].border },
+                      status === option && { backgroundColor: statusColors[option].background },
+                    ]}
+                    onPress={() => setStatus(option)}
+                  >
+                    <Text style={[styles.statusOptionText, status === option && styles.statusOptionTextSelected]}>{option}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TextInput
+                style={[styles.noteInput, !noteEnabled && styles.noteInputDisabled]}
+                value={noteEnabled ? note : ''}
+                onChangeText={setNote}
+                editable={noteEnabled}
+                placeholder={noteEnabled ? 'Client / event, e.g. Sharma Wedding' : 'No note for this status'}
+                placeholderTextColor="#666666"
+              />
+
+              <View style={styles.accountRow}>
+                {auth ? (
+                  <>
+                    <Text style={styles.accountText} numberOfLines={1}>Signed in as {auth.email}</Text>
+                    <TouchableOpacity onPress={signOut}>
+                      <Text style={styles.linkText}>Sign out</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <TouchableOpacity onPress={signIn} disabled={!ready || signingIn} style={styles.signInButton}>
+                    {signingIn ? <ActivityIndicator size="small" color="#000000" /> : <Text style={styles.signInText}>Sign in with Google to save</Text>}
+                  </TouchableOpacity>
+                )}
+              </View>
+              {error && <Text style={styles.errorText}>{error}</Text>}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, (!auth || !slot.cell) && styles.saveButtonDisabled]}
+                  onPress={() => onSave(slot, status, noteEnabled ? note : '')}
+                  disabled={!auth || !slot.cell}
+                >
+                  <Text style={styles.saveText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1C1C1E',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 34,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    color: '#A0A0A0',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  cellText: {
+    color: '#777777',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 16,
+  },
+  statusOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  statusOptionText: {
+    color: '#E8E8E8',
+    fontSize: 14,
+  },
+  statusOptionTextSelected: {
+    color: '#121212',
+    fontWeight: '600',
+  },
+  noteInput: {
+    marginTop: 8,
+    height: 46,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    paddingHorizontal: 12,
+    color: '#FFFFFF',
+    fontSize: 15,
+  },
+  noteInputDisabled: {
+    opacity: 0.4,
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  accountText: {
+    color: '#A0A0A0',
+    fontSize: 13,
+    flex: 1,
+    marginRight: 10,
+  },
+  linkText: {
+    color: '#C6A556',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  signInButton: {
+    flex: 1,
+    height: 42,
+    borderRadius: 21,
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  signInText: {
+    color: '#000000',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#FF7B7B',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: '#3A3A3C',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  cancelText: {
+    color: '#E8E8E8',
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#D4AF37',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default SlotEditor;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+
+// "just now", "5 minutes ago", "3 hours ago", "2 days ago"
+const formatSyncAge = (syncedAt: number, now: number) => {
+  const minutes = Math.floor((now - syncedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+interface SyncStatusProps {
+  syncedAt: number | null;
+  stale: boolean;       // Showing stored data because the live read failed or hasn't finished
+  refreshing: boolean;  // A background refresh is in flight
+  onRefresh?: () => void;
+}
+
+const SyncStatus = ({ syncedAt, stale, refreshing, onRefresh }: SyncStatusProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the "N minutes ago" text current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!syncedAt && !refreshing) return null;
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={onRefresh} disabled={!onRefresh || refreshing}>
+      {refreshing && <ActivityIndicator size="small" color="#C6A556" style={styles.spinner} />}
+      <Text style={[styles.text, stale && !refreshing && styles.staleText]}>
+        {syncedAt ? `Last synced ${formatSyncAge(syncedAt, now)}` : 'Syncing...'}
+        {syncedAt && refreshing ? ' · refreshing' : ''}
+        {stale && !refreshing ? ' · offline copy, tap to refresh' : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 6,
+  },
+  spinner: {
+    marginRight: 6,
+  },
+  text: {
+    color: '#A0A0A0',
+    fontSize: 12,
+  },
+  staleText: {
+    color: '#E0B84F',
+  },
+});
+
+export default SyncStatus;
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { AppLockState, Session } from '../types';
+import {
+    BACKGROUND_GRACE_MS,
+    LOCK_TIMEOUT_MS,
+    attemptsRemaining,
+    isLockedOut,
+    loadLockState,
+    lockState,
+    recordFailedUnlock,
+    saveLockState,
+    unlockState
+} from '../services/appLock';
+import { verifyUserPin } from '../services/auth';
+
+// How often the inactivity timeout is checked, and how often touches are written to storage
+const INACTIVITY_CHECK_MS = 15 * 1000;
+const ACTIVITY_SAVE_INTERVAL_MS = 30 * 1000;
+
+// Lock the signed-in session after inactivity or time in the background; unlock with the user's PIN or biometrics
+export const useAppLock = (session: Session | null) => {
+    const [state, setState] = useState<AppLockState | null>(null);
+    const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+    // Latest state for AppState/timer callbacks, which outlive renders
+    const stateRef = useRef<AppLockState | null>(null);
+    const lastActiveRef = useRef(Date.now());
+    const lastSavedActivityRef = useRef(0);
+    const backgroundedAtRef = useRef<number | null>(null);
+
+    const update = useCallback((next: AppLockState) => {
+        stateRef.current = next;
+        setState(next);
+        saveLockState(next);
+    }, []);
+
+    const lock = useCallback(() => {
+        const current = stateRef.current;
+        if (current && !current.locked) {
+            console.log('Locking app');
+            update(lockState({ ...current, lastActiveAt: lastActiveRef.current }));
+        }
+    }, [update]);
+
+    // Load the persisted state for the signed-in user
+    const username = session?.username;
+    useEffect(() => {
+        stateRef.current = null;
+        setState(null);
+        if (!username) return;
+
+        loadLockState().then(loaded => {
+            lastActiveRef.current = loaded.locked ? Date.now() : loaded.lastActiveAt;
+            update(loaded);
+        });
+    }, [username, update]);
+
+    useEffect(() => {
+        const checkBiometrics = async () => {
+            try {
+                setBiometricsAvailable(await LocalAuthentication.hasHardwareAsync() && await LocalAuthentication.isEnrolledAsync());
+            } catch (e) {
+                console.warn('Could not check biometric support:', e);
+                setBiometricsAvailable(false);
+            }
+        };
+        checkBiometrics();
+    }, []);
+
+    // Lock when returning from the background after the grace period
+    useEffect(() => {
+        if (!username) return;
+        const subscription = AppState.addEventListener('change', nextState => {
+            const now = Date.now();
+            if (nextState === 'background') {
+                backgroundedAtRef.current = now;
+                const current = stateRef.current;
+                if (current) update({ ...current, lastActiveAt: lastActiveRef.current });
+            } else if (nextState === 'active') {
+                const backgroundedAt = backgroundedAtRef.current;
+                backgroundedAtRef.current = null;
+                if ((backgroundedAt !== null && now - backgroundedAt > BACKGROUND_GRACE_MS) ||
+                    now - lastActiveRef.current > LOCK_TIMEOUT_MS) {
+                    lock();
+                }
+            }
+        });
+        return () => subscription.remove();
+    }, [username, lock, update]);
+
+    // Lock after LOCK_TIMEOUT_MS without a touch
+    useEffect(() => {
+        if (!username) return;
+        const interval = setInterval(() => {
+            if (Date.now() - lastActiveRef.current > LOCK_TIMEOUT_MS) {
+                lock();
+            }
+        }, INACTIVITY_CHECK_MS);
+        return () => clearInterval(interval);
+    }, [username, lock]);
+
+    // Call on every touch; persisted at most every ACTIVITY_SAVE_INTERVAL_MS
+    const markActivity = useCallback(() => {
+        const now = Date.now();
+        lastActiveRef.current = now;
+        const current = stateRef.current;
+        if (current && !current.locked && now - lastSavedActivityRef.current > ACTIVITY_SAVE_INTERVAL_MS) {
+            lastSavedActivityRef.current = now;
+            const next = { ...current, lastActiveAt: now };
+            stateRef.current = next;
+            saveLockState(next);
+        }
+    }, []);
+
+    const unlocked = useCallback(() => {
+        lastActiveRef.current = Date.now();
+        update(unlockState());
+    }, [update]);
+
+    // Throws with a message for the lock screen when the PIN is wrong or attempts are blocked
+    const unlockWithPin = useCallback(async (pin: string) => {
+        const current = stateRef.current;
+        if (!session || !current) return;
+        if (isLockedOut(current)) {
+            const seconds = Math.ceil(((current.lockoutUntil as number) - Date.now()) / 1000);
+            throw new Error(`Too many wrong PINs. Try again in ${seconds}s.`);
+        }
+
+        if (await verifyUserPin(session, pin)) {
+            unlocked();
+            return;
+        }
+
+        const next = recordFailedUnlock(current);
+        update(next);
+        throw new Error(isLockedOut(next)
+            ? 'Too many wrong PINs. Unlocking is blocked for a while.'
+            : `Wrong PIN. ${attemptsRemaining(next)} attempt(s) left.`);
+    }, [session, unlocked, update]);
+
+    const unlockWithBiometrics = useCallback(async () => {
+        const current = stateRef.current;
+        if (!current || isLockedOut(current)) return;
+        const result = await LocalAuthentication.authenticateAsync({
+            promptMessage: 'Unlock GMK Banquets',
+            fallbackLabel: 'Use PIN',
+        });
+        if (result.success) {
+            unlocked();
+        }
+    }, [unlocked]);
+
+    return {
+        checking: session !== null && state === null,
+        locked: state?.locked ?? false,
+        lockoutUntil: state?.lockoutUntil ?? null, // May be in the past; compare with the current time
+        biometricsAvailable,
+        lock,
+        markActivity,
+        unlockWithPin,
+        unlockWithBiometrics
+    };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import * as WebBrowser from 'expo-web-browser';
+import * as Google from 'expo-auth-session/providers/google';
+import { GoogleAuth } from '../types';
+import { GOOGLE_OAUTH_CLIENT_IDS, GOOGLE_OAUTH_SCOPES, getGoogleAuth, saveGoogleAuth, signOutGoogle } from '../services/googleAuth';
+
+// Closes the sign-in browser tab on web once Google redirects back
+WebBrowser.maybeCompleteAuthSession();
+
+// Only mount where isWriteBackEnabled() is true; the Google provider requires a client id for the platform
+export const useGoogleSignIn = () => {
+    const [auth, setAuth] = useState<GoogleAuth | null>(null);
+    const [signingIn, setSigningIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [request, response, promptAsync] = Google.useAuthRequest({
+        ...GOOGLE_OAUTH_CLIENT_IDS,
+        scopes: GOOGLE_OAUTH_SCOPES
+    });
+
+    useEffect(() => {
+        getGoogleAuth().then(setAuth);
+    }, []);
+
+    useEffect(() => {
+        if (!response) return;
+
+        if (response.type === 'success' && response.authentication) {
+            saveGoogleAuth(response.authentication.accessToken, response.authentication.expiresIn)
+                .then(setAuth)
+                .catch(err => {
+                    console.error('Error completing Google sign-in:', err);
+                    setError(err instanceof Error ? err.message : String(err));
+                })
+                .finally(() => setSigningIn(false));
+            return;
+        }
+
+        if (response.type === 'error') {
+            console.error('Google sign-in failed:', response.error);
+            setError(response.error?.message || 'Google sign-in failed');
+        }
+        setSigningIn(false);
+    }, [response]);
+
+    const signIn = useCallback(async () => {
+        setError(null);
+        setSigningIn(true);
+        try {
+            await promptAsync();
+        } catch (err) {
+            console.error('Error opening Google sign-in:', err);
+            setError(err instanceof Error ? err.message : String(err));
+            setSigningIn(false);
+        }
+    }, [promptAsync]);
+
+    const signOut = useCallback(async () => {
+        await signOutGoogle();
+        setAuth(null);
+    }, []);
+
+    return { auth, ready: request !== null, signingIn, error, signIn, signOut };
+};
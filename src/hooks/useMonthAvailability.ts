@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MonthAvailability } from '../types';
+import { fetchMonthDataOrStored, getCachedMonthData } from '../services/api';
+import { onConnectivityRestored } from '../services/network';
+
+// Stale-while-revalidate: the last known copy of the month is shown immediately, then refreshed
+export const useMonthAvailability = (month: Date) => {
+    const [data, setData] = useState<MonthAvailability | null>(null);
+    const [loading, setLoading] = useState(true);      // Nothing to show yet
+    const [refreshing, setRefreshing] = useState(false); // Showing a copy while a fresh one loads
+    const [error, setError] = useState<string | null>(null);
+    const [syncedAt, setSyncedAt] = useState<number | null>(null);
+    const [stale, setStale] = useState(false);
+    // Ignore results for a month the user has already navigated away from
+    const requestId = useRef(0);
+
+    // Only the month matters; days within it share one grid
+    const monthKey = `${month.getFullYear()}-${month.getMonth()}`;
+
+    const load = useCallback(async (forceRefresh: boolean = false) => {
+        const id = ++requestId.current;
+        let hasData = false;
+        try {
+            setError(null);
+            if (!forceRefresh) {
+                const cached = await getCachedMonthData(month);
+                if (id !== requestId.current) return;
+                if (cached) {
+                    setData(cached.month);
+                    setSyncedAt(cached.syncedAt);
+                    setStale(cached.stale);
+                    hasData = true;
+                    // This session's own complete read needs no revalidation
+                    if (!cached.stale) {
+                        setLoading(false);
+                        return;
+                    }
+                }
+            }
+
+            setLoading(!hasData);
+            setRefreshing(hasData || forceRefresh);
+            const result = await fetchMonthDataOrStored(month, { forceRefresh });
+            if (id !== requestId.current) return;
+            setData(result.month);
+            setSyncedAt(result.syncedAt);
+            setStale(result.stale);
+        } catch (err) {
+            if (id !== requestId.current) return;
+            // Keep showing the stored copy if there is one
+            if (!hasData) {
+                setError('Failed to load month availability');
+            }
+            console.error(err);
+        } finally {
+            if (id === requestId.current) {
+                setLoading(false);
+                setRefreshing(false);
+            }
+        }
+    }, [monthKey]);
+
+    useEffect(() => {
+        setData(null);
+        setSyncedAt(null);
+        setStale(false);
+        load();
+    }, [load]);
+
+    // Refresh in the background when the device comes back online while showing an offline copy or failed halls
+    const needsRefresh = stale || error !== null || (data !== null && !data.complete && !data.sheetMissing);
+    useEffect(() => {
+        if (!needsRefresh) return;
+        return onConnectivityRestored(() => load(true));
+    }, [load, needsRefresh]);
+
+    return { data, loading, refreshing, error, syncedAt, stale, reload: () => load(true) };
+};
@@ -0,0 +1,440 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    clearMonthCache,
+    fetchHallData,
+    fetchMonthData,
+    fetchMonthDataOrStored,
+    getSheetDetails,
+    groupDaySlots,
+    retryHallData
+} from '../api';
+import { formatDate } from '../dates';
+import { setAvailabilitySource } from '../availabilitySource';
+import { createMockSource, MockSource } from '../mockSource';
+import { createSheetsSource } from '../sheetsSource';
+import { clearTabCache } from '../sheetTabs';
+import { loadVenueConfig } from '../venueConfig';
+import { HallData, TimeSlot, VenueConfig } from '../../types';
+import bundledVenueConfig from '../../config/venues.json';
+import juneBatchGet from '../__fixtures__/batchGet-JUN-2025.json';
+import missingTab from '../__fixtures__/batchGet-missing-tab.json';
+import spreadsheetTabs from '../__fixtures__/spreadsheet-tabs.json';
+
+const SHEET_ID = '1pMiOb9hvvUdvuK0Hxt0Pa1lBF2JdYCvPZ6WdHxZPegk';
+const JUNE_14 = new Date(2025, 5, 14);
+
+const slotOf = (slots: HallData[], hallId: string, timeSlot: TimeSlot) => {
+    const slot = slots.find(candidate => candidate.hallId === hallId && candidate.timeSlot === timeSlot);
+    if (!slot) throw new Error(`No ${timeSlot} slot for ${hallId}`);
+    return slot;
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+});
+
+const isTabList = (url: string) => url.includes('fields=sheets.properties.title');
+
+// Serve the recorded tab list and batchGet for June 2025; every other tab (including CONFIG) doesn't exist
+const mockSheetsApi = () => {
+    const fetchMock = jest.fn(async (url: string) => {
+        if (isTabList(url)) {
+            return jsonResponse(200, spreadsheetTabs);
+        }
+        return decodeURIComponent(url).includes("'JUN 2025'!")
+            ? jsonResponse(200, juneBatchGet)
+            : jsonResponse(400, missingTab);
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+};
+
+const resetState = async () => {
+    clearMonthCache();
+    clearTabCache();
+    await AsyncStorage.clear();
+    await loadVenueConfig({ forceRefresh: true });
+};
+
+describe('getSheetDetails', () => {
+    it.each([
+        [new Date(2024, 1, 10), 'FEB 2024', 29],
+        [new Date(2025, 1, 10), 'FEB 2025', 28],
+        [new Date(2025, 5, 30), 'JUN 2025', 30],
+        [new Date(2025, 6, 1), 'JUL 2025', 31],
+        [new Date(2025, 11, 31), 'DEC 2025', 31],
+    ])('names the tab for %p and counts its days', (date, sheetName, daysInMonth) => {
+        expect(getSheetDetails(date)).toMatchObject({ sheetName, daysInMonth, year: date.getFullYear() });
+    });
+});
+
+describe('reading a month from the recorded Sheets response', () => {
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock;
+
+    beforeEach(async () => {
+        fetchMock = mockSheetsApi();
+        setAvailabilitySource(createSheetsSource());
+        await resetState();
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+    });
+
+    // Range reads other than the venue config
+    const monthReads = () => fetchMock.mock.calls
+        .map(([url]) => decodeURIComponent(url))
+        .filter(url => !isTabList(url) && !url.includes("'CONFIG'!"));
+
+    it('reads every hall of both locations in one request', async () => {
+        const month = await fetchMonthData(JUNE_14);
+        expect(monthReads()).toHaveLength(1);
+        expect(month.complete).toBe(true);
+        expect(month.sheetMissing).toBe(false);
+        expect(month.daysInMonth).toBe(30);
+        expect(Object.keys(month.days)).toHaveLength(30);
+        expect(month.days['2025-06-14']).toHaveLength(14);
+    });
+
+    it('maps cell values to statuses and bookings', async () => {
+        const slots = (await fetchMonthData(JUNE_14)).days['2025-06-14'];
+
+        expect(slotOf(slots, 'tathawade-aster', 'Morning')).toMatchObject({
+            status: 'Booked',
+            booking: { eventType: 'Wedding', notes: 'advance paid' },
+            cell: { sheetId: SHEET_ID, range: "'JUN 2025'!B17", value: 'occ - Sharma Wedding (advance paid)' }
+        });
+        expect(slotOf(slots, 'tathawade-aster', 'Evening')).toMatchObject({ status: 'Booked', cell: { range: "'JUN 2025'!C17" } });
+        expect(slotOf(slots, 'tathawade-tulip', 'Morning')).toMatchObject({ status: 'Available', cell: { value: 'vac' } });
+        expect(slotOf(slots, 'tathawade-grand', 'Evening')).toMatchObject({ status: 'Available', cell: { value: 'vac' } });
+    });
+
+    it('reads blank and missing rows at the end of a range as empty cells, not Unknown', async () => {
+        const month = await fetchMonthData(JUNE_14);
+
+        // Lotus evening came back without `values`; Vyas morning stops after day 10
+        expect(slotOf(month.days['2025-06-14'], 'tathawade-lotus', 'Evening')).toMatchObject({
+            status: 'Available',
+            cell: { range: "'JUN 2025'!I17", value: '' }
+        });
+        expect(slotOf(month.days['2025-06-02'], 'ravet-vyas', 'Morning').status).toBe('Booked');
+        expect(slotOf(month.days['2025-06-30'], 'ravet-vyas', 'Morning')).toMatchObject({ status: 'Available', cell: { range: "'JUN 2025'!N33" } });
+        // Aster morning has 25 rows
+        expect(slotOf(month.days['2025-06-30'], 'tathawade-aster', 'Morning').status).toBe('Available');
+    });
+
+    it('keeps tentative and free-text entries, and lists the unrecognized ones', async () => {
+        const month = await fetchMonthData(JUNE_14);
+
+        expect(slotOf(month.days['2025-06-15'], 'tathawade-grand', 'Evening')).toMatchObject({
+            status: 'Enquiry',
+            booking: { tentative: true }
+        });
+        expect(slotOf(month.days['2025-06-01'], 'tathawade-grand', 'Morning')).toMatchObject({
+            status: 'Booked',
+            booking: { raw: 'Iyer Haldi' }
+        });
+        expect(month.unrecognizedTokens).toEqual(expect.arrayContaining([
+            expect.objectContaining({ locationId: 'tathawade', token: 'iyer haldi' }),
+            expect.objectContaining({ locationId: 'ravet', token: 'kulkarni birthday', examples: ['Lawn Morning 2025-06-01'] })
+        ]));
+        expect(month.unrecognizedTokens.some(entry => entry.token.startsWith('occ'))).toBe(false);
+    });
+
+    it('sorts a day by location id, hall id, then Morning before Evening', async () => {
+        const slots = await fetchHallData(JUNE_14);
+        expect(slots.map(slot => `${slot.hallId} ${slot.timeSlot}`)).toEqual([
+            'ravet-agastya Morning', 'ravet-agastya Evening',
+            'ravet-lawn Morning', 'ravet-lawn Evening',
+            'ravet-vyas Morning', 'ravet-vyas Evening',
+            'tathawade-aster Morning', 'tathawade-aster Evening',
+            'tathawade-grand Morning', 'tathawade-grand Evening',
+            'tathawade-lotus Morning', 'tathawade-lotus Evening',
+            'tathawade-tulip Morning', 'tathawade-tulip Evening',
+        ]);
+    });
+
+    it('serves other days of a complete month from memory', async () => {
+        await fetchHallData(JUNE_14);
+        const callsAfterFirstRead = fetchMock.mock.calls.length;
+        await fetchHallData(new Date(2025, 5, 20));
+        expect(fetchMock.mock.calls.length).toBe(callsAfterFirstRead);
+
+        // A refresh also re-reads the tab list
+        await fetchHallData(new Date(2025, 5, 20), { forceRefresh: true });
+        expect(fetchMock.mock.calls.length).toBe(callsAfterFirstRead + 2);
+        expect(isTabList(fetchMock.mock.calls[callsAfterFirstRead][0])).toBe(true);
+    });
+
+    it('reports a month without a tab as not created yet instead of failing every hall', async () => {
+        const month = await fetchMonthData(new Date(2025, 7, 1));
+        expect(month.sheetMissing).toBe(true);
+        expect(month.complete).toBe(false);
+        expect(month.failedHallIds).toEqual([]);
+        expect(month.days['2025-08-01']).toEqual([]);
+        // Known from the tab list, without asking for the month's ranges
+        expect(monthReads()).toHaveLength(0);
+    });
+
+    it('reads a month from its tab as it is actually named', async () => {
+        await fetchMonthData(new Date(2025, 6, 1));
+        expect(monthReads()).toHaveLength(1);
+        expect(monthReads()[0]).toContain("'Jul-25 '!B4:B34");
+    });
+
+    it('lists the tabs once for several months', async () => {
+        await fetchMonthData(JUNE_14);
+        await fetchMonthData(new Date(2025, 4, 1));
+        expect(fetchMock.mock.calls.filter(([url]) => isTabList(url))).toHaveLength(1);
+    });
+
+    it('reads the month under its usual name when the tabs cannot be listed', async () => {
+        fetchMock.mockImplementation(async (url: string) => isTabList(url)
+            ? jsonResponse(403, { error: { code: 403, message: 'The caller does not have permission' } })
+            : jsonResponse(200, juneBatchGet));
+        const month = await fetchMonthData(JUNE_14);
+        expect(month.complete).toBe(true);
+        expect(slotOf(month.days['2025-06-14'], 'tathawade-aster', 'Morning').cell).toMatchObject({ range: "'JUN 2025'!B17" });
+    });
+
+    it('marks every hall Unknown, never Booked, when Sheets returns an error', async () => {
+        fetchMock.mockImplementation(async () => jsonResponse(500, { error: { code: 500, message: 'Internal error' } }));
+        const slots = await fetchHallData(JUNE_14);
+        expect(slots).toHaveLength(14);
+        slots.forEach(slot => {
+            expect(slot.status).toBe('Unknown');
+            expect(slot.error).toBe('Google Sheets returned status 500');
+        });
+    });
+});
+
+describe('reading a month through the mock source', () => {
+    const JULY = new Date(2025, 6, 1);
+    const CONFIG_HEADER = ['Location', 'Location ID', 'Hall', 'Hall ID', 'Morning Range', 'Evening Range', 'Morning Offset', 'Evening Offset', 'Date Column'];
+    let source: MockSource;
+
+    const useConfig = async (rows: string[][]) => {
+        source.setTab(SHEET_ID, 'CONFIG', [CONFIG_HEADER, ...rows]);
+        await loadVenueConfig({ forceRefresh: true });
+    };
+
+    beforeEach(async () => {
+        source = createMockSource({ generateMonths: false, generateUsers: false });
+        setAvailabilitySource(source);
+        source.setTab(SHEET_ID, 'JUL 2025', [
+            ['Day', 'Aster', 'Aster', 'Grand', 'Grand'],
+            ['', 'Morning', 'Evening', 'Morning', 'Evening'],
+            [],
+            ['1', 'occ - Patil Wedding', 'vac', 'hold - Rao'],
+        ]);
+        source.setCell(SHEET_ID, "'JUL 2025'!B34", 'occ - Mehta Reception');
+        await resetState();
+        await useConfig([
+            ['Test Venue', 'test', 'Aster', 'test-aster', 'B4:B34', 'C4:C34', '0', '0'],
+            ['Test Venue', 'test', 'Grand', 'test-grand', 'D4:D34', 'E4:E34', '0', '0'],
+        ]);
+    });
+
+    it('reads exactly the rows of the month, including the 31st', async () => {
+        source.setTab(SHEET_ID, 'FEB 2025', []);
+        const month = await fetchMonthData(JULY);
+        expect(source.calls[source.calls.length - 1].ranges).toEqual([
+            "'JUL 2025'!B4:B34", "'JUL 2025'!C4:C34", "'JUL 2025'!D4:D34", "'JUL 2025'!E4:E34"
+        ]);
+        expect(month.daysInMonth).toBe(31);
+        expect(month.complete).toBe(true);
+        expect(slotOf(month.days['2025-07-01'], 'test-aster', 'Morning')).toMatchObject({ status: 'Booked', cell: { range: "'JUL 2025'!B4" } });
+        expect(slotOf(month.days['2025-07-01'], 'test-grand', 'Evening').status).toBe('Available');
+        expect(slotOf(month.days['2025-07-30'], 'test-aster', 'Morning').status).toBe('Available');
+        expect(slotOf(month.days['2025-07-31'], 'test-aster', 'Morning')).toMatchObject({ status: 'Booked', cell: { range: "'JUL 2025'!B34" } });
+
+        await fetchMonthData(new Date(2025, 1, 1));
+        expect(source.calls[source.calls.length - 1].ranges[0]).toBe("'FEB 2025'!B4:B31");
+    });
+
+    it('skips header rows with the configured offset', async () => {
+        await useConfig([
+            ['Test Venue', 'test', 'Aster', 'test-aster', 'B1:B34', 'C4:C34', '3', '0'],
+        ]);
+        const month = await fetchMonthData(JULY);
+        expect(source.calls[source.calls.length - 1].ranges).toEqual(["'JUL 2025'!B1:B34", "'JUL 2025'!C4:C34"]);
+        expect(slotOf(month.days['2025-07-01'], 'test-aster', 'Morning')).toMatchObject({ status: 'Booked', cell: { range: "'JUL 2025'!B4" } });
+        expect(slotOf(month.days['2025-07-31'], 'test-aster', 'Morning')).toMatchObject({ status: 'Booked', cell: { range: "'JUL 2025'!B34" } });
+    });
+
+    it('reads and addresses cells in a tab named differently from the usual spelling', async () => {
+        source.setTab(SHEET_ID, 'Sept 2025 ', [[], [], [], ['', 'occ - Kulkarni Engagement']]);
+        const month = await fetchMonthData(new Date(2025, 8, 1));
+        expect(source.calls[source.calls.length - 1].ranges[0]).toBe("'Sept 2025 '!B4:B33");
+        expect(slotOf(month.days['2025-09-01'], 'test-aster', 'Morning')).toMatchObject({
+            status: 'Booked',
+            cell: { range: "'Sept 2025 '!B4" }
+        });
+    });
+
+    it('reads extra slots configured for a venue', async () => {
+        source.setTab(SHEET_ID, 'CONFIG', [
+            [...CONFIG_HEADER, 'Night Range', 'Night Offset'],
+            ['Test Venue', 'test', 'Aster', 'test-aster', 'B4:B34', 'C4:C34', '0', '0', '', 'F4:F34', '0'],
+            ['Test Venue', 'test', 'Grand', 'test-grand', 'D4:D34', 'E4:E34', '0', '0', '', '', ''],
+        ]);
+        await loadVenueConfig({ forceRefresh: true });
+        source.setCell(SHEET_ID, "'JUL 2025'!F4", 'occ - Patil Wedding');
+
+        const month = await fetchMonthData(JULY);
+        expect(source.calls[source.calls.length - 1].ranges).toEqual([
+            "'JUL 2025'!B4:B34", "'JUL 2025'!C4:C34", "'JUL 2025'!F4:F34", "'JUL 2025'!D4:D34", "'JUL 2025'!E4:E34"
+        ]);
+        expect(month.days['2025-07-01'].filter(slot => slot.hallId === 'test-aster').map(slot => slot.timeSlot)).toEqual(['Morning', 'Evening', 'Night']);
+        expect(slotOf(month.days['2025-07-01'], 'test-aster', 'Night')).toMatchObject({ status: 'Booked', cell: { range: "'JUL 2025'!F4" } });
+        // Grand has no Night column
+        expect(month.days['2025-07-01'].filter(slot => slot.hallId === 'test-grand')).toHaveLength(2);
+    });
+
+    it('marks a booking written into both slots as full day', async () => {
+        source.setCell(SHEET_ID, "'JUL 2025'!C4", 'occ - Patil wedding');
+        const month = await fetchMonthData(JULY);
+        expect(slotOf(month.days['2025-07-01'], 'test-aster', 'Evening').span).toEqual({ fullDay: true, day: 1, days: 1 });
+        expect(slotOf(month.days['2025-07-01'], 'test-grand', 'Morning').span).toBeUndefined();
+    });
+
+    it('rejects a layout without a row for the 31st', async () => {
+        await useConfig([
+            ['Test Venue', 'test', 'Aster', 'test-aster', 'B4:B33', 'C4:C33', '0', '0'],
+        ]);
+        const month = await fetchMonthData(JULY);
+        // The previous (valid) layout stays in use
+        expect(month.failedHallIds).toEqual([]);
+        expect(month.days['2025-07-01'].map(slot => slot.hallId)).toContain('test-grand');
+    });
+
+    it('checks the hall rows against the date column', async () => {
+        await useConfig([
+            ['Test Venue', 'test', 'Aster', 'test-aster', 'B4:B34', 'C4:C34', '0', '0', 'A'],
+            ['Test Venue', 'test', 'Grand', 'test-grand', 'D5:D35', 'E4:E34', '0', '0'],
+        ]);
+        const dates = Array.from({ length: 31 }, (_, index) => [index === 0 ? 'Tue 1-Jul-2025' : String(index + 1)]);
+        source.setTab(SHEET_ID, 'JUL 2025', [['Day'], [], [], ...dates]);
+
+        const month = await fetchMonthData(JULY);
+        expect(source.calls[source.calls.length - 1].ranges[0]).toBe("'JUL 2025'!A1:A35");
+        expect(month.failedHallIds).toEqual(['test-grand']);
+        expect(slotOf(month.days['2025-07-31'], 'test-aster', 'Morning').status).toBe('Available');
+        expect(slotOf(month.days['2025-07-01'], 'test-grand', 'Morning')).toMatchObject({
+            status: 'Unknown',
+            error: "Sheet layout doesn't match the config: A5 of 'JUL 2025' should be day 1 but shows '2'"
+        });
+    });
+
+    it('keeps a failed month out of the cache and retries just the failed hall', async () => {
+        source.failWith(SHEET_ID, new Error('Network request failed'));
+        const failed = await fetchMonthData(JULY);
+        expect(failed.complete).toBe(false);
+        expect(failed.failedHallIds).toEqual(['test-aster', 'test-grand']);
+        expect(slotOf(failed.days['2025-07-01'], 'test-aster', 'Morning')).toMatchObject({
+            status: 'Unknown',
+            error: 'Network request failed'
+        });
+
+        source.failWith(SHEET_ID, null);
+        const callsBefore = source.calls.length;
+        const slots = await retryHallData(JULY, 'test-aster');
+        expect(source.calls.slice(callsBefore)).toEqual([
+            { sheetId: SHEET_ID, ranges: ["'JUL 2025'!B4:B34", "'JUL 2025'!C4:C34"] }
+        ]);
+        expect(slotOf(slots, 'test-aster', 'Morning').status).toBe('Booked');
+        expect(slotOf(slots, 'test-grand', 'Morning').status).toBe('Unknown');
+
+        const month = await fetchMonthData(JULY);
+        expect(month.complete).toBe(true);
+        expect(slotOf(month.days['2025-07-01'], 'test-grand', 'Morning').status).toBe('Enquiry');
+    });
+
+    it('fills unreadable halls from the stored copy of the month', async () => {
+        // Months before last month are evicted from the store, so use next month
+        const now = new Date();
+        const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+        const { sheetName } = getSheetDetails(nextMonth);
+        source.setTab(SHEET_ID, sheetName, [[], [], [], ['', 'occ - Patil Wedding']]);
+
+        const live = await fetchMonthDataOrStored(nextMonth);
+        expect(live.stale).toBe(false);
+        // The month is stored in the background
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        source.failWith(SHEET_ID, new Error('Network request failed'));
+        const offline = await fetchMonthDataOrStored(nextMonth, { forceRefresh: true });
+        expect(offline.stale).toBe(true);
+        expect(offline.syncedAt).toBe(live.month.fetchedAt);
+        expect(offline.month.complete).toBe(false);
+        expect(offline.month.failedHallIds).toEqual(['test-aster', 'test-grand']);
+        expect(slotOf(offline.month.days[formatDate(nextMonth)], 'test-aster', 'Morning')).toMatchObject({ status: 'Booked' });
+    });
+});
+
+describe('groupDaySlots', () => {
+    const venues = bundledVenueConfig as VenueConfig;
+    const date = new Date(2025, 5, 14);
+    const slot = (hallId: string, timeSlot: TimeSlot, status: HallData['status']): HallData => ({
+        date: '2025-06-14',
+        locationId: hallId.split('-')[0],
+        location: '',
+        hallId,
+        hallName: '',
+        timeSlot,
+        status
+    });
+
+    it('puts a header before each location and its halls in config order', () => {
+        const rows = groupDaySlots([
+            slot('ravet-vyas', 'Evening', 'Booked'),
+            slot('tathawade-grand', 'Morning', 'Available'),
+            slot('ravet-vyas', 'Morning', 'Enquiry'),
+            slot('tathawade-aster', 'Evening', 'Booked'),
+            slot('tathawade-grand', 'Evening', 'Maintenance'),
+            slot('tathawade-aster', 'Morning', 'Available'),
+        ], date, venues);
+
+        expect(rows.map(row => row.hallName ? `${row.hallName} ${row.timeSlot} ${row.status}` : `# ${row.location}`)).toEqual([
+            '# GMK Banquets Tathawade',
+            'Aster Morning Available',
+            'Aster Evening Booked',
+            'Grand Morning Available',
+            'Grand Evening Maintenance',
+            '# GMK Banquets Ravet',
+            'Vyas Morning Enquiry',
+            'Vyas Evening Booked',
+        ]);
+    });
+
+    it('shows a missing slot as Unknown rather than guessing', () => {
+        const rows = groupDaySlots([slot('tathawade-tulip', 'Morning', 'Booked')], date, venues);
+        expect(rows).toHaveLength(3);
+        expect(rows[2]).toMatchObject({
+            hallId: 'tathawade-tulip',
+            timeSlot: 'Evening',
+            status: 'Unknown',
+            error: 'No data was returned for this slot'
+        });
+    });
+
+    it('lists every slot a venue adds, in its order', () => {
+        const withNight: VenueConfig = {
+            locations: [{
+                ...venues.locations[0],
+                slots: ['Morning', 'Evening', 'Night'],
+                halls: [{ ...venues.locations[0].halls[0], extraSlots: [{ name: 'Night', range: 'R4:R34' }] }]
+            }]
+        };
+        const rows = groupDaySlots([slot('tathawade-aster', 'Night', 'Booked')], date, withNight);
+        expect(rows.slice(1).map(row => `${row.timeSlot} ${row.status}`)).toEqual(['Morning Unknown', 'Evening Unknown', 'Night Booked']);
+    });
+
+    it('leaves out locations with no slots', () => {
+        expect(groupDaySlots([], date, venues)).toEqual([]);
+    });
+});
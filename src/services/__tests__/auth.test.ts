@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadSession, signOut } from '../auth';
+import { getGoogleAuth } from '../googleAuth';
+import { Session } from '../../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('signing out', () => {
+    beforeEach(async () => {
+        await AsyncStorage.clear();
+    });
+
+    it('forgets the Google account along with the session', async () => {
+        const session: Session = { username: 'priya', name: 'Priya', role: 'manager', issuedAt: Date.now(), expiresAt: Date.now() + HOUR_MS };
+        await AsyncStorage.setItem('@gmk_session', JSON.stringify(session));
+        await AsyncStorage.setItem('@gmk_google_auth', JSON.stringify({ accessToken: 'token', email: 'priya@example.com', expiresAt: Date.now() + HOUR_MS }));
+        expect(await loadSession()).toEqual(session);
+        expect(await getGoogleAuth()).toMatchObject({ email: 'priya@example.com' });
+
+        await signOut();
+        expect(await loadSession()).toBeNull();
+        expect(await getGoogleAuth()).toBeNull();
+        expect(await AsyncStorage.getItem('@gmk_google_auth')).toBeNull();
+    });
+
+    it('keeps the token from the sign-in backend and proves the session with it', async () => {
+        const originalFetch = global.fetch;
+        const originalAuthUrl = process.env.EXPO_PUBLIC_AUTH_URL;
+        const fetchMock = jest.fn(async (url: string, _init?: RequestInit) => ({
+            ok: true,
+            status: 200,
+            json: async () => url.endsWith('/login')
+                ? { username: 'priya', name: 'Priya', role: 'manager', token: 'signed-token' }
+                : { username: 'priya', name: 'Priya', role: 'sales', active: true }
+        }));
+        global.fetch = fetchMock as unknown as typeof fetch;
+        process.env.EXPO_PUBLIC_AUTH_URL = 'https://proxy.example.com';
+        try {
+            let backendAuth: typeof import('../auth') | undefined;
+            jest.isolateModules(() => {
+                backendAuth = require('../auth');
+            });
+            const session = await backendAuth!.signIn('Priya', '1234');
+            expect(session).toMatchObject({ username: 'priya', role: 'manager', token: 'signed-token' });
+
+            expect(await backendAuth!.revalidateSession(session)).toMatchObject({ role: 'sales', token: 'signed-token' });
+            expect(fetchMock).toHaveBeenLastCalledWith('https://proxy.example.com/users/priya', {
+                headers: { Authorization: 'Bearer signed-token' }
+            });
+        } finally {
+            global.fetch = originalFetch;
+            if (originalAuthUrl === undefined) {
+                delete process.env.EXPO_PUBLIC_AUTH_URL;
+            } else {
+                process.env.EXPO_PUBLIC_AUTH_URL = originalAuthUrl;
+            }
+        }
+    });
+});
@@ -0,0 +1,84 @@
+import { buildAvailabilityHtml, exportLocations, formatAvailabilityText, formatExportDate } from '../availabilityExport';
+import { groupDaySlots } from '../api';
+import { HallData, SlotStatus, VenueConfig } from '../../types';
+import bundledVenueConfig from '../../config/venues.json';
+
+const venues = bundledVenueConfig as VenueConfig;
+const DATE = new Date(2025, 5, 14);
+// 14 Jun 2025, 09:05 local time
+const SYNCED_AT = new Date(2025, 5, 14, 9, 5).getTime();
+
+const slot = (hallId: string, timeSlot: string, status: SlotStatus, extra: Partial<HallData> = {}): HallData => ({
+    date: '2025-06-14',
+    locationId: hallId.split('-')[0],
+    location: '',
+    hallId,
+    hallName: '',
+    timeSlot,
+    status,
+    ...extra
+});
+
+const rows = groupDaySlots([
+    slot('tathawade-aster', 'Morning', 'Booked', {
+        booking: { raw: 'occ - Sharma Wedding', label: 'Sharma Wedding', tentative: false },
+        span: { fullDay: true, day: 1, days: 1 }
+    }),
+    slot('tathawade-aster', 'Evening', 'Booked', {
+        booking: { raw: 'occ - Sharma Wedding', label: 'Sharma Wedding', tentative: false },
+        span: { fullDay: true, day: 1, days: 1 }
+    }),
+    slot('ravet-vyas', 'Morning', 'Available'),
+    slot('ravet-vyas', 'Evening', 'Enquiry'),
+], DATE, venues);
+
+describe('exporting a day', () => {
+    it('formats dates for customers', () => {
+        expect(formatExportDate('2025-06-14')).toBe('Sat, 14 Jun 2025');
+    });
+
+    it('groups the rows by location in the order of the results screen', () => {
+        expect(exportLocations(rows).map(location => [location.name, location.halls.map(hall => hall.slots.length)])).toEqual([
+            ['GMK Banquets Tathawade', [2]],
+            ['GMK Banquets Ravet', [2]],
+        ]);
+    });
+
+    it('writes a message without client names', () => {
+        const text = formatAvailabilityText({ days: [{ date: '2025-06-14', rows }], syncedAt: SYNCED_AT, stale: false });
+        expect(text).toBe([
+            '*GMK Banquets – Hall availability*',
+            '',
+            '*Sat, 14 Jun 2025*',
+            '',
+            '_GMK Banquets Tathawade_',
+            'Aster: Morning ❌ Booked · Evening ❌ Booked (full day)',
+            '',
+            '_GMK Banquets Ravet_',
+            'Vyas: Morning ✅ Available · Evening ⏳ On hold',
+            '',
+            'Availability as of 14 Jun 2025, 09:05. Subject to confirmation.',
+        ].join('\n'));
+        expect(text).not.toContain('Sharma');
+    });
+
+    it('says when a day has nothing to show and when the copy is offline', () => {
+        const text = formatAvailabilityText({ days: [{ date: '2025-06-15', rows: [] }], syncedAt: SYNCED_AT, stale: true });
+        expect(text).toContain('No halls to show for this date.');
+        expect(text).toContain('(offline copy)');
+    });
+
+    it('builds an HTML table per location for the PDF', () => {
+        const html = buildAvailabilityHtml({
+            days: [{ date: '2025-06-14', rows: rows.map(row => row.hallName === 'Vyas' ? { ...row, hallName: 'Vyas <Lawn>' } : row) }],
+            syncedAt: SYNCED_AT,
+            stale: false
+        });
+        expect(html).toContain('<h2>Sat, 14 Jun 2025</h2>');
+        expect(html).toContain('<h3>GMK Banquets Ravet</h3>');
+        expect(html).toContain('<tr><th>Hall</th><th>Morning</th><th>Evening</th></tr>');
+        expect(html).toContain('Booked – full day');
+        expect(html).toContain('Vyas &lt;Lawn&gt;');
+        expect(html).not.toContain('Sharma');
+    });
+});
@@ -0,0 +1,95 @@
+import { describeSpan, markBookingSpans } from '../bookingSpans';
+import { HallData, SlotStatus } from '../../types';
+
+// A month of `days` days for one hall; `cells` maps "day slot" (e.g. "3 Evening") to the status and label written there
+const monthOf = (days: number, cells: Record<string, [SlotStatus, string?]>, timeSlots = ['Morning', 'Evening']) => {
+    const month: Record<string, HallData[]> = {};
+    for (let day = 1; day <= days; day++) {
+        const date = `2025-06-${String(day).padStart(2, '0')}`;
+        month[date] = timeSlots.map(timeSlot => {
+            const [status, label] = cells[`${day} ${timeSlot}`] || ['Available'];
+            return {
+                date,
+                locationId: 'tathawade',
+                location: 'Tathawade',
+                hallId: 'tathawade-aster',
+                hallName: 'Aster',
+                timeSlot,
+                status,
+                ...(label ? { booking: { raw: `occ - ${label}`, label, tentative: false } } : {})
+            };
+        });
+    }
+    return month;
+};
+
+const spanAt = (month: Record<string, HallData[]>, day: number, timeSlot: string) =>
+    month[`2025-06-${String(day).padStart(2, '0')}`].find(slot => slot.timeSlot === timeSlot)?.span;
+
+describe('markBookingSpans', () => {
+    it('marks a booking written in every slot of the day as full day', () => {
+        const month = markBookingSpans(monthOf(3, {
+            '2 Morning': ['Booked', 'Sharma Wedding'],
+            '2 Evening': ['Booked', 'sharma  wedding'],
+        }));
+        expect(spanAt(month, 2, 'Morning')).toEqual({ fullDay: true, day: 1, days: 1 });
+        expect(spanAt(month, 2, 'Evening')).toEqual({ fullDay: true, day: 1, days: 1 });
+        expect(spanAt(month, 1, 'Morning')).toBeUndefined();
+    });
+
+    it('counts the days of a booking on consecutive days', () => {
+        const month = markBookingSpans(monthOf(5, {
+            '2 Evening': ['Booked', 'Patil Wedding day 1'],
+            '3 Morning': ['Booked', 'Patil Wedding day 2'],
+            '3 Evening': ['Booked', 'Patil Wedding (day 2 of 3)'],
+            '4 Morning': ['Enquiry', 'Patil Wedding'],
+        }));
+        expect(spanAt(month, 2, 'Evening')).toEqual({ fullDay: false, day: 1, days: 3 });
+        expect(spanAt(month, 3, 'Morning')).toEqual({ fullDay: true, day: 2, days: 3 });
+        expect(spanAt(month, 4, 'Morning')).toEqual({ fullDay: false, day: 3, days: 3 });
+        expect(spanAt(month, 5, 'Morning')).toBeUndefined();
+    });
+
+    it('needs every slot of the venue for a full day', () => {
+        const month = markBookingSpans(monthOf(1, {
+            '1 Morning': ['Booked', 'Rao Reception'],
+            '1 Evening': ['Booked', 'Rao Reception'],
+        }, ['Morning', 'Evening', 'Night']));
+        expect(spanAt(month, 1, 'Morning')).toBeUndefined();
+    });
+
+    it('does not link plain or differently labelled bookings', () => {
+        const month = markBookingSpans(monthOf(2, {
+            '1 Morning': ['Booked'],
+            '1 Evening': ['Booked'],
+            '2 Morning': ['Booked', 'Joshi Engagement'],
+            '2 Evening': ['Booked', 'Kulkarni Reception'],
+        }));
+        Object.values(month).flat().forEach(slot => expect(slot.span).toBeUndefined());
+    });
+
+    it('clears a span once the cells no longer match', () => {
+        const marked = markBookingSpans(monthOf(1, {
+            '1 Morning': ['Booked', 'Sharma Wedding'],
+            '1 Evening': ['Booked', 'Sharma Wedding'],
+        }));
+        marked['2025-06-01'][1] = { ...marked['2025-06-01'][1], status: 'Available', booking: undefined };
+        expect(spanAt(markBookingSpans(marked), 1, 'Morning')).toBeUndefined();
+    });
+});
+
+describe('describeSpan', () => {
+    const slot = (span: HallData['span']): HallData => ({
+        date: '2025-06-02', locationId: 'tathawade', location: 'Tathawade', hallId: 'tathawade-aster', hallName: 'Aster',
+        timeSlot: 'Morning', status: 'Booked', span
+    });
+
+    it.each([
+        [{ fullDay: true, day: 1, days: 1 }, 'Booked – full day'],
+        [{ fullDay: false, day: 2, days: 3 }, 'Day 2 of 3'],
+        [{ fullDay: true, day: 1, days: 2 }, 'Booked – full day · Day 1 of 2'],
+        [undefined, null],
+    ])('describes %p as %p', (span, text) => {
+        expect(describeSpan(slot(span))).toBe(text);
+    });
+});
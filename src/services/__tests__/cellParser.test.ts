@@ -0,0 +1,106 @@
+import { formatCellValue, parseBookingText, parseCellValue } from '../cellParser';
+import { SlotStatus } from '../../types';
+
+describe('parseCellValue', () => {
+    it.each([
+        ['', 'Available'],
+        ['vac', 'Available'],
+        ['vacc', 'Available'],
+        ['vacant', 'Available'],
+        ['free', 'Available'],
+        ['-', 'Available'],
+        ['  VAC ', 'Available'],
+        ['occ', 'Booked'],
+        ['Occupied', 'Booked'],
+        ['booked', 'Booked'],
+        ['hold', 'Enquiry'],
+        ['tentative', 'Enquiry'],
+        ['maintenance', 'Maintenance'],
+        ['Renovation', 'Maintenance'],
+    ])('reads the token %p as %s', (value, status) => {
+        const parsed = parseCellValue(value);
+        expect(parsed.status).toBe(status);
+        expect(parsed.recognized).toBe(true);
+        expect(parsed.booking).toBeUndefined();
+    });
+
+    it('reads a status token in front of a client name as recognized', () => {
+        expect(parseCellValue('occ - Sharma Wedding')).toMatchObject({
+            status: 'Booked',
+            recognized: true,
+            booking: { label: 'Sharma Wedding', eventType: 'Wedding', tentative: false }
+        });
+        expect(parseCellValue('hold - Joshi')).toMatchObject({
+            status: 'Enquiry',
+            recognized: true,
+            booking: { label: 'Joshi', tentative: true }
+        });
+    });
+
+    it('treats free text as a booking, flagged as unrecognized', () => {
+        expect(parseCellValue('Patil - Reception (advance paid)')).toMatchObject({
+            status: 'Booked',
+            recognized: false,
+            booking: { label: 'Patil', eventType: 'Reception', notes: 'advance paid' }
+        });
+    });
+
+    it('treats tentative free text as an enquiry', () => {
+        expect(parseCellValue('Joshi engagement?')).toMatchObject({
+            status: 'Enquiry',
+            recognized: false,
+            booking: { eventType: 'Engagement', tentative: true }
+        });
+    });
+
+    it('reports a missing cell as Unknown with a reason', () => {
+        const parsed = parseCellValue(undefined);
+        expect(parsed.status).toBe('Unknown');
+        expect(parsed.error).toMatch(/no cell/i);
+    });
+
+    it('checks the location vocabulary before the defaults', () => {
+        const vocabulary = [
+            { match: 'vac', status: 'Maintenance' as SlotStatus },
+            { match: '^blk\\b', regex: true, status: 'Booked' as SlotStatus },
+        ];
+        expect(parseCellValue('vac', vocabulary).status).toBe('Maintenance');
+        expect(parseCellValue('blk - Rao', vocabulary)).toMatchObject({ status: 'Booked', recognized: true, booking: { raw: 'blk - Rao' } });
+        expect(parseCellValue('occ', vocabulary).status).toBe('Booked');
+    });
+});
+
+describe('parseBookingText', () => {
+    it('splits notes in brackets from the label', () => {
+        expect(parseBookingText('Rao [decorator: Mehta] (half paid)')).toMatchObject({
+            label: 'Rao',
+            notes: 'decorator: Mehta; half paid'
+        });
+    });
+
+    it('falls back to the event type when there is no client', () => {
+        expect(parseBookingText('occ - Wedding')).toMatchObject({ label: 'Wedding', eventType: 'Wedding' });
+    });
+});
+
+describe('formatCellValue', () => {
+    it.each([
+        ['Available', undefined, 'vac'],
+        ['Booked', 'Sharma Wedding', 'occ - Sharma Wedding'],
+        ['Booked', '  ', 'occ'],
+        ['Enquiry', 'Joshi', 'hold - Joshi'],
+        ['Maintenance', 'ignored', 'maintenance'],
+    ] as Array<[SlotStatus, string | undefined, string]>)('writes %s with note %p as %p', (status, note, expected) => {
+        expect(formatCellValue(status, note)).toBe(expected);
+    });
+
+    it.each(['Available', 'Booked', 'Enquiry', 'Maintenance'] as SlotStatus[])('reads %s back as the same recognized status', status => {
+        const parsed = parseCellValue(formatCellValue(status, 'Kulkarni'));
+        expect(parsed.status).toBe(status);
+        expect(parsed.recognized).toBe(true);
+    });
+
+    it('refuses to write Unknown', () => {
+        expect(() => formatCellValue('Unknown')).toThrow();
+    });
+});
@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    annotationsFor,
+    clearDateAnnotationCache,
+    describeAnnotations,
+    getDateAnnotationCoverage,
+    getDateAnnotations,
+    isMuhurat,
+    loadDateAnnotations,
+    onDateAnnotationsChange,
+    parseDateAnnotationRows,
+    validateDateAnnotations
+} from '../dateAnnotations';
+import { setAvailabilitySource } from '../availabilitySource';
+import { createMockSource, MockSource } from '../mockSource';
+import { CONFIG_SHEET_ID } from '../venueConfig';
+import { hallRentLines } from '../quotes';
+import { DateAnnotation, QuoteSlot, VenueConfig } from '../../types';
+
+const HEADER = ['Name', 'Date', 'Kind'];
+
+const ANNOTATIONS: DateAnnotation[] = [
+    { date: '2026-11-08', kind: 'festival', name: 'Diwali (Lakshmi Puja)' },
+    { date: '2026-11-08', kind: 'muhurat', name: 'Vivah muhurat' },
+    { date: '2026-11-21', kind: 'muhurat', name: 'Vivah muhurat' },
+];
+
+describe('date annotations', () => {
+    let source: MockSource;
+
+    beforeEach(async () => {
+        clearDateAnnotationCache();
+        await AsyncStorage.clear();
+        source = createMockSource({ generateMonths: false, generateUsers: false });
+        setAvailabilitySource(source);
+    });
+
+    it('lists a day\'s notes with muhurats first', () => {
+        expect(annotationsFor('2026-11-08', ANNOTATIONS).map(entry => entry.kind)).toEqual(['muhurat', 'festival']);
+        expect(describeAnnotations('2026-11-08', ANNOTATIONS)).toBe('Vivah muhurat · Diwali (Lakshmi Puja)');
+        expect(describeAnnotations('2026-11-09', ANNOTATIONS)).toBe('');
+        expect(isMuhurat('2026-11-21', ANNOTATIONS)).toBe(true);
+        expect(isMuhurat('2026-11-22', ANNOTATIONS)).toBe(false);
+    });
+
+    it('reads the dates tab', () => {
+        const parsed = parseDateAnnotationRows([
+            HEADER,
+            ['Vivah muhurat', '21/11/2026', ''],
+            ['Diwali', '2026-11-08', 'Festival'],
+            ['', '', ''],
+            ['Republic Day', '31/11/2026', 'Holiday'],
+            ['Navratri', '2026-10-11', 'Fast'],
+        ]);
+        expect(parsed.dates.slice(0, 2)).toEqual([
+            { date: '2026-11-21', kind: 'muhurat', name: 'Vivah muhurat' },
+            { date: '2026-11-08', kind: 'festival', name: 'Diwali' },
+        ]);
+        expect(validateDateAnnotations(parsed).errors).toEqual([
+            'Republic Day: "date" must be a date like 2026-11-21 (got "2026-11-31")',
+            'Navratri: "kind" must be muhurat, festival or holiday (got "fast")',
+        ]);
+        expect(() => parseDateAnnotationRows([['Date', 'Kind']])).toThrow("Dates tab 'DATES' is missing column(s): name");
+    });
+
+    it('knows which days a list covers', () => {
+        expect(getDateAnnotationCoverage()).toEqual({ from: '2026-10-01', to: '2027-12-31' });
+
+        const stated = parseDateAnnotationRows([
+            [...HEADER, 'From', 'To'],
+            ['Vivah muhurat', '21/11/2026', '', '', ''],
+            ['Republic Day', '26/01/2027', 'Holiday', '01/11/2026', '31/03/2027'],
+        ]);
+        expect(stated).toMatchObject({ from: '2026-11-01', to: '2027-03-31' });
+        expect(validateDateAnnotations(stated).coverage).toEqual({ from: '2026-11-01', to: '2027-03-31' });
+        expect(validateDateAnnotations({ dates: ANNOTATIONS }).coverage).toEqual({ from: '2026-01-01', to: '2026-12-31' });
+        expect(validateDateAnnotations({ from: '2026-11-10', dates: ANNOTATIONS }).errors).toEqual([
+            "Diwali (Lakshmi Puja): 2026-11-08 is outside the list's 2026-11-10 to 2026-12-31",
+            "Vivah muhurat: 2026-11-08 is outside the list's 2026-11-10 to 2026-12-31",
+        ]);
+    });
+
+    it('uses the tab when there is one and keeps the last good copy when it breaks', async () => {
+        expect(await loadDateAnnotations()).toBe(getDateAnnotations());
+        expect(getDateAnnotations().length).toBeGreaterThan(0); // No tab: the bundled list
+
+        source.setTab(CONFIG_SHEET_ID, 'DATES', [HEADER, ['Vivah muhurat', '21/11/2026', 'Muhurat']]);
+        expect(await loadDateAnnotations({ forceRefresh: true })).toEqual([{ date: '2026-11-21', kind: 'muhurat', name: 'Vivah muhurat' }]);
+
+        clearDateAnnotationCache();
+        source.setTab(CONFIG_SHEET_ID, 'DATES', [HEADER, ['Vivah muhurat', 'soon', 'Muhurat']]);
+        expect(await loadDateAnnotations()).toEqual([{ date: '2026-11-21', kind: 'muhurat', name: 'Vivah muhurat' }]);
+    });
+
+    it('tells listeners when a newly read list differs from the one in use', async () => {
+        const listener = jest.fn();
+        const unsubscribe = onDateAnnotationsChange(listener);
+        source.setTab(CONFIG_SHEET_ID, 'DATES', [HEADER, ['Vivah muhurat', '21/11/2026', 'Muhurat']]);
+        await loadDateAnnotations({ forceRefresh: true });
+        await loadDateAnnotations({ forceRefresh: true });
+        unsubscribe();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith([{ date: '2026-11-21', kind: 'muhurat', name: 'Vivah muhurat' }]);
+    });
+
+    it('adds the muhurat surcharge to the hall rent on muhurat dates', async () => {
+        source.setTab(CONFIG_SHEET_ID, 'DATES', [HEADER, ['Vivah muhurat', '2026-11-24', 'Muhurat']]);
+        await loadDateAnnotations({ forceRefresh: true });
+        const config: VenueConfig = {
+            locations: [{
+                id: 'ravet',
+                name: 'GMK Banquets Ravet',
+                sheetId: 'sheet',
+                halls: [{
+                    id: 'ravet-lawn',
+                    name: 'Lawn',
+                    morningRange: 'P4:P34',
+                    eveningRange: 'P4:P34',
+                    details: { pricing: { basePrice: 100000, muhuratSurchargePercent: 20 } }
+                }]
+            }]
+        };
+        const slot = (date: string): QuoteSlot => ({
+            locationId: 'ravet', location: 'GMK Banquets Ravet', hallId: 'ravet-lawn', hallName: 'Lawn', date, timeSlot: 'Evening'
+        });
+        expect(hallRentLines(slot('2026-11-24'), config)).toEqual([
+            { description: 'Lawn hall rent – Evening', quantity: 1, unitPrice: 100000, amount: 100000 },
+            { description: 'Muhurat surcharge (20%)', quantity: 1, unitPrice: 20000, amount: 20000 },
+        ]);
+        expect(hallRentLines(slot('2026-11-25'), config)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,193 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    applyEnquiries,
+    clearEnquiryCache,
+    convertEnquiry,
+    createEnquiry,
+    dueFollowUps,
+    loadEnquiries,
+    markEnquiryLost,
+    NewEnquiry,
+    onEnquiriesChange,
+    scheduleFollowUp
+} from '../enquiries';
+import { clearMonthCache } from '../api';
+import { setAvailabilitySource } from '../availabilitySource';
+import { clearHoldCache } from '../holds';
+import { createMockSource } from '../mockSource';
+import { loadVenueConfig } from '../venueConfig';
+import { EnquirySlot, HallData, SlotStatus } from '../../types';
+
+// 10 Jun 2025, 11:00 local time
+const NOW = new Date(2025, 5, 10, 11, 0).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const requested = (date: string, timeSlot: string, hallId: string = 'tathawade-aster'): EnquirySlot => ({
+    locationId: hallId.split('-')[0],
+    hallId,
+    hallName: 'Aster',
+    date,
+    timeSlot
+});
+
+const input = (extra: Partial<NewEnquiry> = {}): NewEnquiry => ({
+    customerName: ' Sharma ',
+    phone: '+91 98765 43210',
+    eventType: 'Wedding',
+    guestCount: 400,
+    slots: [requested('2025-06-20', 'Evening')],
+    ...extra
+});
+
+const slot = (date: string, timeSlot: string, status: SlotStatus, hallId: string = 'tathawade-aster'): HallData => ({
+    date,
+    locationId: hallId.split('-')[0],
+    location: 'GMK Banquets Tathawade',
+    hallId,
+    hallName: 'Aster',
+    timeSlot,
+    status
+});
+
+describe('enquiries', () => {
+    beforeEach(async () => {
+        clearEnquiryCache();
+        await AsyncStorage.clear();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('logs an enquiry with a follow-up and an expiry', async () => {
+        const enquiry = await createEnquiry(input(), 'priya', NOW);
+        expect(enquiry).toMatchObject({
+            customerName: 'Sharma',
+            status: 'open',
+            createdBy: 'priya',
+            followUpAt: NOW + 2 * DAY_MS,
+            expiresAt: NOW + 7 * DAY_MS
+        });
+        expect(enquiry.id).toMatch(/^E250610-[0-9A-Z]{4}$/);
+    });
+
+    it('expires at the end of the last requested day when that comes first', async () => {
+        const enquiry = await createEnquiry(input({ slots: [requested('2025-06-11', 'Morning')] }), 'priya', NOW);
+        expect(enquiry.expiresAt).toBe(new Date(2025, 5, 12).getTime() - 1);
+        expect(enquiry.followUpAt).toBe(enquiry.expiresAt);
+    });
+
+    it.each([
+        [{ customerName: '  ' }, "Enter the customer's name."],
+        [{ phone: '12345' }, 'Enter a phone number of 10 to 13 digits.'],
+        [{ guestCount: 0 }, 'The guest count must be a whole number above zero.'],
+        [{ slots: [] }, 'Pick at least one hall slot the customer is asking about.'],
+        [{ slots: [requested('2025-06-09', 'Evening')] }, 'Enquiries can only be logged for today or later.'],
+    ])('rejects %p', async (change, message) => {
+        await expect(createEnquiry(input(change), 'priya', NOW)).rejects.toThrow(message);
+    });
+
+    it('keeps enquiries on the device and notifies listeners', async () => {
+        const listener = jest.fn();
+        const unsubscribe = onEnquiriesChange(listener);
+        const enquiry = await createEnquiry(input(), 'priya', NOW);
+        unsubscribe();
+        expect(listener).toHaveBeenCalledWith([enquiry]);
+
+        clearEnquiryCache();
+        expect(await loadEnquiries(NOW)).toEqual([enquiry]);
+    });
+
+    it('expires open enquiries once their time is up', async () => {
+        const enquiry = await createEnquiry(input(), 'priya', NOW);
+        const later = NOW + 8 * DAY_MS;
+        expect(await loadEnquiries(later)).toEqual([{ ...enquiry, status: 'expired', followUpAt: null, updatedAt: later }]);
+    });
+
+    it('shows free slots with an open enquiry as Enquiry, and frees them again', async () => {
+        const enquiry = await createEnquiry(input({
+            slots: [requested('2025-06-20', 'Morning'), requested('2025-06-20', 'Evening')]
+        }), 'priya', NOW);
+        const day = [slot('2025-06-20', 'Morning', 'Available'), slot('2025-06-20', 'Evening', 'Booked'), slot('2025-06-21', 'Morning', 'Available')];
+
+        const marked = applyEnquiries(day, [enquiry], NOW);
+        expect(marked.map(item => [item.status, item.enquiryIds])).toEqual([
+            ['Enquiry', [enquiry.id]],
+            ['Booked', undefined],
+            ['Available', undefined],
+        ]);
+        expect(marked[1]).toBe(day[1]);
+
+        const lost = await markEnquiryLost(enquiry.id, NOW);
+        expect(applyEnquiries(marked, [lost], NOW)).toEqual(day);
+        expect(applyEnquiries(marked, [enquiry], NOW + 8 * DAY_MS)).toEqual(day);
+    });
+
+    it('lists follow-ups due by the end of today, most overdue first', async () => {
+        const first = await createEnquiry(input({ customerName: 'Joshi' }), 'priya', NOW - 3 * DAY_MS);
+        const second = await createEnquiry(input({ customerName: 'Patil' }), 'priya', NOW - 2 * DAY_MS);
+        const notYet = await createEnquiry(input({ customerName: 'Kulkarni' }), 'priya', NOW);
+        expect(dueFollowUps([notYet, second, first], NOW).map(enquiry => enquiry.customerName)).toEqual(['Joshi', 'Patil']);
+
+        const moved = await scheduleFollowUp(first.id, NOW + DAY_MS, NOW);
+        expect(dueFollowUps([notYet, second, moved], NOW).map(enquiry => enquiry.customerName)).toEqual(['Patil']);
+    });
+
+    it('closes an enquiry as booked without touching the sheet', async () => {
+        jest.useFakeTimers({ now: NOW });
+        const enquiry = await createEnquiry(input(), 'priya', NOW);
+        const result = await convertEnquiry(enquiry.id, 'priya');
+        expect(result.enquiry.status).toBe('converted');
+        expect(result.enquiry.followUpAt).toBeNull();
+        await expect(markEnquiryLost(enquiry.id)).resolves.toMatchObject({ status: 'lost' });
+        await expect(convertEnquiry(enquiry.id, 'priya')).rejects.toThrow('This enquiry is already lost.');
+    });
+
+    it('says the sheet could not be reached instead of blaming the config when a read fails', async () => {
+        jest.useFakeTimers({ now: NOW });
+        clearMonthCache();
+        const source = createMockSource({ generateUsers: false });
+        source.failWith('1pMiOb9hvvUdvuK0Hxt0Pa1lBF2JdYCvPZ6WdHxZPegk', new Error('Network request failed'));
+        setAvailabilitySource(source);
+
+        const enquiry = await createEnquiry(input({
+            slots: [requested('2025-06-20', 'Evening'), requested('2025-06-20', 'Evening', 'tathawade-gone')]
+        }), 'priya', NOW);
+        const result = await convertEnquiry(enquiry.id, 'priya', { writeToSheet: true });
+        expect(result.booked).toEqual([]);
+        expect(result.notBooked.map(entry => entry.reason)).toEqual([
+            "Couldn't reach the sheet; try again.",
+            'The hall is no longer in the venue config.',
+        ]);
+        expect(result.enquiry.status).toBe('open');
+    });
+
+    it('reads each month once and leaves a slot someone else is holding', async () => {
+        jest.useFakeTimers({ now: NOW });
+        clearMonthCache();
+        clearHoldCache();
+        const sheetId = '1pMiOb9hvvUdvuK0Hxt0Pa1lBF2JdYCvPZ6WdHxZPegk';
+        const source = createMockSource({ generateMonths: false, generateUsers: false });
+        // An empty June, and a hold on the 20th placed on another device
+        source.setTab(sheetId, 'JUN 2025', [[], [], [], ...Array.from({ length: 30 }, (_, index) => [String(index + 1)])]);
+        source.setTab(sheetId, 'HOLDS', [
+            ['ID', 'Location ID', 'Hall ID', 'Hall', 'Date', 'Slot', 'Customer', 'Note', 'Held by', 'Placed', 'Expires', 'Status', 'Released by', 'Updated'],
+            ['H250610-AB12', 'tathawade', 'tathawade-aster', 'Aster', '2025-06-20', 'Evening', 'Joshi', '', 'rahul',
+                new Date(NOW).toISOString(), new Date(NOW + DAY_MS).toISOString(), 'active', '', new Date(NOW).toISOString()]
+        ]);
+        setAvailabilitySource(source);
+        await loadVenueConfig({ forceRefresh: true });
+
+        const enquiry = await createEnquiry(input({
+            slots: [requested('2025-06-20', 'Evening'), requested('2025-06-21', 'Evening')]
+        }), 'priya', NOW);
+        const result = await convertEnquiry(enquiry.id, 'priya', { writeToSheet: true });
+
+        expect(source.calls.filter(call => call.ranges.some(range => range.includes('JUN 2025')))).toHaveLength(1);
+        expect(result.booked).toEqual([]);
+        expect(result.notBooked.map(entry => entry.reason)).toEqual([
+            'Held for Joshi by rahul (1d 0h left).',
+            'Sign in with Google to change slots.',
+        ]);
+    });
+});
@@ -0,0 +1,121 @@
+import {
+    describeHallDetails,
+    describeSlotPrices,
+    filterByRequirements,
+    formatPrice,
+    hallsRuledOut,
+    priceSlot,
+    uncheckedRequirements
+} from '../hallDetails';
+import { parseVenueConfigRows, validateVenueConfig } from '../venueConfig';
+import { HallData, HallDetails, HallPricing, VenueConfig } from '../../types';
+
+const PRICING: HallPricing = {
+    basePrice: 100000,
+    slotPrices: { Evening: 150000 },
+    weekendSurchargePercent: 10,
+    muhuratSurchargePercent: 20
+};
+
+const hall = (id: string, name: string, column: string, details?: HallDetails) => ({
+    id,
+    name,
+    morningRange: `${column}4:${column}34`,
+    eveningRange: `${column}4:${column}34`,
+    ...(details ? { details } : {})
+});
+
+const config: VenueConfig = {
+    locations: [{
+        id: 'ravet',
+        name: 'GMK Banquets Ravet',
+        sheetId: 'sheet',
+        halls: [
+            hall('ravet-vyas', 'Vyas', 'N', { seatingCapacity: 150, pricing: { basePrice: 60000 } }),
+            hall('ravet-lawn', 'Lawn', 'P', { seatingCapacity: 500, floatingCapacity: 800, pricing: PRICING }),
+            hall('ravet-agastya', 'Agastya', 'L'),
+        ]
+    }]
+};
+
+const slot = (hallId: string, timeSlot: string, date: string = '2025-06-11'): HallData => ({
+    date,
+    locationId: 'ravet',
+    location: 'GMK Banquets Ravet',
+    hallId,
+    hallName: hallId,
+    timeSlot,
+    status: 'Available'
+});
+
+const DAY = ['ravet-vyas', 'ravet-lawn', 'ravet-agastya'].flatMap(hallId => [slot(hallId, 'Morning'), slot(hallId, 'Evening')]);
+const hallIds = (slots: HallData[]) => [...new Set(slots.map(item => item.hallId))];
+
+describe('hall details', () => {
+    it('formats rupees with Indian digit grouping', () => {
+        expect(formatPrice(120000)).toBe('₹1,20,000');
+        expect(formatPrice(12500000)).toBe('₹1,25,00,000');
+        expect(formatPrice(950)).toBe('₹950');
+    });
+
+    it('describes capacity and amenities', () => {
+        expect(describeHallDetails({ seatingCapacity: 500, floatingCapacity: 800, setting: 'outdoor', airConditioned: false, parking: 120 }))
+            .toBe('Seats 500 · Floating 800 · Outdoor · Non-AC · Parking 120');
+        expect(describeHallDetails(undefined)).toBe('');
+    });
+
+    it('prices a slot with weekend and muhurat surcharges', () => {
+        expect(priceSlot(PRICING, 'Morning', '2025-06-11')).toEqual({ basePrice: 100000, weekendSurcharge: 0, muhuratSurcharge: 0, total: 100000 });
+        expect(priceSlot(PRICING, 'Evening', '2025-06-14', { muhurat: true }))
+            .toEqual({ basePrice: 150000, weekendSurcharge: 15000, muhuratSurcharge: 30000, total: 195000 });
+        expect(describeSlotPrices(PRICING, ['Morning', 'Evening'], '2025-06-11')).toBe('Morning ₹1,00,000 · Evening ₹1,50,000');
+        expect(describeSlotPrices({ basePrice: 60000 }, ['Morning', 'Evening'], '2025-06-11')).toBe('₹60,000 per slot');
+    });
+
+    it('keeps halls that fit the guests and budget, and halls without the figures', () => {
+        expect(filterByRequirements(DAY, {}, config)).toBe(DAY);
+        expect(hallIds(filterByRequirements(DAY, { guestCount: 600 }, config))).toEqual(['ravet-lawn', 'ravet-agastya']);
+        expect(hallIds(filterByRequirements(DAY, { maxBudget: 80000 }, config))).toEqual(['ravet-vyas', 'ravet-agastya']);
+        // The Lawn's morning fits the budget even though its evening doesn't
+        expect(hallIds(filterByRequirements(DAY, { guestCount: 300, maxBudget: 100000 }, config))).toEqual(['ravet-lawn', 'ravet-agastya']);
+        expect(hallIds(filterByRequirements(DAY.filter(item => item.timeSlot === 'Evening'), { maxBudget: 100000 }, config)))
+            .toEqual(['ravet-vyas', 'ravet-agastya']);
+    });
+
+    it('names the halls it hides and says what it could not check', () => {
+        expect(hallsRuledOut(DAY, {}, config)).toEqual([]);
+        expect(hallsRuledOut(DAY, { guestCount: 300, maxBudget: 100000 }, config).map(item => item.name)).toEqual(['Vyas']);
+
+        const agastya = config.locations[0].halls[2];
+        expect(uncheckedRequirements(agastya.details, { guestCount: 300, maxBudget: 100000 })).toBe('capacity and price');
+        expect(uncheckedRequirements(agastya.details, { maxBudget: 100000 })).toBe('price');
+        expect(uncheckedRequirements(agastya.details, {})).toBe('');
+        expect(uncheckedRequirements({ floatingCapacity: 800 }, { guestCount: 300 })).toBe('');
+    });
+
+    it('reads details from the config tab and validates them', () => {
+        const parsed = parseVenueConfigRows([
+            ['Location', 'Hall', 'Morning Range', 'Evening Range', 'Seating', 'Floating', 'Setting', 'AC', 'Parking', 'Base Price', 'Evening Price', 'Weekend Surcharge %'],
+            ['GMK Banquets Ravet', 'Lawn', 'P4:P34', 'Q4:Q34', '500', '800', 'Outdoor', 'no', '120', '₹1,00,000', '1,50,000', '10%'],
+            ['GMK Banquets Ravet', 'Vyas', 'N4:N34', 'O4:O34', '150', '', '', '', '', '', '', ''],
+            ['GMK Banquets Ravet', 'Agastya', 'L4:L34', 'M4:M34', 'lots', '', 'indoors', 'maybe', '', '', '', ''],
+        ], 'sheet');
+
+        const [lawn, vyas, agastya] = parsed.locations[0].halls;
+        expect(lawn.details).toEqual({
+            seatingCapacity: 500,
+            floatingCapacity: 800,
+            setting: 'outdoor',
+            airConditioned: false,
+            parking: 120,
+            pricing: { basePrice: 100000, slotPrices: { Evening: 150000 }, weekendSurchargePercent: 10 }
+        });
+        expect(vyas.details).toEqual({ seatingCapacity: 150 });
+        expect(validateVenueConfig(parsed).errors).toEqual([
+            'GMK Banquets Ravet - Agastya: "details.seatingCapacity" must be a whole number (got "lots")',
+            'GMK Banquets Ravet - Agastya: "details.setting" must be indoor or outdoor (got "indoors")',
+            'GMK Banquets Ravet - Agastya: "details.airConditioned" must be true or false (got "maybe")',
+        ]);
+        expect(agastya.details?.pricing).toBeUndefined();
+    });
+});
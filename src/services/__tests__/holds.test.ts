@@ -0,0 +1,198 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setAvailabilitySource } from '../availabilitySource';
+import { createMockSource, MockSource } from '../mockSource';
+import { getVenueConfig } from '../venueConfig';
+import { applyEnquiries, clearEnquiryCache, createEnquiry } from '../enquiries';
+import {
+    applyHolds,
+    clearHoldCache,
+    formatTimeLeft,
+    holdPresets,
+    loadHolds,
+    onHoldsChange,
+    parseHoldRows,
+    placeHold,
+    readSheetHolds,
+    refreshSheetHolds,
+    releaseHold
+} from '../holds';
+import { HallData, SlotStatus } from '../../types';
+
+// Wed 11 Jun 2025, 11:00 local time
+const NOW = new Date(2025, 5, 11, 11, 0).getTime();
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const slot = (timeSlot: string, status: SlotStatus, date: string = '2025-06-14'): HallData => ({
+    date,
+    locationId: 'tathawade',
+    location: 'GMK Banquets Tathawade',
+    hallId: 'tathawade-grand',
+    hallName: 'Grand',
+    timeSlot,
+    status
+});
+
+const HEADER = ['ID', 'Location ID', 'Hall ID', 'Hall', 'Date', 'Slot', 'Customer', 'Note', 'Held by', 'Placed', 'Expires', 'Status', 'Released by', 'Updated'];
+
+const sheetRow = (id: string, timeSlot: string, status: string, expiresAt: number) => [
+    id, 'tathawade', 'tathawade-grand', 'Grand', '2025-06-14', timeSlot, 'Joshi', '', 'rahul',
+    new Date(NOW - HOUR_MS).toISOString(), new Date(expiresAt).toISOString(), status, '', new Date(NOW - HOUR_MS).toISOString()
+];
+
+describe('holds', () => {
+    let source: MockSource;
+
+    beforeEach(async () => {
+        clearHoldCache();
+        clearEnquiryCache();
+        await AsyncStorage.clear();
+        source = createMockSource({ generateMonths: false, generateUsers: false });
+        setAvailabilitySource(source);
+        jest.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('holds a free slot until the chosen time and keeps it on the device', async () => {
+        const listener = jest.fn();
+        const unsubscribe = onHoldsChange(listener);
+        const hold = await placeHold(slot('Evening', 'Available'), { customerName: ' Sharma ', expiresAt: NOW + DAY_MS }, 'priya');
+        unsubscribe();
+
+        expect(hold).toMatchObject({ customerName: 'Sharma', heldBy: 'priya', status: 'active', expiresAt: NOW + DAY_MS });
+        expect(hold.id).toMatch(/^H250611-[0-9A-Z]{4}$/);
+        expect(listener).toHaveBeenLastCalledWith([hold]);
+
+        clearHoldCache();
+        expect(await loadHolds()).toEqual([hold]);
+    });
+
+    it.each([
+        [{ customerName: '' }, "Enter the customer's name."],
+        [{ expiresAt: NOW - 1 }, 'Pick a time in the future.'],
+        [{ expiresAt: NOW + 8 * DAY_MS }, 'Holds can last at most 7 days.'],
+        [{ expiresAt: new Date(2025, 5, 15, 9).getTime() }, 'A hold has to end by the day of the slot.'],
+    ])('rejects %p', async (change, message) => {
+        await expect(placeHold(slot('Evening', 'Available'), { customerName: 'Sharma', expiresAt: NOW + DAY_MS, ...change }, 'priya'))
+            .rejects.toThrow(message);
+    });
+
+    it('only holds slots that are free in the sheet', async () => {
+        await expect(placeHold(slot('Evening', 'Booked'), { customerName: 'Sharma', expiresAt: NOW + DAY_MS }, 'priya'))
+            .rejects.toThrow("Grand Evening is Booked in the sheet, so it can't be held.");
+    });
+
+    it('shows held slots as Enquiry and frees them when released', async () => {
+        const day = [slot('Morning', 'Available'), slot('Evening', 'Available')];
+        const hold = await placeHold(day[1], { customerName: 'Sharma', expiresAt: NOW + DAY_MS }, 'priya');
+
+        const held = applyHolds(day, await loadHolds());
+        expect(held.map(item => [item.status, item.hold?.id])).toEqual([['Available', undefined], ['Enquiry', hold.id]]);
+        expect(held[0]).toBe(day[0]);
+
+        await releaseHold(hold.id, 'priya');
+        expect(await loadHolds()).toEqual([]);
+        expect(applyHolds(held, [])).toEqual(day);
+    });
+
+    it('keeps a slot as Enquiry while an enquiry is still open on it', async () => {
+        const enquiry = await createEnquiry({
+            customerName: 'Patil',
+            phone: '9876543210',
+            slots: [{ locationId: 'tathawade', hallId: 'tathawade-grand', hallName: 'Grand', date: '2025-06-14', timeSlot: 'Evening' }]
+        }, 'priya');
+        const hold = await placeHold(slot('Evening', 'Available'), { customerName: 'Sharma', expiresAt: NOW + DAY_MS }, 'priya');
+
+        const marked = applyHolds(applyEnquiries([slot('Evening', 'Available')], [enquiry]), [hold]);
+        expect(marked[0]).toMatchObject({ status: 'Enquiry', enquiryIds: [enquiry.id], hold });
+        expect(applyHolds(marked, [])[0]).toMatchObject({ status: 'Enquiry', enquiryIds: [enquiry.id] });
+        expect(applyEnquiries(applyHolds(marked, []), [])[0]).toEqual(slot('Evening', 'Available'));
+    });
+
+    it('releases holds that run out', async () => {
+        const hold = await placeHold(slot('Evening', 'Available'), { customerName: 'Sharma', expiresAt: NOW + HOUR_MS }, 'priya');
+        expect(await loadHolds(NOW + HOUR_MS - 1)).toEqual([hold]);
+        expect(await loadHolds(NOW + HOUR_MS)).toEqual([]);
+        expect(JSON.parse((await AsyncStorage.getItem('@gmk_holds')) as string)).toEqual([
+            { ...hold, status: 'expired', updatedAt: NOW + HOUR_MS }
+        ]);
+    });
+
+    it("reads other devices' holds from the holds tab and won't hold their slots again", async () => {
+        const sheetId = getVenueConfig().locations[0].sheetId;
+        source.setTab(sheetId, 'HOLDS', [
+            HEADER,
+            sheetRow('H250611-AAAA', 'Evening', 'active', NOW + DAY_MS),
+            sheetRow('H250611-BBBB', 'Morning', 'released', NOW + DAY_MS),
+            sheetRow('H250610-CCCC', 'Morning', 'active', NOW - 1),
+        ]);
+
+        await refreshSheetHolds({ force: true });
+        expect((await loadHolds()).map(hold => hold.id)).toEqual(['H250611-AAAA']);
+        await expect(placeHold(slot('Evening', 'Available'), { customerName: 'Sharma', expiresAt: NOW + DAY_MS }, 'priya'))
+            .rejects.toThrow('Already held for Joshi by rahul (1d 0h left).');
+        await expect(placeHold(slot('Morning', 'Available'), { customerName: 'Sharma', expiresAt: NOW + DAY_MS }, 'priya'))
+            .resolves.toMatchObject({ timeSlot: 'Morning' });
+    });
+
+    it("reads other devices' holds through the proxy when there is one", async () => {
+        const sheetId = getVenueConfig().locations[0].sheetId;
+        source.setTab(sheetId, 'HOLDS', [HEADER, sheetRow('H250611-AAAA', 'Evening', 'active', NOW + DAY_MS)]);
+        // What the proxy's /holds sends back for the spreadsheet
+        const served = await readSheetHolds(sheetId);
+
+        const originalFetch = global.fetch;
+        const originalProxyUrl = process.env.EXPO_PUBLIC_PROXY_URL;
+        const fetchMock = jest.fn(async (url: string) => ({
+            ok: true,
+            status: 200,
+            json: async () => url.includes(encodeURIComponent(sheetId)) ? served : []
+        }));
+        global.fetch = fetchMock as unknown as typeof fetch;
+        process.env.EXPO_PUBLIC_PROXY_URL = 'https://proxy.example.com/';
+        try {
+            let proxied: typeof import('../holds') | undefined;
+            jest.isolateModules(() => {
+                proxied = require('../holds');
+            });
+            await expect(proxied!.placeHold(slot('Evening', 'Available'), { customerName: 'Sharma', expiresAt: NOW + DAY_MS }, 'priya'))
+                .rejects.toThrow('Already held for Joshi by rahul (1d 0h left).');
+            expect(fetchMock.mock.calls.map(([url]) => url.split('?')[0])).toEqual(
+                Array.from(new Set(getVenueConfig().locations.map(location => location.sheetId))).map(() => 'https://proxy.example.com/holds')
+            );
+        } finally {
+            global.fetch = originalFetch;
+            if (originalProxyUrl === undefined) {
+                delete process.env.EXPO_PUBLIC_PROXY_URL;
+            } else {
+                process.env.EXPO_PUBLIC_PROXY_URL = originalProxyUrl;
+            }
+        }
+    });
+
+    it('skips hold rows it cannot read', () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(parseHoldRows([HEADER, sheetRow('H1', 'Evening', 'pending', NOW), ['', ''], sheetRow('H2', 'Evening', 'Active', NOW)])
+            .map(hold => [hold.id, hold.status])).toEqual([['H2', 'active']]);
+    });
+
+    it('offers hold lengths that end by the day of the slot', () => {
+        expect(holdPresets('2025-06-14').map(preset => [preset.label, new Date(preset.expiresAt).toString()])).toEqual([
+            ['24 hours', new Date(2025, 5, 12, 11).toString()],
+            ['Till tomorrow 6 PM', new Date(2025, 5, 12, 18).toString()],
+            ['2 days', new Date(2025, 5, 13, 11).toString()],
+        ]);
+        expect(holdPresets('2025-06-30').map(preset => preset.label)).toEqual(['24 hours', 'Till tomorrow 6 PM', '2 days', 'Till Monday 6 PM', '1 week']);
+        expect(holdPresets('2025-06-11')).toEqual([]);
+    });
+
+    it('formats the time left on a hold', () => {
+        expect(formatTimeLeft(NOW + 2 * DAY_MS + 4 * HOUR_MS + 59000)).toBe('2d 4h');
+        expect(formatTimeLeft(NOW + 3 * HOUR_MS + 20 * 60000)).toBe('3h 20m');
+        expect(formatTimeLeft(NOW + 30000)).toBe('1m');
+        expect(formatTimeLeft(NOW - 1)).toBe('0m');
+    });
+});
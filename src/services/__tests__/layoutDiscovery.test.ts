@@ -0,0 +1,123 @@
+import { dayOfDateCell, diffLayout, discoverLayout, proposeLocations } from '../layoutDiscovery';
+import { LocationConfig } from '../../types';
+import fixture from '../../fixtures/availability.json';
+
+const SHEET_ID = '1pMiOb9hvvUdvuK0Hxt0Pa1lBF2JdYCvPZ6WdHxZPegk';
+const JULY: string[][] = fixture.spreadsheets[SHEET_ID]['JUL 2025'];
+
+const location = (halls: Array<[string, string, string, string]>, extra: Partial<LocationConfig> = {}): LocationConfig => ({
+    id: 'tathawade',
+    name: 'Tathawade',
+    sheetId: SHEET_ID,
+    halls: halls.map(([id, name, morningRange, eveningRange]) => ({ id, name, morningRange, eveningRange })),
+    ...extra
+});
+
+// A copy of the July tab with `column` (0-based) inserted in front of every row
+const withColumnInserted = (rows: string[][], column: number) => rows.map(row => [...row.slice(0, column), '', ...row.slice(column)]);
+
+describe('dayOfDateCell', () => {
+    it.each([
+        ['7', 7], ['07', 7], ['Sat 7', 7], ['7-Jun-2025', 7], ['07/06/2025', 7], ['2025-06-07', 7], ['', null], ['Date', null],
+    ])('reads %p as day %p', (value, day) => {
+        expect(dayOfDateCell(value)).toBe(day);
+    });
+});
+
+describe('discoverLayout', () => {
+    it('finds the date column, header rows and hall columns of a month tab', () => {
+        const layout = discoverLayout(JULY, 'JUL 2025');
+        expect(layout).toMatchObject({
+            dateColumn: 'A',
+            firstDayRow: 4,
+            daysFound: 31,
+            hallHeaderRow: 2,
+            slotHeaderRow: 3,
+            problems: []
+        });
+        expect(layout.halls.map(hall => `${hall.name} ${hall.morningColumn}${hall.eveningColumn}`)).toEqual([
+            'Aster BC', 'Grand DE', 'Tulip FG', 'Lotus HI', 'Agastya LM', 'Vyas NO', 'Lawn PQ',
+        ]);
+    });
+
+    it('follows extra header rows', () => {
+        const layout = discoverLayout([['Bookings'], [], ...JULY], 'JUL 2025');
+        expect(layout).toMatchObject({ firstDayRow: 6, hallHeaderRow: 4, slotHeaderRow: 5 });
+    });
+
+    it('reports a tab without Morning/Evening headers', () => {
+        const layout = discoverLayout([['Date'], ...JULY.slice(3)], 'JUL 2025');
+        expect(layout.halls).toEqual([]);
+        expect(layout.problems).toContain("No Morning/Evening header row found in 'JUL 2025'");
+    });
+});
+
+describe('diffLayout', () => {
+    const configured = () => [location([
+        ['tathawade-aster', 'Aster', 'B4:B34', 'C4:C34'],
+        ['tathawade-grand', 'Grand', 'D4:D34', 'E4:E34'],
+    ])];
+    const layoutOf = (rows: string[][]) => {
+        // Keep only the date column and the first two halls
+        const layout = discoverLayout(rows, 'JUL 2025');
+        return { ...layout, halls: layout.halls.slice(0, 2) };
+    };
+
+    it('finds nothing when the config matches', () => {
+        expect(diffLayout(layoutOf(JULY), configured(), 31)).toEqual([]);
+    });
+
+    it('flags a shifted column', () => {
+        const issues = diffLayout(layoutOf(withColumnInserted(JULY, 3)), configured(), 31).map(issue => issue.message);
+        expect(issues).toEqual([
+            'Tathawade - Grand: morning is column D in the config but column E in the sheet',
+            'Tathawade - Grand: evening is column E in the config but column F in the sheet',
+        ]);
+    });
+
+    it('flags a renamed hall header', () => {
+        const renamed = JULY.map((row, index) => index === 1 ? row.map(cell => cell === 'Grand' ? 'Grand Ballroom' : cell) : row);
+        const issues = diffLayout(layoutOf(renamed), configured(), 31);
+        expect(issues).toEqual([
+            { hallId: 'tathawade-grand', message: "Tathawade - Grand: column D is headed 'Grand Ballroom' in the sheet; was the hall renamed?" },
+        ]);
+    });
+
+    it('flags the wrong first row and a short date column', () => {
+        const issues = diffLayout(layoutOf(JULY.slice(0, 33)), [location([
+            ['tathawade-aster', 'Aster', 'B3:B34', 'C4:C34'],
+            ['tathawade-grand', 'Grand', 'D4:D34', 'E4:E34'],
+        ])], 31).map(issue => issue.message);
+        expect(issues).toEqual([
+            "The date column A stops at day 30; 'JUL 2025' has 31 days",
+            'Tathawade - Aster: morning day 1 is row 3 in the config (B3:B34, offset 0) but row 4 in the sheet',
+        ]);
+    });
+
+    it('lists halls missing from either side', () => {
+        const issues = diffLayout(discoverLayout(JULY, 'JUL 2025'), [location([
+            ['tathawade-aster', 'Aster', 'B4:B34', 'C4:C34'],
+            ['tathawade-rose', 'Rose', 'Z4:Z34', 'AA4:AA34'],
+        ])], 31).map(issue => issue.message);
+        expect(issues).toContain("Tathawade - Rose: no 'Rose' header in the sheet");
+        expect(issues).toContain("'Lawn' (columns P/Q) is in the sheet but not in the config");
+    });
+});
+
+describe('proposeLocations', () => {
+    it('rewrites the ranges from the sheet and keeps ids of renamed or moved halls', () => {
+        const rows = withColumnInserted(JULY, 3).map((row, index) => index === 1 ? row.map(cell => cell === 'Aster' ? 'Aster Hall' : cell) : row);
+        const layout = discoverLayout(rows, 'JUL 2025');
+        const [proposed] = proposeLocations({ ...layout, halls: layout.halls.slice(0, 3) }, [location([
+            ['tathawade-aster', 'Aster', 'B4:B34', 'C4:C34'],
+            ['tathawade-grand', 'Grand', 'D4:D34', 'E4:E34'],
+        ])]);
+
+        expect(proposed.dateColumn).toBe('A');
+        expect(proposed.halls).toEqual([
+            { id: 'tathawade-aster', name: 'Aster', morningRange: 'B4:B34', eveningRange: 'C4:C34', morningHeaderOffset: 0, eveningHeaderOffset: 0 },
+            { id: 'tathawade-grand', name: 'Grand', morningRange: 'E4:E34', eveningRange: 'F4:F34', morningHeaderOffset: 0, eveningHeaderOffset: 0 },
+            { id: 'tathawade-tulip', name: 'Tulip', morningRange: 'G4:G34', eveningRange: 'H4:H34', morningHeaderOffset: 0, eveningHeaderOffset: 0 },
+        ]);
+    });
+});
@@ -0,0 +1,99 @@
+import { retryNetworkRequest } from '../network';
+
+describe('retryNetworkRequest', () => {
+    let delays: number[];
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        delays = [];
+        const realSetTimeout = setTimeout;
+        jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+            delays.push(ms ?? 0);
+            return realSetTimeout(callback, ms);
+        }) as typeof setTimeout);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+    });
+
+    // Run the request to completion, firing each backoff timer as it is scheduled
+    const settle = async <T>(promise: Promise<T>): Promise<T> => {
+        let result: { value?: T; error?: unknown } | null = null;
+        promise.then(value => { result = { value }; }, error => { result = { error }; });
+        while (!result) {
+            await jest.runAllTimersAsync();
+        }
+        const settled = result as { value?: T; error?: unknown };
+        if ('error' in settled) throw settled.error;
+        return settled.value as T;
+    };
+
+    it('returns the first successful result without waiting', async () => {
+        const request = jest.fn().mockResolvedValue('ok');
+        await expect(settle(retryNetworkRequest(request))).resolves.toBe('ok');
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(delays).toEqual([]);
+    });
+
+    it('backs off exponentially up to the maximum delay', async () => {
+        const request = jest.fn()
+            .mockRejectedValueOnce(new Error('Network request failed'))
+            .mockRejectedValueOnce(new Error('Network request failed'))
+            .mockRejectedValueOnce(new Error('Network request failed'))
+            .mockRejectedValueOnce(new Error('Network request failed'))
+            .mockResolvedValue('ok');
+        const onRetry = jest.fn();
+
+        const result = await settle(retryNetworkRequest(request, { maxRetries: 5, initialDelayMs: 1000, maxDelayMs: 5000, onRetry }));
+
+        expect(result).toBe('ok');
+        expect(request).toHaveBeenCalledTimes(5);
+        expect(delays).toEqual([1000, 2000, 4000, 5000]);
+        expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('adds up to a second of jitter', async () => {
+        (Math.random as jest.Mock).mockReturnValue(0.5);
+        const request = jest.fn()
+            .mockRejectedValueOnce(new Error('connection reset'))
+            .mockResolvedValue('ok');
+        await settle(retryNetworkRequest(request, { initialDelayMs: 200 }));
+        expect(delays).toEqual([700]);
+    });
+
+    it('gives up after maxRetries attempts with the last error', async () => {
+        const request = jest.fn()
+            .mockRejectedValueOnce(new Error('timeout 1'))
+            .mockRejectedValueOnce(new Error('timeout 2'))
+            .mockRejectedValueOnce(new Error('timeout 3'));
+
+        await expect(settle(retryNetworkRequest(request))).rejects.toThrow('timeout 3');
+        expect(request).toHaveBeenCalledTimes(3);
+        expect(delays).toEqual([1000, 2000]);
+    });
+
+    it('does not retry errors the default condition does not cover', async () => {
+        const request = jest.fn().mockRejectedValue(new Error('Google Sheets returned status 403'));
+        await expect(settle(retryNetworkRequest(request))).rejects.toThrow('status 403');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses a custom shouldRetry', async () => {
+        const request = jest.fn()
+            .mockRejectedValueOnce(new Error('status 503'))
+            .mockRejectedValueOnce(new Error('status 404'));
+        const shouldRetry = jest.fn((error: Error) => error.message.includes('503'));
+
+        await expect(settle(retryNetworkRequest(request, { shouldRetry }))).rejects.toThrow('status 404');
+        expect(request).toHaveBeenCalledTimes(2);
+        expect(shouldRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('wraps non-Error rejections', async () => {
+        const request = jest.fn().mockRejectedValue('network down');
+        await expect(settle(retryNetworkRequest(request, { maxRetries: 1 }))).rejects.toThrow('network down');
+    });
+});
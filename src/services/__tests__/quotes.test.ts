@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    NewQuote,
+    calculateTotals,
+    clearQuoteCache,
+    createQuote,
+    loadQuotes,
+    quoteLines,
+    searchQuotes
+} from '../quotes';
+import { buildQuoteHtml, formatQuoteText } from '../quoteExport';
+import { parsePriceListRows, validatePriceList } from '../priceList';
+import { PriceList, QuoteSlot, VenueConfig } from '../../types';
+
+// Wed 11 Jun 2025, 11:00 local time
+const NOW = new Date(2025, 5, 11, 11, 0).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRICE_LIST: PriceList = {
+    items: [
+        { id: 'veg-silver', name: 'Veg buffet – Silver', category: 'package', unit: 'perGuest', price: 650 },
+        { id: 'dj-sound', name: 'DJ and sound', category: 'item', unit: 'fixed', price: 15000 },
+    ],
+    taxes: [{ name: 'CGST', percent: 9 }, { name: 'SGST', percent: 9 }],
+    terms: ['25% advance confirms the booking.']
+};
+
+const SATURDAY: QuoteSlot = {
+    locationId: 'tathawade',
+    location: 'GMK Banquets Tathawade',
+    hallId: 'tathawade-grand',
+    hallName: 'Grand',
+    date: '2025-06-14',
+    timeSlot: 'Evening'
+};
+
+const config: VenueConfig = {
+    locations: [{
+        id: 'tathawade',
+        name: 'GMK Banquets Tathawade',
+        sheetId: 'sheet',
+        halls: [{
+            id: 'tathawade-grand',
+            name: 'Grand',
+            morningRange: 'D4:D34',
+            eveningRange: 'E4:E34',
+            details: { pricing: { basePrice: 100000, weekendSurchargePercent: 10 } }
+        }]
+    }]
+};
+
+const input = (extra: Partial<NewQuote> = {}): NewQuote => ({
+    slot: SATURDAY,
+    customerName: ' Sharma ',
+    phone: '98765 43210',
+    eventType: 'Wedding',
+    guestCount: 400,
+    itemIds: ['veg-silver', 'dj-sound'],
+    applyTaxes: true,
+    ...extra
+});
+
+describe('quotes', () => {
+    beforeEach(async () => {
+        clearQuoteCache();
+        await AsyncStorage.clear();
+    });
+
+    it('prices the hall rent with its surcharge and the picked items', () => {
+        expect(quoteLines(input(), PRICE_LIST, config)).toEqual([
+            { description: 'Grand hall rent – Evening', quantity: 1, unitPrice: 100000, amount: 100000 },
+            { description: 'Weekend surcharge (10%)', quantity: 1, unitPrice: 10000, amount: 10000 },
+            { description: 'Veg buffet – Silver', quantity: 400, unitPrice: 650, amount: 260000, itemId: 'veg-silver' },
+            { description: 'DJ and sound', quantity: 1, unitPrice: 15000, amount: 15000, itemId: 'dj-sound' },
+        ]);
+        expect(quoteLines(input({ rent: 90000, itemIds: [] }), PRICE_LIST, config)).toEqual([
+            { description: 'Grand hall rent – Evening', quantity: 1, unitPrice: 90000, amount: 90000 },
+        ]);
+    });
+
+    it('takes the discount off before tax', () => {
+        const lines = quoteLines(input(), PRICE_LIST, config);
+        expect(calculateTotals(lines, { kind: 'percent', value: 5 }, PRICE_LIST.taxes)).toEqual({
+            subtotal: 385000,
+            discount: 19250,
+            taxes: [{ name: 'CGST', percent: 9, amount: 32918 }, { name: 'SGST', percent: 9, amount: 32918 }],
+            total: 431586
+        });
+        expect(calculateTotals(lines, { kind: 'amount', value: 5000 }, []).total).toBe(380000);
+    });
+
+    it('numbers and keeps quotes, valid for 15 days or until the event', async () => {
+        const quote = await createQuote(input({ slot: { ...SATURDAY, date: '2025-07-20' } }), 'priya', NOW, PRICE_LIST);
+        expect(quote.id).toBe('Q250611-PRIYA-001');
+        expect(quote).toMatchObject({ customerName: 'Sharma', createdBy: 'priya', validUntil: NOW + 15 * DAY_MS, terms: PRICE_LIST.terms });
+        expect(quote.totals.total).toBe(quote.totals.subtotal + 2 * quote.totals.taxes[0].amount);
+
+        const soon = await createQuote(input(), 'priya', NOW, PRICE_LIST);
+        expect(soon.id).toBe('Q250611-PRIYA-002');
+        expect(soon.validUntil).toBe(new Date(2025, 5, 15).getTime() - 1);
+        expect((await createQuote(input({ slot: { ...SATURDAY, date: '2025-07-20' } }), 'priya', NOW + DAY_MS, PRICE_LIST)).id).toBe('Q250612-PRIYA-001');
+
+        clearQuoteCache();
+        expect((await loadQuotes(NOW)).slice(1)).toEqual([soon, quote]);
+        expect(await loadQuotes(NOW + 366 * DAY_MS)).toEqual([]);
+    });
+
+    it('numbers quotes saved at the same moment apart, and by user', async () => {
+        const [first, second] = await Promise.all([
+            createQuote(input(), 'priya', NOW, PRICE_LIST),
+            createQuote(input({ customerName: 'Patil' }), 'priya', NOW, PRICE_LIST)
+        ]);
+        expect([first.id, second.id]).toEqual(['Q250611-PRIYA-001', 'Q250611-PRIYA-002']);
+        expect((await createQuote(input(), 'rahul.k', NOW, PRICE_LIST)).id).toBe('Q250611-RAHULK-001');
+
+        clearQuoteCache();
+        expect((await loadQuotes(NOW)).map(quote => quote.customerName)).toEqual(['Sharma', 'Patil', 'Sharma']);
+    });
+
+    it.each([
+        [{ customerName: ' ' }, "Enter the customer's name."],
+        [{ phone: '12345' }, 'Enter a phone number of 10 to 13 digits.'],
+        [{ guestCount: undefined }, 'Enter the guest count for the per-guest items.'],
+        [{ slot: { ...SATURDAY, date: '2025-06-10' } }, 'Quotes can only be made for today or later.'],
+        [{ itemIds: ['gone'] }, 'A picked item is no longer in the price list; pick it again.'],
+        [{ discount: { kind: 'percent', value: 120 } }, 'A discount percentage must be between 0 and 100.'],
+        [{ discount: { kind: 'amount', value: 10000000 } }, "The discount can't be more than the subtotal."],
+    ])('rejects %p', async (change, message) => {
+        await expect(createQuote(input(change as Partial<NewQuote>), 'priya', NOW, PRICE_LIST)).rejects.toThrow(message);
+    });
+
+    it('finds quotes by customer, phone or number', async () => {
+        const sharma = await createQuote(input(), 'priya', NOW, PRICE_LIST);
+        const patil = await createQuote(input({ customerName: 'Patil', phone: '91234 56789' }), 'priya', NOW, PRICE_LIST);
+        const list = [patil, sharma];
+        expect(searchQuotes(list, 'shar')).toEqual([sharma]);
+        expect(searchQuotes(list, '912 345')).toEqual([patil]);
+        expect(searchQuotes(list, sharma.id.toLowerCase())).toEqual([sharma]);
+        expect(searchQuotes(list, '')).toEqual(list);
+    });
+
+    it('writes the quote as a message and a page', async () => {
+        const quote = await createQuote(input({ discount: { kind: 'percent', value: 5 } }), 'priya', NOW, PRICE_LIST);
+        const text = formatQuoteText(quote);
+        expect(text).toContain(`*GMK Banquets – Quotation ${quote.id}*`);
+        expect(text).toContain('Date: Sat, 14 Jun 2025 – Evening');
+        expect(text).toContain('Veg buffet – Silver: 400 × ₹650 = ₹2,60,000');
+        expect(text).toContain('Discount (5%): -₹');
+        expect(text).toContain(`*Total: ₹`);
+        expect(text).toContain('• 25% advance confirms the booking.');
+        expect(buildQuoteHtml({ ...quote, customerName: 'Sharma & Sons' })).toContain('Sharma &amp; Sons');
+    });
+
+    it('reads the price list tab', () => {
+        const priceList = parsePriceListRows([
+            ['Type', 'Name', 'Unit', 'Price', 'Description'],
+            ['Package', 'Veg buffet – Silver', 'per plate', '₹650', '4 mains'],
+            ['Item', 'DJ and sound', '', '15,000', ''],
+            ['Tax', 'CGST', '', '9%', ''],
+            ['Term', '25% advance confirms the booking.', '', '', ''],
+            ['Extra', 'Valet', '', 'ask', ''],
+        ]);
+        expect(priceList.items.slice(0, 2)).toEqual([
+            { id: 'veg-buffet-silver', name: 'Veg buffet – Silver', category: 'package', unit: 'perGuest', price: 650, description: '4 mains' },
+            { id: 'dj-and-sound', name: 'DJ and sound', category: 'item', unit: 'fixed', price: 15000 },
+        ]);
+        expect(priceList.taxes).toEqual([{ name: 'CGST', percent: 9 }]);
+        expect(priceList.terms).toEqual(['25% advance confirms the booking.']);
+        expect(validatePriceList(priceList).errors).toEqual([
+            'Valet: "category" must be package or item (got "extra")',
+            'Valet: "price" must be an amount in rupees (got "ask")',
+        ]);
+    });
+});
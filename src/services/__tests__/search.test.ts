@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { findAvailableDates } from '../search';
+import { clearMonthCache } from '../api';
+import { setAvailabilitySource } from '../availabilitySource';
+import { createMockSource } from '../mockSource';
+import { clearEnquiryCache, createEnquiry } from '../enquiries';
+import { clearHoldCache, placeHold } from '../holds';
+import { loadVenueConfig } from '../venueConfig';
+import { clearDateAnnotationCache } from '../dateAnnotations';
+import { DateSearchCriteria } from '../../types';
+
+const SHEET_ID = '1pMiOb9hvvUdvuK0Hxt0Pa1lBF2JdYCvPZ6WdHxZPegk';
+// 10 Jun 2025, 11:00 local time
+const NOW = new Date(2025, 5, 10, 11, 0).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const criteria: DateSearchCriteria = {
+    startDate: new Date(2025, 5, 20),
+    endDate: new Date(2025, 5, 21),
+    hallIds: ['tathawade-aster'],
+    timeSlot: 'Either'
+};
+
+describe('findAvailableDates', () => {
+    beforeEach(async () => {
+        clearMonthCache();
+        clearEnquiryCache();
+        clearHoldCache();
+        clearDateAnnotationCache();
+        await AsyncStorage.clear();
+        jest.useFakeTimers({ now: NOW });
+        const source = createMockSource({ generateMonths: false, generateUsers: false });
+        // An empty June: every slot is free, with the days counted down column A
+        source.setTab(SHEET_ID, 'JUN 2025', [[], [], [], ...Array.from({ length: 30 }, (_, index) => [String(index + 1)])]);
+        setAvailabilitySource(source);
+        await loadVenueConfig({ forceRefresh: true });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('leaves out slots with a hold or an open enquiry, as the hall cards do', async () => {
+        const before = await findAvailableDates(criteria);
+        expect(before.matches.map(match => match.date)).toEqual(['2025-06-20', '2025-06-21']);
+        const morning = before.matches[0].freeSlots.find(slot => slot.timeSlot === 'Morning')!;
+
+        await createEnquiry({
+            customerName: 'Sharma',
+            phone: '98765 43210',
+            slots: [{ locationId: 'tathawade', hallId: 'tathawade-aster', hallName: 'Aster', date: '2025-06-20', timeSlot: 'Evening' }]
+        }, 'priya', NOW);
+        await placeHold(morning, { customerName: 'Patil', expiresAt: NOW + DAY_MS }, 'priya', NOW);
+
+        const after = await findAvailableDates(criteria);
+        expect(after.matches.map(match => match.date)).toEqual(['2025-06-21']);
+    });
+
+    it('says when a muhurat-only search runs past the date list', async () => {
+        const result = await findAvailableDates({ ...criteria, muhuratOnly: true });
+        expect(result.matches).toEqual([]);
+        expect(result.muhuratListCoverage).toEqual({ from: '2026-10-01', to: '2027-12-31' });
+        expect((await findAvailableDates(criteria)).muhuratListCoverage).toBeUndefined();
+    });
+});
@@ -0,0 +1,58 @@
+import { columnIndex, columnLetters, monthRange, parseA1, sliceGrid, splitRange } from '../sheetRange';
+import { parseCsv } from '../fixtureSource';
+
+describe('A1 ranges', () => {
+    it.each([['A', 0], ['Z', 25], ['AA', 26], ['AZ', 51], ['BA', 52]])('maps column %s to %i and back', (letters, index) => {
+        expect(columnIndex(letters)).toBe(index);
+        expect(columnLetters(index)).toBe(letters);
+    });
+
+    it('splits quoted tab names', () => {
+        expect(splitRange("'JUN 2025'!B4:B33")).toEqual({ tab: 'JUN 2025', a1: 'B4:B33' });
+        expect(splitRange("'Owner''s view'!A1")).toEqual({ tab: "Owner's view", a1: 'A1' });
+        expect(() => splitRange('B4:B33')).toThrow();
+    });
+
+    it('parses ranges, single cells and whole columns', () => {
+        expect(parseA1('B4:B33')).toEqual({ startRow: 3, endRow: 32, startColumn: 1, endColumn: 1 });
+        expect(parseA1('C12')).toEqual({ startRow: 11, endRow: 11, startColumn: 2, endColumn: 2 });
+        expect(parseA1('A:I')).toEqual({ startRow: 0, endRow: Number.POSITIVE_INFINITY, startColumn: 0, endColumn: 8 });
+        expect(() => parseA1('4B')).toThrow();
+    });
+
+    it.each([
+        ['B4:B34', 0, 31, 'B4:B34'],
+        ['B4:B34', 0, 30, 'B4:B33'],
+        ['B4:B34', 0, 28, 'B4:B31'],
+        ['AA2:AA40', 2, 29, 'AA2:AA32'],
+    ])('narrows %s (offset %i) to a %i-day month', (range, offset, days, expected) => {
+        expect(monthRange(range, offset, days)).toBe(expected);
+    });
+});
+
+describe('sliceGrid', () => {
+    const rows = [
+        ['Day', 'Aster', 'Grand'],
+        [],
+        ['1', 'occ', ''],
+        ['2', '', 'vac'],
+        ['3', '', ''],
+        [],
+    ];
+
+    it('trims trailing empty cells and rows like the Sheets API', () => {
+        expect(sliceGrid(rows, 'B3:B6')).toEqual([['occ']]);
+        expect(sliceGrid(rows, 'B2:C6')).toEqual([[], ['occ'], ['', 'vac']]);
+        expect(sliceGrid(rows, 'D1:D6')).toEqual([]);
+    });
+});
+
+describe('parseCsv', () => {
+    it('handles quotes, embedded commas and CRLF line endings', () => {
+        expect(parseCsv('Day,Aster\r\n1,"occ - Rao, Patil"\r\n2,"say ""hi"""\r\n')).toEqual([
+            ['Day', 'Aster'],
+            ['1', 'occ - Rao, Patil'],
+            ['2', 'say "hi"'],
+        ]);
+    });
+});
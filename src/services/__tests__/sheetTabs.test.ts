@@ -0,0 +1,83 @@
+import { setAvailabilitySource } from '../availabilitySource';
+import { createMockSource, MockSource } from '../mockSource';
+import { clearTabCache, findMonthTab, parseMonthTitle, resolveMonthTab } from '../sheetTabs';
+
+const SHEET_ID = 'test-sheet';
+
+describe('parseMonthTitle', () => {
+    it.each([
+        ['JUN 2025', 2025, 5],
+        ['Jun 2025 ', 2025, 5],
+        ['June-2025', 2025, 5],
+        ['May-25', 2025, 4],
+        ["May '25", 2025, 4],
+        ['SEPT 2025', 2025, 8],
+        ['Sep. 2025', 2025, 8],
+        ['september_2025', 2025, 8],
+    ])('reads %p as %i-%i', (title, year, monthIndex) => {
+        expect(parseMonthTitle(title)).toEqual({ year, monthIndex });
+    });
+
+    it.each(['CONFIG', 'USERS', 'Ma 2025', 'June', 'JUN 2025 (old)', 'Junk 2025'])('ignores %p', title => {
+        expect(parseMonthTitle(title)).toBeNull();
+    });
+});
+
+describe('findMonthTab', () => {
+    it('finds the month whatever its spelling', () => {
+        expect(findMonthTab(['CONFIG', 'May-25', 'Jun 2025 '], 2025, 5, 'JUN 2025')).toBe('Jun 2025 ');
+        expect(findMonthTab(['CONFIG', 'May-25'], 2025, 5, 'JUN 2025')).toBeNull();
+    });
+
+    it('prefers the usual spelling when several tabs match', () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(findMonthTab(['June 2025', 'JUN 2025'], 2025, 5, 'JUN 2025')).toBe('JUN 2025');
+    });
+});
+
+describe('resolveMonthTab', () => {
+    let source: MockSource;
+    let listTabs: jest.SpyInstance;
+
+    beforeEach(() => {
+        clearTabCache();
+        source = createMockSource({ generateMonths: false, generateUsers: false });
+        source.setTab(SHEET_ID, 'Jun 2025 ', []);
+        listTabs = jest.spyOn(source, 'listTabs');
+        setAvailabilitySource(source);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('lists the tabs once and reuses the list', async () => {
+        expect(await resolveMonthTab(SHEET_ID, 2025, 5, 'JUN 2025')).toBe('Jun 2025 ');
+        expect(await resolveMonthTab(SHEET_ID, 2025, 5, 'JUN 2025')).toBe('Jun 2025 ');
+        expect(listTabs).toHaveBeenCalledTimes(1);
+
+        await resolveMonthTab(SHEET_ID, 2025, 5, 'JUN 2025', { refresh: true });
+        expect(listTabs).toHaveBeenCalledTimes(2);
+    });
+
+    it('looks again for a missing month once the list is a minute old', async () => {
+        jest.useFakeTimers({ now: new Date(2025, 6, 30, 10, 0) });
+        expect(await resolveMonthTab(SHEET_ID, 2025, 7, 'AUG 2025')).toBeNull();
+        source.setTab(SHEET_ID, 'AUG 2025', []);
+        expect(await resolveMonthTab(SHEET_ID, 2025, 7, 'AUG 2025')).toBeNull();
+        expect(listTabs).toHaveBeenCalledTimes(1);
+
+        jest.setSystemTime(new Date(2025, 6, 30, 10, 1));
+        expect(await resolveMonthTab(SHEET_ID, 2025, 7, 'AUG 2025')).toBe('AUG 2025');
+        expect(listTabs).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls back to the usual name when the tabs cannot be listed', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        source.failWith(SHEET_ID, new Error('Network request failed'));
+        expect(await resolveMonthTab(SHEET_ID, 2025, 5, 'JUN 2025')).toBe('JUN 2025');
+
+        setAvailabilitySource(createMockSource());
+        expect(await resolveMonthTab(SHEET_ID, 2025, 5, 'JUN 2025')).toBe('JUN 2025');
+    });
+});
@@ -1,15 +1,17 @@
-import { GoogleSheetsResponse, HallData, LocationConfig } from '../types';
+import { Hall, HallData, LocationConfig, MonthAvailability, SheetCell, StatusRule, SyncedDay, SyncedMonth, TimeSlot, UnrecognizedToken, VenueConfig } from '../types';
+import { PROXY_URL, fetchWithRetry } from './sheetsClient';
+import { getAvailabilitySource } from './availabilitySource';
+import { ParsedCell, parseCellValue } from './cellParser';
+import { getVenueConfig, loadVenueConfig, onVenueConfigChange } from './venueConfig';
+import { loadStoredMonth, saveStoredMonth } from './availabilityStore';
+import { monthRange, parseA1, tabRange } from './sheetRange';
+import { forgetTabs, resolveMonthTab } from './sheetTabs';
+import { dayOfDateCell } from './layoutDiscovery';
+import { hallSlotRanges } from './slots';
+import { markBookingSpans } from './bookingSpans';
+import { formatDate } from './dates';
 
-// Load API key from environment variable for security
-// Make sure to check for empty values and log appropriate warnings
-const API_KEY = process.env.EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY || '';
-if (!API_KEY) {
-    console.error('WARNING: Google Sheets API key is not set. Please set EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY in your .env file.');
-}
-
-console.log('API KEY LENGTH:', API_KEY ? API_KEY.length : 0); // Log length of API key for debugging (don't log the actual key for security)
-
-const getSheetDetails = (date: Date) => {
+export const getSheetDetails = (date: Date) => {
     const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
     const monthIndex = date.getMonth();
     const monthNameAbbrev = months[monthIndex]; // e.g., 'MAY', 'JUN'
@@ -25,312 +27,600 @@ const getSheetDetails = (date: Date) => {
     };
 };
 
-// New combined spreadsheet containing both Tathawade and Ravet halls
-const SPREADSHEET_ID = '1pMiOb9hvvUdvuK0Hxt0Pa1lBF2JdYCvPZ6WdHxZPegk';
-
-const LOCATIONS: Record<'GMK Banquets Tathawade' | 'GMK Banquets Ravet', LocationConfig> = {
-    'GMK Banquets Tathawade': {
-        sheetId: SPREADSHEET_ID,
-        halls: [
-            {
-                name: 'Aster',
-                morningRange: 'B4:B33',
-                eveningRange: 'C4:C33',
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            },
-            {
-                name: 'Grand',
-                morningRange: 'D4:D33',
-                eveningRange: 'E4:E33',
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            },
-            {
-                name: 'Tulip',
-                morningRange: 'F4:F33',
-                eveningRange: 'G4:G33',
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            },
-            {
-                name: 'Lotus',
-                morningRange: 'H4:H33',
-                eveningRange: 'I4:I33', // Corrected from I4r:I33
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            }
-        ]
-    },
-    'GMK Banquets Ravet': {
-        sheetId: SPREADSHEET_ID,
-        halls: [
-            {
-                name: 'Agastya',
-                morningRange: 'L4:L33',
-                eveningRange: 'M4:M33',
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            },
-            {
-                name: 'Vyas',
-                morningRange: 'N4:N33',
-                eveningRange: 'O4:O33',
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            },
-            {
-                name: 'Lawn',
-                morningRange: 'P4:P33',
-                eveningRange: 'Q4:Q33',
-                morningHeaderOffset: 0,
-                eveningHeaderOffset: 0,
-            }
-        ]
+// Map a raw cell value to a slot status and any booking details written in it
+const interpretCellValue = (value: string | undefined, context: string, vocabulary?: StatusRule[]): ParsedCell => {
+    if (value === undefined) {
+        console.log(`${context}: No cell for this day in the configured range. Interpreting as Unknown.`);
+    }
+
+    const parsed = parseCellValue(value, vocabulary);
+    if (parsed.booking) {
+        console.log(`${context}: '''${value}''' parsed as ${parsed.status}`, parsed.booking);
     }
+    return parsed;
 };
 
-export const formatDate = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+// Number of rows an A1 range like "B4:B33" covers
+const rangeRowCount = (range: string): number => {
+    const match = range.match(/^[A-Z]+(\d+):[A-Z]+(\d+)$/i);
+    return match ? Number(match[2]) - Number(match[1]) + 1 : Number.POSITIVE_INFINITY;
 };
 
-const processData = async (location: string, config: LocationConfig, selectedDate: Date, allResults: HallData[]) => {
-    const typedLocation = location as 'GMK Banquets Tathawade' | 'GMK Banquets Ravet';
-    const { sheetName } = getSheetDetails(selectedDate); // sheetName is now "MONTH YEAR", e.g., "JUN 2025"
-    const dayOfMonth = selectedDate.getDate(); // 1-based day of month
-    
-    for (const hall of config.halls) {
-        try {
-            // Construct the full sheet name + range string, e.g., "'JUN 2025'!B4:B33"
-            const morningRangeString = `'${sheetName}'!${hall.morningRange}`;
-            // URL-encode the entire string
-            const encodedMorningRange = encodeURIComponent(morningRangeString);
-            const morningUrl = `https://sheets.googleapis.com/v4/spreadsheets/${config.sheetId}/values/${encodedMorningRange}?key=${API_KEY}&alt=json`;
-
-            const eveningRangeString = `'${sheetName}'!${hall.eveningRange}`;
-            const encodedEveningRange = encodeURIComponent(eveningRangeString);
-            const eveningUrl = `https://sheets.googleapis.com/v4/spreadsheets/${config.sheetId}/values/${encodedEveningRange}?key=${API_KEY}&alt=json`;
-
-            console.log(`[${location} - ${hall.name}] Fetching from URLs:`, { morningUrl, eveningUrl });
-
-            // Implement improved retry logic for API requests (max 3 retries)
-            let morningResponse, eveningResponse;
-            let retries = 0;
-            const maxRetries = 3;
-            
-            // Fetch with timeout function that works across different environments
-            const fetchWithTimeout = async (url: string, timeoutMs: number = 15000) => {
-                // Create an abort controller with timeout
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-                
-                try {
-                    const response = await fetch(url, { signal: controller.signal });
-                    clearTimeout(timeoutId);
-                    return response;
-                } catch (error) {
-                    clearTimeout(timeoutId);
-                    throw error;
-                }
-            };
-            
-            // Custom fetch function with retry logic
-            const fetchWithRetry = async (url: string, retryAttempt: number, fetchType: 'Morning' | 'Evening') => {
-                try {
-                    console.log(`[${location} - ${hall.name}] ${fetchType} attempt ${retryAttempt + 1}: Fetching ${url}`);
-                    return await fetchWithTimeout(url, 15000); // 15 second timeout
-                } catch (error) {
-                    console.error(`[${location} - ${hall.name}] ${fetchType} attempt ${retryAttempt + 1} failed:`, error);
-                    
-                    if (retryAttempt < maxRetries) {
-                        // Exponential backoff with jitter
-                        const delay = Math.min(2000 * Math.pow(2, retryAttempt), 10000) + Math.random() * 1000;
-                        console.log(`[${location} - ${hall.name}] ${fetchType} retrying in ${Math.round(delay)}ms...`);
-                        await new Promise(resolve => setTimeout(resolve, delay));
-                        return fetchWithRetry(url, retryAttempt + 1, fetchType);
-                    }
-                    
-                    throw error;
-                }
-            };
-            
-            // Fetch both morning and evening data with individual retry logic
-            try {
-                console.log(`[${location} - ${hall.name}] Starting fetch for both time slots...`);
-                
-                // Fetch morning data with retries
-                morningResponse = await fetchWithRetry(morningUrl, 0, 'Morning');
-                
-                // Fetch evening data with retries
-                eveningResponse = await fetchWithRetry(eveningUrl, 0, 'Evening');
-                
-                // Check if both responses are successful
-                if (!morningResponse.ok || !eveningResponse.ok) {
-                    // Log the status for more detailed error information
-                    console.error(`API request failed for ${location} - ${hall.name}. Morning status: ${morningResponse.status}, Evening status: ${eveningResponse.status}`);
-                    
-                    // Try to get response text for better error details
-                    let morningText = '', eveningText = '';
-                    try { morningText = await morningResponse.text(); } catch {}
-                    try { eveningText = await eveningResponse.text(); } catch {}
-                    
-                    console.error(`Morning response: ${morningText}`);
-                    console.error(`Evening response: ${eveningText}`);
-                    
-                    throw new Error(`API request failed for ${location} - ${hall.name}`);
+// A1 address of the cell holding `dayOfMonth` in a single-column range, e.g. ("B4:B33", 9, 0) -> "B12"
+const dayCellAddress = (range: string, dayOfMonth: number, headerOffset: number = 0): string => {
+    const [, column, firstRow] = range.match(/^([A-Z]+)(\d+):/i) || [];
+    return `${column}${Number(firstRow) + headerOffset + dayOfMonth - 1}`;
+};
+
+// Check that every day of a slot range lines up with the location's date column (read from row 1).
+// Returns what doesn't match, or null when each day's row shows that day.
+const checkDayRows = (dateValues: string[][], dateColumn: string, range: string, headerOffset: number, daysInMonth: number, sheetName: string): string | null => {
+    const firstDayRow = parseA1(range).startRow + headerOffset; // 0-based
+    for (let day = 1; day <= daysInMonth; day++) {
+        const value = (dateValues[firstDayRow + day - 1] || [])[0] || '';
+        if (dayOfDateCell(value) !== day) {
+            return `Sheet layout doesn't match the config: ${dateColumn}${firstDayRow + day} of '${sheetName}' should be day ${day} but shows '${value}'`;
+        }
+    }
+    return null;
+};
+
+// Pick the cell for a given day out of a single-column range, accounting for header rows.
+// If Day 1 data is at row `headerOffset` (0-indexed) in the `values` array,
+// then for `dayOfMonth`, the data is at `(dayOfMonth - 1) + headerOffset`.
+// Returns undefined only when the day falls outside the range; the API drops trailing
+// empty rows (and omits `values` for an all-empty range), so a short array means empty cells.
+const readDayValue = (values: string[][] | undefined, dayOfMonth: number, headerOffset: number = 0, rowCount: number = Number.POSITIVE_INFINITY): string | undefined => {
+    const index = (dayOfMonth - 1) + headerOffset;
+    if (index >= rowCount) {
+        return undefined;
+    }
+    if (!values || values.length <= index) {
+        return '';
+    }
+    const rowData = values[index];
+    return rowData && rowData.length > 0 ? rowData[0] : '';
+};
+
+// Month grids fetched during this session, keyed by sheet name (e.g. "JUN 2025").
+// Flipping between days of the same month is served from here without touching the network.
+const monthCache = new Map<string, MonthAvailability>();
+// In-flight month fetches, so concurrent callers share a single read
+const pendingMonthFetches = new Map<string, Promise<MonthAvailability>>();
+
+export const clearMonthCache = () => {
+    monthCache.clear();
+};
+
+// Grids built from an older hall layout would have the wrong halls/columns
+onVenueConfigChange(() => {
+    console.log('Venue config changed, clearing month cache');
+    clearMonthCache();
+});
+
+// The configured locations, narrowed to the one holding `onlyHallId` when retrying a single hall
+const selectLocations = (venueConfig: VenueConfig, onlyHallId?: string): LocationConfig[] => {
+    if (!onlyHallId) {
+        return venueConfig.locations;
+    }
+    const locations = venueConfig.locations
+        .map(config => ({ ...config, halls: config.halls.filter(hall => hall.id === onlyHallId) }))
+        .filter(config => config.halls.length > 0);
+    if (locations.length === 0) {
+        throw new Error(`Hall '${onlyHallId}' is not in the venue config`);
+    }
+    return locations;
+};
+
+// Read a month for every configured hall straight from the spreadsheets, or just `onlyHallId` when retrying a single hall.
+// `refresh` also re-reads the spreadsheets' tab lists.
+const loadMonthFromSheets = async (date: Date, venueConfig: VenueConfig, onlyHallId?: string, refresh: boolean = false): Promise<MonthAvailability> => {
+    const { sheetName, daysInMonth } = getSheetDetails(date);
+    const year = date.getFullYear();
+    const monthIndex = date.getMonth();
+
+    const days: Record<string, HallData[]> = {};
+    for (let day = 1; day <= daysInMonth; day++) {
+        days[formatDate(new Date(year, monthIndex, day))] = [];
+    }
+
+    // Cells no status rule matched, keyed by location id + token
+    const unrecognized = new Map<string, UnrecognizedToken>();
+    const MAX_TOKEN_EXAMPLES = 3;
+
+    const pushMonth = (location: LocationConfig, hall: Hall, timeSlot: TimeSlot, cellForDay: (day: number) => ParsedCell & { cell?: SheetCell }) => {
+        for (let day = 1; day <= daysInMonth; day++) {
+            const dateKey = formatDate(new Date(year, monthIndex, day));
+            const { status, booking, recognized, error, cell } = cellForDay(day);
+
+            if (!recognized && booking) {
+                const token = booking.raw.trim().toLowerCase();
+                const key = `${location.id}\u0000${token}`;
+                const entry = unrecognized.get(key) || { locationId: location.id, token, count: 0, examples: [] };
+                entry.count++;
+                if (entry.examples.length < MAX_TOKEN_EXAMPLES) {
+                    entry.examples.push(`${hall.name} ${timeSlot} ${dateKey}`);
                 }
-            } catch (error) {
-                console.error(`Failed to fetch data for ${location} - ${hall.name} after all retry attempts:`, error);
-                
-                // Create fallback responses to continue with default values (hall will be shown as Booked)
-                console.log(`Using fallback 'Booked' status for ${location} - ${hall.name}`);
-                
-                throw new Error(`Failed to fetch data for ${location} - ${hall.name} after ${maxRetries} retries: ${error instanceof Error ? error.message : String(error)}`);
+                unrecognized.set(key, entry);
             }
 
-            const [morningData, eveningData] = await Promise.all([
-                morningResponse.json() as Promise<GoogleSheetsResponse>,
-                eveningResponse.json() as Promise<GoogleSheetsResponse>
-            ]);
-
-            // Effective index calculation incorporating header offsets
-            const morningHeaderOffset = hall.morningHeaderOffset || 0;
-            const eveningHeaderOffset = hall.eveningHeaderOffset || 0;
-
-            // The index in the API's returned 'values' array, after accounting for any header rows within the fetched range.
-            // If Day 1 data is at row `morningHeaderOffset` (0-indexed) in the `values` array,
-            // then for `dayOfMonth`, the data is at `(dayOfMonth - 1) + morningHeaderOffset`.
-            const effectiveMorningDataIndex = (dayOfMonth - 1) + morningHeaderOffset;
-            const effectiveEveningDataIndex = (dayOfMonth - 1) + eveningHeaderOffset;
-
-            console.log(`[${location} - ${hall.name}] Date: ${formatDate(selectedDate)}, Day: ${dayOfMonth}`);
-            console.log(`[${location} - ${hall.name}] Morning: headerOffset=${morningHeaderOffset}, calculated effectiveDataIndex=${effectiveMorningDataIndex}`);
-            console.log(`[${location} - ${hall.name}] Evening: headerOffset=${eveningHeaderOffset}, calculated effectiveDataIndex=${effectiveEveningDataIndex}`);
-
-            if (morningData.values) {
-                console.log(`[${location} - ${hall.name}] Morning data: Received ${morningData.values.length} rows. Attempting to access index ${effectiveMorningDataIndex}. Full data for index (if exists):`, morningData.values[effectiveMorningDataIndex]);
-            } else {
-                console.log(`[${location} - ${hall.name}] Morning data: No 'values' array received from API. This is critical if data was expected.`);
+            days[dateKey].push({
+                date: dateKey,
+                locationId: location.id,
+                location: location.name,
+                hallId: hall.id,
+                hallName: hall.name,
+                timeSlot,
+                status,
+                ...(booking ? { booking } : {}),
+                ...(error ? { error } : {}),
+                ...(cell ? { cell } : {})
+            });
+        }
+    };
+
+    // Interpret one day's cell of a slot range (already narrowed to the month) in tab `tab`, remembering its address for write-back
+    const readSlot = (config: LocationConfig, hall: Hall, day: number, values: string[][] | undefined, tab: string,
+        range: string, headerOffset: number = 0, timeSlot: TimeSlot): ParsedCell & { cell?: SheetCell } => {
+        const value = readDayValue(values, day, headerOffset, rangeRowCount(range));
+        const parsed = interpretCellValue(value, `${config.name} - ${hall.name} ${timeSlot} day ${day}`, config.statusVocabulary);
+        if (value === undefined) {
+            return parsed;
+        }
+        return { ...parsed, cell: { sheetId: config.sheetId, range: tabRange(tab, dayCellAddress(range, day, headerOffset)), value } };
+    };
+
+    const failedHallIds: string[] = [];
+
+    // Mark every slot of a hall as Unknown, keeping the reason so the UI can show it and offer a retry
+    const pushFailedHall = (location: LocationConfig, hall: Hall, reason: string) => {
+        console.log(`Marking ${location.name} - ${hall.name} as Unknown: ${reason}`);
+        failedHallIds.push(hall.id);
+        hallSlotRanges(location, hall).forEach(slot => {
+            pushMonth(location, hall, slot.name, () => ({ status: 'Unknown', recognized: true, error: reason }));
+        });
+    };
+
+    const locations = selectLocations(venueConfig, onlyHallId);
+
+    // All locations may live in the same spreadsheet; group them so each spreadsheet costs one request
+    const locationsBySheet = new Map<string, LocationConfig[]>();
+    for (const config of locations) {
+        const group = locationsBySheet.get(config.sheetId) || [];
+        group.push(config);
+        locationsBySheet.set(config.sheetId, group);
+    }
+
+    // Spreadsheets that have no tab for the month yet, with their locations
+    const missingTabs: LocationConfig[][] = [];
+
+    await Promise.all(Array.from(locationsBySheet.entries()).map(async ([sheetId, locations]) => {
+        try {
+            // The month's tab as it is actually named in this spreadsheet, e.g. "Jun 2025 "
+            const tab = await resolveMonthTab(sheetId, year, monthIndex, sheetName, { refresh });
+            if (tab === null) {
+                missingTabs.push(locations);
+                return;
             }
 
-            if (eveningData.values) {
-                console.log(`[${location} - ${hall.name}] Evening data: Received ${eveningData.values.length} rows. Attempting to access index ${effectiveEveningDataIndex}. Full data for index (if exists):`, eveningData.values[effectiveEveningDataIndex]);
-            } else {
-                console.log(`[${location} - ${hall.name}] Evening data: No 'values' array received from API. This is critical if data was expected.`);
+            // Per location in config order: its date column when configured, then one range per slot of each hall
+            // (morning, evening, then any extra slots), covering exactly the month's days so the 31st is never cut off
+            // or read from past the month
+            const ranges: string[] = [];
+            const hallRanges = (config: LocationConfig, hall: Hall) => hallSlotRanges(config, hall).map(slot => ({
+                ...slot,
+                range: monthRange(slot.range, slot.headerOffset, daysInMonth)
+            }));
+            locations.forEach(config => {
+                if (config.dateColumn) {
+                    const lastRow = Math.max(...config.halls.flatMap(hall =>
+                        hallRanges(config, hall).map(slot => parseA1(slot.range).endRow)
+                    )) + 1;
+                    ranges.push(tabRange(tab, `${config.dateColumn}1:${config.dateColumn}${lastRow}`));
+                }
+                config.halls.forEach(hall => {
+                    hallRanges(config, hall).forEach(slot => ranges.push(tabRange(tab, slot.range)));
+                });
+            });
+
+            const result = await getAvailabilitySource().readRanges(sheetId, ranges);
+            if (result.tabMissing) {
+                // Listed a moment ago (or the tabs couldn't be listed); look again next time
+                forgetTabs(sheetId);
+                missingTabs.push(locations);
+                return;
             }
+            const valueRanges = result.valueRanges;
 
-            const processSlot = (value: string | undefined, timeSlot: 'Morning' | 'Evening') => {
-                let currentStatus: 'Available' | 'Booked';
-                const rawValueForLog = value;
-
-                if (value === undefined) {
-                    // No data or out-of-range implies unknown status, treat as Booked for safety
-                    console.log(`${location} - ${hall.name} ${timeSlot}: Raw value undefined. Interpreting as Booked (fail-safe).`);
-                    currentStatus = 'Booked';
-                } else {
-                    const cleanValue = value.trim().toLowerCase();
-                    console.log(`Processing ${location} - ${hall.name} ${timeSlot}:`, {
-                        rawValue: value,
-                        cleanValue,
-                        index: dayOfMonth - 1,
-                        date: formatDate(selectedDate)
-                    });
+            let rangeIndex = 0;
+            locations.forEach(config => {
+                const dateValues = config.dateColumn ? valueRanges[rangeIndex++] : undefined;
+                config.halls.forEach(hall => {
+                    const slots = hallRanges(config, hall).map(slot => ({ ...slot, values: valueRanges[rangeIndex++] }));
+                    if (slots.some(slot => !slot.values)) {
+                        pushFailedHall(config, hall, 'The sheet response did not include this hall\'s ranges');
+                        return;
+                    }
 
-                    if (cleanValue === 'vac' || cleanValue === 'vacc' || cleanValue === 'vacant' || cleanValue === '') {
-                        // Case 2: Cell has "vac", "vacc", "vacant", or is an empty string (e.g., "", "   ").
-                        currentStatus = 'Available';
-                    } else if (cleanValue === 'occ' || cleanValue === 'occupied') {
-                        // Case 3: Cell has "occ" or "occupied".
-                        currentStatus = 'Booked';
-                    } else {
-                        // Case 4: Cell has some other unexpected text.
-                        console.warn(`${location} - ${hall.name} ${timeSlot}: Unexpected value '''${cleanValue}'''. Interpreting as Booked.`);
-                        currentStatus = 'Booked';
+                    if (config.dateColumn) {
+                        const dateColumn = config.dateColumn;
+                        const mismatch = slots
+                            .map(slot => checkDayRows(dateValues || [], dateColumn, slot.range, slot.headerOffset, daysInMonth, tab))
+                            .find(Boolean);
+                        if (mismatch) {
+                            console.error(`${config.name} - ${hall.name}: ${mismatch}`);
+                            pushFailedHall(config, hall, mismatch);
+                            return;
+                        }
                     }
-                }
 
-                console.log(`Status determined for ${location} - ${hall.name} ${timeSlot}:`, {
-                    inputValue: rawValueForLog,
-                    resultingStatus: currentStatus
+                    slots.forEach(slot => {
+                        pushMonth(config, hall, slot.name, day => readSlot(config, hall, day, slot.values, tab, slot.range, slot.headerOffset, slot.name));
+                    });
                 });
+            });
+        } catch (error) {
+            console.error(`Failed to fetch ${sheetName} from spreadsheet ${sheetId} after all retry attempts:`, error);
+            const reason = error instanceof Error ? error.message : 'Could not read the sheet';
+            locations.forEach(config => {
+                config.halls.forEach(hall => pushFailedHall(config, hall, reason));
+            });
+        }
+    }));
 
-                allResults.push({
-                    date: formatDate(selectedDate),
-                    location: typedLocation,
-                    hallName: hall.name,
-                    timeSlot,
-                    status: currentStatus
-                });
-            };
-
-            // Process morning slot
-            console.log(`[${location} - ${hall.name}] Attempting to process morning slot for day ${dayOfMonth}, using effectiveDataIndex ${effectiveMorningDataIndex}`);
-            if (morningData.values && morningData.values.length > effectiveMorningDataIndex) {
-                const rowData = morningData.values[effectiveMorningDataIndex];
-                const valueFromArray = rowData && rowData.length > 0 ? rowData[0] : undefined;
-                console.log(`[${location} - ${hall.name}] Morning: Extracted value for effectiveDataIndex ${effectiveMorningDataIndex}: '''${valueFromArray}'''. Raw row data at index:`, rowData);
-                processSlot(valueFromArray, 'Morning');
-            } else {
-                console.log(`[${location} - ${hall.name}] Morning: No data at effectiveDataIndex ${effectiveMorningDataIndex} (total rows: ${morningData.values ? morningData.values.length : 'N/A - API returned no values array'}). Passing undefined to processSlot.`);
-                processSlot(undefined, 'Morning');
-            }
+    // A month that no spreadsheet has yet is reported as missing, with no slots at all rather than every hall
+    // failing. A tab missing from only some spreadsheets makes their halls Unknown.
+    const sheetMissing = missingTabs.length > 0 && missingTabs.length === locationsBySheet.size;
+    if (sheetMissing) {
+        console.log(`${sheetName} has not been added to the sheet yet`);
+    } else {
+        missingTabs.forEach(locations => locations.forEach(config => {
+            config.halls.forEach(hall => pushFailedHall(config, hall, `The '${sheetName}' tab has not been added to the sheet yet`));
+        }));
+    }
 
-            // Process evening slot
-            console.log(`[${location} - ${hall.name}] Attempting to process evening slot for day ${dayOfMonth}, using effectiveDataIndex ${effectiveEveningDataIndex}`);
-            if (eveningData.values && eveningData.values.length > effectiveEveningDataIndex) {
-                const rowData = eveningData.values[effectiveEveningDataIndex];
-                const valueFromArray = rowData && rowData.length > 0 ? rowData[0] : undefined;
-                console.log(`[${location} - ${hall.name}] Evening: Extracted value for effectiveDataIndex ${effectiveEveningDataIndex}: '''${valueFromArray}'''. Raw row data at index:`, rowData);
-                processSlot(valueFromArray, 'Evening');
-            } else {
-                console.log(`[${location} - ${hall.name}] Evening: No data at effectiveDataIndex ${effectiveEveningDataIndex} (total rows: ${eveningData.values ? eveningData.values.length : 'N/A - API returned no values array'}). Passing undefined to processSlot.`);
-                processSlot(undefined, 'Evening');
-            }
+    const unrecognizedTokens = Array.from(unrecognized.values()).sort((a, b) => b.count - a.count);
+    if (unrecognizedTokens.length > 0) {
+        console.warn(`${sheetName}: ${unrecognizedTokens.length} cell value(s) not in the status vocabulary:`,
+            unrecognizedTokens.map(entry => `${entry.locationId}: '${entry.token}' x${entry.count}`).join(', '));
+    }
 
-        } catch (error) {
-            console.error(`Error processing ${location} - ${hall.name}:`, error);
-            
-            // Provide detailed error message to help with debugging
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`Error details for ${location} - ${hall.name}: ${errorMessage}`);
-            
-            // Add default "Booked" status for slots only if they haven't been processed successfully.
-            const addFallbackIfNeeded = (slotTime: 'Morning' | 'Evening') => {
-                const existingEntry = allResults.find(
-                    r => r.location === typedLocation &&
-                         r.hallName === hall.name &&
-                         r.timeSlot === slotTime &&
-                         r.date === formatDate(selectedDate)
-                );
-                if (!existingEntry) {
-                    console.log(`[${location} - ${hall.name}] Adding fallback "Booked" status for ${slotTime} due to hall-level error, as it was not previously processed.`);
-                    allResults.push({
-                        date: formatDate(selectedDate),
-                        location: typedLocation,
+    return {
+        sheetName,
+        year,
+        monthIndex,
+        daysInMonth,
+        fetchedAt: Date.now(),
+        complete: failedHallIds.length === 0 && !sheetMissing,
+        failedHallIds,
+        sheetMissing,
+        unrecognizedTokens,
+        days: markBookingSpans(days)
+    };
+};
+
+// A month where every hall (or just `onlyHallId`) is Unknown for `reason`, e.g. when the proxy is unreachable
+const unreadableMonth = (date: Date, venueConfig: VenueConfig, reason: string, onlyHallId?: string): MonthAvailability => {
+    const { sheetName, daysInMonth } = getSheetDetails(date);
+    const year = date.getFullYear();
+    const monthIndex = date.getMonth();
+    const locations = selectLocations(venueConfig, onlyHallId);
+
+    const days: Record<string, HallData[]> = {};
+    for (let day = 1; day <= daysInMonth; day++) {
+        const dateKey = formatDate(new Date(year, monthIndex, day));
+        days[dateKey] = [];
+        locations.forEach(location => {
+            location.halls.forEach(hall => {
+                hallSlotRanges(location, hall).forEach(({ name: timeSlot }) => {
+                    days[dateKey].push({
+                        date: dateKey,
+                        locationId: location.id,
+                        location: location.name,
+                        hallId: hall.id,
                         hallName: hall.name,
-                        timeSlot: slotTime,
-                        status: 'Booked'
+                        timeSlot,
+                        status: 'Unknown',
+                        error: reason
                     });
-                } else {
-                    console.log(`[${location} - ${hall.name}] ${slotTime} was already processed (status: ${existingEntry.status}). Not applying fallback 'Booked' status despite hall-level error.`);
-                }
-            };
-            addFallbackIfNeeded('Morning');
-            addFallbackIfNeeded('Evening');
+                });
+            });
+        });
+    }
+
+    const failedHallIds = locations.flatMap(location => location.halls.map(hall => hall.id));
+    return {
+        sheetName,
+        year,
+        monthIndex,
+        daysInMonth,
+        fetchedAt: Date.now(),
+        complete: false,
+        failedHallIds,
+        sheetMissing: false,
+        unrecognizedTokens: [],
+        days
+    };
+};
+
+// The same month read through the proxy server, which fetches it from the spreadsheets with its own key.
+// `refresh` asks the proxy to skip its cache. Failures mark the halls Unknown, like a failed Sheets read.
+const loadMonthFromProxy = async (date: Date, venueConfig: VenueConfig, onlyHallId?: string, refresh: boolean = false): Promise<MonthAvailability> => {
+    const month = formatDate(date).slice(0, 7); // YYYY-MM
+    const params = [`month=${month}`];
+    if (onlyHallId) params.push(`hallId=${encodeURIComponent(onlyHallId)}`);
+    if (refresh) params.push('refresh=1');
+
+    try {
+        const response = await fetchWithRetry(`${PROXY_URL}/availability/month?${params.join('&')}`, `proxy ${month}`);
+        if (!response.ok) {
+            throw new Error(response.status === 429
+                ? 'Too many requests to the availability server, try again in a minute'
+                : `The availability server returned status ${response.status}`);
+        }
+        const data = await response.json() as MonthAvailability;
+        if (!data.days || !Array.isArray(data.failedHallIds)) {
+            throw new Error('The availability server sent an unexpected response');
         }
+        return data;
+    } catch (error) {
+        console.error(`Failed to fetch ${month} from the proxy:`, error);
+        return unreadableMonth(date, venueConfig, error instanceof Error ? error.message : 'Could not reach the availability server', onlyHallId);
     }
 };
 
-export const fetchHallData = async (selectedDate: Date): Promise<HallData[]> => {
+// Transport switch: through the proxy when EXPO_PUBLIC_PROXY_URL is set, otherwise straight from Sheets
+const loadMonthData = (date: Date, venueConfig: VenueConfig, onlyHallId?: string, refresh: boolean = false): Promise<MonthAvailability> => {
+    return PROXY_URL
+        ? loadMonthFromProxy(date, venueConfig, onlyHallId, refresh)
+        : loadMonthFromSheets(date, venueConfig, onlyHallId, refresh);
+};
+
+// Replace one hall's slots in a month with a freshly loaded copy
+const mergeHallMonth = (month: MonthAvailability, hallMonth: MonthAvailability, hallId: string): MonthAvailability => {
+    const days: Record<string, HallData[]> = {};
+    Object.keys(month.days).forEach(dateKey => {
+        days[dateKey] = [
+            ...month.days[dateKey].filter(slot => slot.hallId !== hallId),
+            ...(hallMonth.days[dateKey] || [])
+        ];
+    });
+
+    // A hall that failed before contributed no tokens, so its new ones can simply be added
+    const unrecognized = new Map<string, UnrecognizedToken>();
+    const wasFailed = month.failedHallIds.includes(hallId);
+    [...month.unrecognizedTokens, ...(wasFailed ? hallMonth.unrecognizedTokens : [])].forEach(entry => {
+        const key = `${entry.locationId}\u0000${entry.token}`;
+        const existing = unrecognized.get(key);
+        unrecognized.set(key, existing
+            ? { ...existing, count: existing.count + entry.count, examples: [...existing.examples, ...entry.examples].slice(0, 3) }
+            : entry);
+    });
+
+    const failedHallIds = [...month.failedHallIds.filter(id => id !== hallId), ...hallMonth.failedHallIds];
+    return {
+        ...month,
+        fetchedAt: hallMonth.fetchedAt,
+        complete: failedHallIds.length === 0 && !hallMonth.sheetMissing,
+        failedHallIds,
+        sheetMissing: hallMonth.sheetMissing,
+        unrecognizedTokens: Array.from(unrecognized.values()).sort((a, b) => b.count - a.count),
+        days: markBookingSpans(days)
+    };
+};
+
+// Keep a freshly read month in memory; complete months are also persisted for offline use
+const rememberMonth = (month: MonthAvailability, venueConfig: VenueConfig) => {
+    monthCache.set(month.sheetName, month);
+    if (month.complete) {
+        saveStoredMonth(month, venueConfig);
+    }
+};
+
+// Fetch a whole month of availability for every configured hall with one read per spreadsheet.
+// Every month is kept in memory (so single halls can be retried into it), but only complete
+// months are served from there; months where a hall failed are refetched next time.
+export const fetchMonthData = async (date: Date, options?: { forceRefresh?: boolean }): Promise<MonthAvailability> => {
+    const { sheetName } = getSheetDetails(date);
+
+    if (!options?.forceRefresh) {
+        const cached = monthCache.get(sheetName);
+        if (cached?.complete) {
+            console.log(`Serving ${sheetName} from month cache (fetched ${new Date(cached.fetchedAt).toISOString()})`);
+            return cached;
+        }
+    }
+
+    const pending = pendingMonthFetches.get(sheetName);
+    if (pending) {
+        return pending;
+    }
+
+    const request = loadVenueConfig()
+        .then(async venueConfig => {
+            const month = await loadMonthData(date, venueConfig, undefined, options?.forceRefresh);
+            rememberMonth(month, venueConfig);
+            return month;
+        })
+        .finally(() => {
+            pendingMonthFetches.delete(sheetName);
+        });
+
+    pendingMonthFetches.set(sheetName, request);
+    return request;
+};
+
+// Slots of one day in a stable order: location id, hall id, then the hall's slots in the order they were read
+// (the location's slot order, Morning before Evening by default)
+export const sortDaySlots = (slots: HallData[]): HallData[] => {
+    return [...slots].sort((a, b) => {
+        if (a.locationId !== b.locationId) return a.locationId.localeCompare(b.locationId);
+        return a.hallId.localeCompare(b.hallId);
+    });
+};
+
+// Re-read a single hall's ranges for the month (e.g. after its slots came back 'Unknown')
+// and patch them into the cached month. Returns the day's slots for every hall, like fetchHallData.
+export const retryHallData = async (selectedDate: Date, hallId: string): Promise<HallData[]> => {
+    const { sheetName } = getSheetDetails(selectedDate);
+    const cached = monthCache.get(sheetName);
+    if (!cached) {
+        // Nothing to patch; a full month fetch reads this hall anyway
+        const month = await fetchMonthData(selectedDate);
+        return sortDaySlots(month.days[formatDate(selectedDate)] || []);
+    }
+
+    console.log(`Retrying ${hallId} for ${sheetName}`);
+    const venueConfig = await loadVenueConfig();
+    const hallMonth = await loadMonthData(selectedDate, venueConfig, hallId);
+    const merged = mergeHallMonth(cached, hallMonth, hallId);
+    // The config may have changed (and cleared the cache) while the hall was loading
+    if (monthCache.get(sheetName) === cached) {
+        rememberMonth(merged, venueConfig);
+    }
+    return sortDaySlots(merged.days[formatDate(selectedDate)] || []);
+};
+
+// One hall's ranges for a month, always read fresh; what the proxy serves for a single-hall retry
+export const fetchHallMonthData = async (date: Date, hallId: string): Promise<MonthAvailability> => {
+    return loadMonthData(date, await loadVenueConfig(), hallId);
+};
+
+// Put a slot changed from the app into its month grid, so the change shows until the next fetch
+export const applySlotUpdate = (slot: HallData) => {
+    const [year, month, day] = slot.date.split('-').map(Number);
+    const { sheetName } = getSheetDetails(new Date(year, month - 1, day));
+    const cached = monthCache.get(sheetName);
+    if (!cached?.days[slot.date]) {
+        return;
+    }
+
+    const days = markBookingSpans({
+        ...cached.days,
+        [slot.date]: cached.days[slot.date].map(existing =>
+            existing.hallId === slot.hallId && existing.timeSlot === slot.timeSlot ? slot : existing
+        )
+    });
+    rememberMonth({ ...cached, days }, getVenueConfig());
+};
+
+// Last known copy of a month without touching the network: this session's grid if it is complete,
+// otherwise the stored one. Used to render instantly before fetchMonthDataOrStored revalidates.
+export const getCachedMonthData = async (date: Date): Promise<SyncedMonth | null> => {
+    const { sheetName } = getSheetDetails(date);
+    const cached = monthCache.get(sheetName);
+    if (cached?.complete) {
+        return { month: cached, syncedAt: cached.fetchedAt, stale: false };
+    }
+
+    // The current config rather than loadVenueConfig(), which may wait on the network
+    const stored = await loadStoredMonth(sheetName, getVenueConfig());
+    return stored ? { month: stored, syncedAt: stored.fetchedAt, stale: true } : null;
+};
+
+// Fetch a month, filling halls that couldn't be read (e.g. while offline) from the stored copy.
+// `complete`/`failedHallIds` still describe the live read, so a later refresh retries those halls.
+export const fetchMonthDataOrStored = async (date: Date, options?: { forceRefresh?: boolean }): Promise<SyncedMonth> => {
+    const month = await fetchMonthData(date, options);
+    if (month.complete || month.sheetMissing) {
+        return { month, syncedAt: month.fetchedAt, stale: false };
+    }
+
+    const stored = await loadStoredMonth(month.sheetName, getVenueConfig());
+    if (!stored) {
+        return { month, syncedAt: month.fetchedAt, stale: false };
+    }
+
+    console.log(`Filling ${month.failedHallIds.length} unreadable hall(s) in ${month.sheetName} from the copy stored at ${new Date(stored.fetchedAt).toISOString()}`);
+    const failed = new Set(month.failedHallIds);
+    const days: Record<string, HallData[]> = {};
+    Object.keys(month.days).forEach(dateKey => {
+        days[dateKey] = [
+            ...month.days[dateKey].filter(slot => !failed.has(slot.hallId)),
+            ...(stored.days[dateKey] || []).filter(slot => failed.has(slot.hallId))
+        ];
+    });
+    return { month: { ...month, days }, syncedAt: stored.fetchedAt, stale: true };
+};
+
+// Day-level versions of the two above, in fetchHallData order
+const toSyncedDay = (synced: SyncedMonth, date: Date): SyncedDay => ({
+    halls: sortDaySlots(synced.month.days[formatDate(date)] || []),
+    syncedAt: synced.syncedAt,
+    stale: synced.stale,
+    sheetMissing: synced.month.sheetMissing
+});
+
+export const getCachedHallData = async (selectedDate: Date): Promise<SyncedDay | null> => {
+    const synced = await getCachedMonthData(selectedDate);
+    return synced ? toSyncedDay(synced, selectedDate) : null;
+};
+
+export const fetchHallDataOrStored = async (selectedDate: Date, options?: { forceRefresh?: boolean }): Promise<SyncedDay> => {
+    return toSyncedDay(await fetchMonthDataOrStored(selectedDate, options), selectedDate);
+};
+
+// Rows for the day list: a section header per location (hallName '') followed by each of a hall's slots
+// (Morning and Evening, plus any slots the location adds), in venue config order. Halls absent from `slots` are
+// skipped; a slot missing for a hall that has others is shown as Unknown, never assumed booked or free.
+export const groupDaySlots = (slots: HallData[], date: Date, venueConfig: VenueConfig = getVenueConfig()): HallData[] => {
+    const dateKey = formatDate(date);
+    const hallSlots: Record<string, Record<TimeSlot, HallData>> = {};
+    slots.forEach(slot => {
+        hallSlots[slot.hallId] = { ...hallSlots[slot.hallId], [slot.timeSlot]: slot };
+    });
+
+    const rows: HallData[] = [];
+    venueConfig.locations.forEach(location => {
+        const hallsWithData = location.halls.filter(hall => hallSlots[hall.id]);
+        if (hallsWithData.length === 0) return;
+
+        rows.push({
+            date: dateKey,
+            locationId: location.id,
+            location: location.name,
+            hallId: '',
+            hallName: '', // Indicates a section header
+            timeSlot: 'Morning', // Placeholder
+            status: 'Available'  // Placeholder
+        });
+
+        hallsWithData.forEach(hall => {
+            hallSlotRanges(location, hall).forEach(({ name: timeSlot }) => {
+                const slot = hallSlots[hall.id][timeSlot];
+                rows.push({
+                    date: dateKey,
+                    locationId: location.id,
+                    location: location.name,
+                    hallId: hall.id,
+                    hallName: hall.name,
+                    timeSlot,
+                    status: slot?.status || 'Unknown',
+                    booking: slot?.booking,
+                    span: slot?.span,
+                    error: slot ? slot.error : 'No data was returned for this slot',
+                    cell: slot?.cell
+                });
+            });
+        });
+    });
+    return rows;
+};
+
+// Venue/hall ids and display names in config order, for building filters in the UI
+export const getLocationOptions = () => {
+    return getVenueConfig().locations.map(config => ({
+        id: config.id,
+        name: config.name,
+        halls: config.halls.map(hall => ({ id: hall.id, name: hall.name }))
+    }));
+};
+
+export const fetchHallData = async (selectedDate: Date, options?: { forceRefresh?: boolean }): Promise<HallData[]> => {
     try {
         console.log('Fetching data for date:', formatDate(selectedDate));
         const { sheetName, daysInMonth, monthName, year } = getSheetDetails(selectedDate);
         console.log(`Fetching from sheet: ${sheetName}, Month has ${daysInMonth} days`);
-        
-        const allResults: HallData[] = [];
 
         // Validate the date is within the month's range
         const dayOfMonth = selectedDate.getDate();
@@ -339,45 +629,9 @@ export const fetchHallData = async (selectedDate: Date): Promise<HallData[]> =>
             return [];
         }
 
-        // Process each location with individual error handling
-        const locationPromises = Object.entries(LOCATIONS).map(async ([location, config]) => {
-            try {
-                await processData(location, config, selectedDate, allResults);
-            } catch (locationError) {
-                // Log error but continue processing other locations
-                console.error(`Error processing location ${location}:`, locationError);
-                
-                // Add all halls for this location as "Booked" (failsafe approach)
-                config.halls.forEach(hall => {
-                    allResults.push(
-                        {
-                            date: formatDate(selectedDate),
-                            location: location as 'GMK Banquets Tathawade' | 'GMK Banquets Ravet',
-                            hallName: hall.name,
-                            timeSlot: 'Morning',
-                            status: 'Booked'
-                        },
-                        {
-                            date: formatDate(selectedDate),
-                            location: location as 'GMK Banquets Tathawade' | 'GMK Banquets Ravet',
-                            hallName: hall.name,
-                            timeSlot: 'Evening',
-                            status: 'Booked'
-                        }
-                    );
-                });
-            }
-        });
-        
-        // Wait for all locations to be processed (or fail gracefully)
-        await Promise.all(locationPromises);
-
-        // Sort results by location and hall name for consistent display
-        allResults.sort((a, b) => {
-            if (a.location !== b.location) return a.location.localeCompare(b.location);
-            if (a.hallName !== b.hallName) return a.hallName.localeCompare(b.hallName);
-            return a.timeSlot === 'Morning' ? -1 : 1;
-        });
+        const month = await fetchMonthData(selectedDate, options);
+        // Sort results by location and hall id for consistent display
+        const allResults = sortDaySlots(month.days[formatDate(selectedDate)] || []);
 
         return allResults;
     } catch (error) {
@@ -389,65 +643,9 @@ export const fetchHallData = async (selectedDate: Date): Promise<HallData[]> =>
                 stack: error.stack
             });
         }
-        
+
         // Return an empty array rather than failing completely
         // The UI can still show an error message based on empty results
         return [];
     }
 };
-
-export const checkSheetOffsets = async () => {
-    console.log('Checking sheet offsets...');
-    const date = new Date(2025, 4, 1); // May 1, 2025
-    
-    for (const [location, config] of Object.entries(LOCATIONS)) {
-        console.log(`\n--- Checking ${location} ---`);
-        const { sheetName } = getSheetDetails(date); // sheetName is now "MONTH YEAR", e.g., "MAY 2025"
-        
-        for (const hall of config.halls) {
-            try {
-                console.log(`\n${location} - ${hall.name}:`);
-                
-                // Fetch morning data to examine structure
-                const morningRangeString = `'${sheetName}'!${hall.morningRange}`;
-                const encodedMorningRange = encodeURIComponent(morningRangeString);
-                const morningUrl = `https://sheets.googleapis.com/v4/spreadsheets/${config.sheetId}/values/${encodedMorningRange}?key=${API_KEY}&alt=json`;
-                console.log(`- Fetching morning data from: ${morningUrl}`);
-                
-                const morningResponse = await fetch(morningUrl);
-                if (!morningResponse.ok) {
-                    console.log(`  ❌ API request failed: ${morningResponse.status}`);
-                    continue;
-                }
-                
-                const morningData = await morningResponse.json() as GoogleSheetsResponse;
-                if (morningData.values && morningData.values.length > 0) {
-                    console.log(`  ✓ Got ${morningData.values.length} rows`);
-                    console.log(`  ➤ First row (index 0): ${JSON.stringify(morningData.values[0])}`);
-                    console.log(`  ➤ Second row (index 1): ${morningData.values[1] ? JSON.stringify(morningData.values[1]) : 'N/A'}`);
-                    console.log(`  ➤ Third row (index 2): ${morningData.values[2] ? JSON.stringify(morningData.values[2]) : 'N/A'}`);
-                    
-                    // Check the value at index 0 (which would be day 1 if offset is 0)
-                    const valueAtZero = morningData.values[0] && morningData.values[0].length > 0 
-                        ? morningData.values[0][0] 
-                        : 'undefined';
-                    console.log(`  ➤ Value at index 0: '${valueAtZero}'`);
-                    
-                    // Check for entire range values to analyze pattern
-                    if (morningData.values.length >= 3) {
-                        for (let i = 0; i < Math.min(5, morningData.values.length); i++) {
-                            const val = morningData.values[i] && morningData.values[i].length > 0 
-                                ? morningData.values[i][0] 
-                                : 'undefined';
-                            console.log(`  ➤ Row ${i}: '${val}'`);
-                        }
-                    }
-                } else {
-                    console.log('  ❌ No values array in response');
-                }
-            } catch (error) {
-                console.error(`  ❌ Error checking ${location} - ${hall.name}:`, error);
-            }
-        }
-    }
-};
@@ -0,0 +1,75 @@
+// App lock for a signed-in session: after a period without touches or when the app has been in the
+// background, the booking calendar is hidden until the user re-enters their PIN (or uses biometrics).
+// The state is persisted, so force-closing the app does not skip the lock.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppLockState } from '../types';
+
+const APP_LOCK_STORAGE_KEY = '@gmk_app_lock';
+
+// Lock after this long without a touch
+export const LOCK_TIMEOUT_MS = (Number(process.env.EXPO_PUBLIC_LOCK_TIMEOUT_MINUTES) || 5) * 60 * 1000;
+// Lock when the app comes back from the background after longer than this (covers a quick switch to the dialer)
+export const BACKGROUND_GRACE_MS = (Number(process.env.EXPO_PUBLIC_LOCK_BACKGROUND_GRACE_SECONDS) || 30) * 1000;
+
+const MAX_FAILED_ATTEMPTS = 5;
+// First lockout lasts this long; each further lockout doubles it, up to MAX_LOCKOUT_MS
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+const unlockedState = (now: number): AppLockState => ({
+    locked: false,
+    lastActiveAt: now,
+    failedAttempts: 0,
+    lockouts: 0,
+    lockoutUntil: null
+});
+
+// The persisted lock state; a session that sat idle past the timeout while the app was closed starts locked
+export const loadLockState = async (now: number = Date.now()): Promise<AppLockState> => {
+    try {
+        const raw = await AsyncStorage.getItem(APP_LOCK_STORAGE_KEY);
+        if (!raw) {
+            return unlockedState(now);
+        }
+        const state = JSON.parse(raw) as AppLockState;
+        return now - state.lastActiveAt > LOCK_TIMEOUT_MS ? { ...state, locked: true } : state;
+    } catch (e) {
+        console.warn('Failed to load app lock state, locking to be safe:', e);
+        return { ...unlockedState(now), locked: true };
+    }
+};
+
+export const saveLockState = async (state: AppLockState) => {
+    try {
+        await AsyncStorage.setItem(APP_LOCK_STORAGE_KEY, JSON.stringify(state));
+    } catch (e) {
+        console.warn('Failed to save app lock state:', e);
+    }
+};
+
+// Forget the lock state when the user signs out; the next user starts unlocked
+export const clearLockState = async () => {
+    await AsyncStorage.removeItem(APP_LOCK_STORAGE_KEY);
+};
+
+export const lockState = (state: AppLockState): AppLockState => ({ ...state, locked: true });
+
+export const unlockState = (now: number = Date.now()): AppLockState => unlockedState(now);
+
+// Count a wrong PIN, starting a lockout after MAX_FAILED_ATTEMPTS in a row
+export const recordFailedUnlock = (state: AppLockState, now: number = Date.now()): AppLockState => {
+    const failedAttempts = state.failedAttempts + 1;
+    if (failedAttempts < MAX_FAILED_ATTEMPTS) {
+        return { ...state, failedAttempts };
+    }
+
+    const lockouts = state.lockouts + 1;
+    const duration = Math.min(BASE_LOCKOUT_MS * Math.pow(2, lockouts - 1), MAX_LOCKOUT_MS);
+    console.warn(`${failedAttempts} wrong PINs, blocking unlock attempts for ${Math.round(duration / 1000)}s`);
+    return { ...state, failedAttempts: 0, lockouts, lockoutUntil: now + duration };
+};
+
+export const attemptsRemaining = (state: AppLockState) => MAX_FAILED_ATTEMPTS - state.failedAttempts;
+
+export const isLockedOut = (state: AppLockState, now: number = Date.now()) =>
+    state.lockoutUntil !== null && state.lockoutUntil > now;
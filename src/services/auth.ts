@@ -0,0 +1,219 @@
+// Staff accounts and sessions. Each user signs in with a username and PIN checked against either a
+// USERS tab in the config spreadsheet (salted PIN hashes) or an HTTP backend, and gets a session
+// that expires. Removing or deactivating a user ends their session the next time the app checks.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Session, UserAccount, UserRole } from '../types';
+import { PROXY_URL } from './sheetsClient';
+import { USER_ROLES, fetchSheetUsers, normalizeUsername, parseRole } from './userAccounts';
+import { clearLockState } from './appLock';
+import { signOutGoogle } from './googleAuth';
+
+const SESSION_STORAGE_KEY = '@gmk_session';
+const USERS_CACHE_KEY = '@gmk_users';
+// Flag written by the old shared-password screen; it granted access forever
+const LEGACY_AUTH_STORAGE_KEY = '@gmk_hall_app_authenticated';
+
+// An HTTP backend wins over the USERS tab when both are configured; the proxy server is one
+const AUTH_URL = (process.env.EXPO_PUBLIC_AUTH_URL || PROXY_URL).replace(/\/+$/, '');
+const SESSION_HOURS = Number(process.env.EXPO_PUBLIC_SESSION_HOURS) || 12;
+
+// Least privileged role allowed to do each gated action
+const PERMISSIONS = {
+    editSlots: 'manager',
+    shareAvailability: 'sales',
+    logEnquiries: 'sales',
+    placeHolds: 'sales',
+    releaseAnyHold: 'manager',
+    createQuotes: 'sales',
+} satisfies Record<string, UserRole>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (session: Session | null, permission: Permission): boolean => {
+    if (!session) return false;
+    return USER_ROLES.indexOf(session.role) >= USER_ROLES.indexOf(PERMISSIONS[permission]);
+};
+
+// Same scheme as hash_pin.ts: sha256 of "<salt>:<pin>"
+const verifyPin = async (pin: string, pinHash: string): Promise<boolean> => {
+    const [scheme, salt, expected] = pinHash.split(':');
+    if (scheme !== 'sha256' || !salt || !expected) {
+        return false;
+    }
+    const actual = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+    return actual.toLowerCase() === expected.toLowerCase();
+};
+
+// Users from the USERS tab; the last good copy is kept so staff can still sign in offline
+const loadSheetUsers = async (): Promise<UserAccount[]> => {
+    try {
+        const users = await fetchSheetUsers();
+        await AsyncStorage.setItem(USERS_CACHE_KEY, JSON.stringify(users));
+        return users;
+    } catch (error) {
+        console.warn('Could not load the users tab, trying the cached copy:', error);
+        const cached = await AsyncStorage.getItem(USERS_CACHE_KEY);
+        if (!cached) {
+            throw new Error('Could not reach the user list. Check your connection and try again.');
+        }
+        return JSON.parse(cached) as UserAccount[];
+    }
+};
+
+// HTTP backend contract:
+//   POST {AUTH_URL}/login  {"username","pin"} -> 200 {"username","name","role","token"?} or 401
+//   GET  {AUTH_URL}/users/:username           -> 200 {"username","name","role","active"} or 404,
+//        with "Authorization: Bearer <token>" when /login gave a token
+type SignedInAccount = UserAccount & { token?: string };
+
+const loginWithBackend = async (username: string, pin: string): Promise<SignedInAccount | null> => {
+    const response = await fetch(`${AUTH_URL}/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, pin })
+    });
+    if (response.status === 401 || response.status === 403) {
+        return null;
+    }
+    if (response.status === 429) {
+        throw new Error('Too many sign-in attempts. Wait a few minutes and try again.');
+    }
+    if (!response.ok) {
+        throw new Error(`Sign-in failed (status ${response.status})`);
+    }
+    const user = await response.json() as Partial<SignedInAccount>;
+    const role = parseRole(user.role || '');
+    if (!role) {
+        throw new Error('Your account has no valid role. Ask an admin to fix it.');
+    }
+    return {
+        username: normalizeUsername(user.username || username),
+        name: user.name || username,
+        role,
+        active: true,
+        ...(typeof user.token === 'string' ? { token: user.token } : {})
+    };
+};
+
+// The account as the backend currently knows it; null if it was removed
+const lookUpUser = async (username: string, token?: string): Promise<UserAccount | null> => {
+    if (AUTH_URL) {
+        const response = await fetch(`${AUTH_URL}/users/${encodeURIComponent(username)}`, {
+            headers: token ? { Authorization: `Bearer ${token}` } : {}
+        });
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new Error(`User lookup failed (status ${response.status})`);
+        }
+        const user = await response.json() as Partial<UserAccount>;
+        const role = parseRole(user.role || '');
+        return role ? { username, name: user.name || username, role, active: user.active !== false } : null;
+    }
+    const users = await loadSheetUsers();
+    return users.find(user => user.username === username) || null;
+};
+
+const startSession = async (user: SignedInAccount): Promise<Session> => {
+    const now = Date.now();
+    const session: Session = {
+        username: user.username,
+        name: user.name,
+        role: user.role,
+        issuedAt: now,
+        expiresAt: now + SESSION_HOURS * 60 * 60 * 1000,
+        ...(user.token ? { token: user.token } : {})
+    };
+    await AsyncStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    console.log(`Signed in as ${session.username} (${session.role}) until ${new Date(session.expiresAt).toISOString()}`);
+    return session;
+};
+
+// Check a username and PIN against the configured backend. Returns null for an unknown user or wrong PIN;
+// throws (with a message for the sign-in screen) when the check itself couldn't be made or the account is disabled.
+const authenticate = async (username: string, pin: string): Promise<SignedInAccount | null> => {
+    const normalized = normalizeUsername(username);
+    if (!normalized || !pin) {
+        throw new Error('Enter your username and PIN.');
+    }
+
+    if (AUTH_URL) {
+        return loginWithBackend(normalized, pin);
+    }
+
+    const users = await loadSheetUsers();
+    const user = users.find(candidate => candidate.username === normalized);
+    if (!user || !user.pinHash || !(await verifyPin(pin, user.pinHash))) {
+        return null;
+    }
+    if (!user.active) {
+        throw new Error('This account has been disabled. Ask an admin for access.');
+    }
+    return user;
+};
+
+export const signIn = async (username: string, pin: string): Promise<Session> => {
+    const user = await authenticate(username, pin);
+    // Same message for unknown users and wrong PINs
+    if (!user) {
+        throw new Error('Incorrect username or PIN.');
+    }
+    return startSession(user);
+};
+
+// Re-check the signed-in user's PIN, e.g. to unlock the app; false if it is wrong
+export const verifyUserPin = async (session: Session, pin: string): Promise<boolean> => {
+    return (await authenticate(session.username, pin)) !== null;
+};
+
+// Also signs out of Google, so the next person on a shared device doesn't write to the sheet as this one
+export const signOut = async () => {
+    await AsyncStorage.removeItem(SESSION_STORAGE_KEY);
+    await clearLockState();
+    await signOutGoogle();
+};
+
+// The stored session, or null if there is none or it has expired
+export const loadSession = async (): Promise<Session | null> => {
+    try {
+        await AsyncStorage.removeItem(LEGACY_AUTH_STORAGE_KEY);
+
+        const raw = await AsyncStorage.getItem(SESSION_STORAGE_KEY);
+        if (!raw) return null;
+
+        const session = JSON.parse(raw) as Session;
+        if (isSessionExpired(session)) {
+            console.log(`Session for ${session.username} has expired`);
+            await signOut();
+            return null;
+        }
+        return session;
+    } catch (e) {
+        console.error('Failed to load session', e);
+        return null;
+    }
+};
+
+export const isSessionExpired = (session: Session, now: number = Date.now()) => session.expiresAt <= now;
+
+// Re-check a session against the backend: null if the user was removed or disabled,
+// otherwise the session with their current name and role. Network failures keep the session as is.
+export const revalidateSession = async (session: Session): Promise<Session | null> => {
+    try {
+        const user = await lookUpUser(session.username, session.token);
+        if (!user || !user.active) {
+            console.warn(`User ${session.username} no longer has access, signing out`);
+            await signOut();
+            return null;
+        }
+        if (user.role === session.role && user.name === session.name) {
+            return session;
+        }
+        const updated: Session = { ...session, role: user.role, name: user.name };
+        await AsyncStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(updated));
+        return updated;
+    } catch (error) {
+        console.warn('Could not re-check the session, keeping it for now:', error);
+        return session;
+    }
+};
@@ -0,0 +1,210 @@
+// What sales staff send to customers: a day's (or a few days') availability as a WhatsApp-ready message
+// or an HTML page for a PDF. Rows are grouped by location in venue config order, as on the results screen.
+// Only statuses are shared; client names and notes written in the sheet stay in the app.
+import { HallData, SlotStatus, SyncedMonth, TimeSlot } from '../types';
+import { fetchMonthDataOrStored, getSheetDetails, groupDaySlots } from './api';
+import { formatDate } from './dates';
+import { statusColors } from '../theme';
+
+export const BRAND_NAME = 'GMK Banquets';
+// Don't let one tap read more than a couple of month tabs
+export const MAX_EXPORT_DAYS = 31;
+
+// One day of the export: the rows groupDaySlots builds (a header row per location, then each hall's slots)
+export interface ExportDay {
+    date: string; // 'YYYY-MM-DD'
+    rows: HallData[];
+}
+
+export interface AvailabilityExport {
+    days: ExportDay[];
+    syncedAt: number; // Oldest read among the days, epoch milliseconds
+    stale: boolean;   // Some of it came from the stored copy
+}
+
+// How each status reads to a customer
+export const CUSTOMER_STATUS_LABELS: Record<SlotStatus, string> = {
+    Available: 'Available',
+    Booked: 'Booked',
+    Enquiry: 'On hold',
+    Maintenance: 'Not available',
+    Unknown: 'To be confirmed'
+};
+
+const STATUS_MARKS: Record<SlotStatus, string> = {
+    Available: '✅',
+    Booked: '❌',
+    Enquiry: '⏳',
+    Maintenance: '⛔',
+    Unknown: '❔'
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// '2025-06-14' -> "Sat, 14 Jun 2025"
+export const formatExportDate = (dateKey: string): string => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return `${WEEKDAYS[date.getDay()]}, ${day} ${MONTHS[month - 1]} ${year}`;
+};
+
+// Epoch milliseconds -> "14 Jun 2025, 09:05"
+const formatTimestamp = (time: number): string => {
+    const date = new Date(time);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}, ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+interface ExportHall {
+    name: string;
+    slots: HallData[];
+}
+
+interface ExportLocation {
+    name: string;
+    halls: ExportHall[];
+}
+
+// The rows of a day as locations, each with its halls and their slots, keeping the row order
+export const exportLocations = (rows: HallData[]): ExportLocation[] => {
+    const locations: ExportLocation[] = [];
+    rows.forEach(row => {
+        if (row.hallName === '') {
+            locations.push({ name: row.location, halls: [] });
+            return;
+        }
+        const location = locations[locations.length - 1];
+        if (!location) return;
+        const hall = location.halls[location.halls.length - 1];
+        if (hall && hall.slots[0].hallId === row.hallId) {
+            hall.slots.push(row);
+        } else {
+            location.halls.push({ name: row.hallName, slots: [row] });
+        }
+    });
+    return locations;
+};
+
+// The slots of a location in the order its halls have them, for table columns
+const locationSlotNames = (location: ExportLocation): TimeSlot[] => {
+    const names: TimeSlot[] = [];
+    location.halls.forEach(hall => hall.slots.forEach(slot => {
+        if (!names.includes(slot.timeSlot)) names.push(slot.timeSlot);
+    }));
+    return names;
+};
+
+const footer = (data: AvailabilityExport) =>
+    `Availability as of ${formatTimestamp(data.syncedAt)}${data.stale ? ' (offline copy)' : ''}. Subject to confirmation.`;
+
+// A message for WhatsApp: *bold* headings and one line per hall, e.g.
+// "Aster: Morning ✅ Available · Evening ❌ Booked (full day)"
+export const formatAvailabilityText = (data: AvailabilityExport): string => {
+    const lines: string[] = [`*${BRAND_NAME} – Hall availability*`];
+    data.days.forEach(day => {
+        lines.push('', `*${formatExportDate(day.date)}*`);
+        const locations = exportLocations(day.rows);
+        if (locations.length === 0) {
+            lines.push('No halls to show for this date.');
+        }
+        locations.forEach(location => {
+            lines.push('', `_${location.name}_`);
+            location.halls.forEach(hall => {
+                const slots = hall.slots.map(slot => `${slot.timeSlot} ${STATUS_MARKS[slot.status]} ${CUSTOMER_STATUS_LABELS[slot.status]}`);
+                const span = hall.slots.find(slot => slot.span?.fullDay);
+                lines.push(`${hall.name}: ${slots.join(' · ')}${span ? ' (full day)' : ''}`);
+            });
+        });
+    });
+    lines.push('', footer(data));
+    return lines.join('\n');
+};
+
+export const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// A printable page (for expo-print) with a table per location and day
+export const buildAvailabilityHtml = (data: AvailabilityExport): string => {
+    const sections = data.days.map(day => {
+        const locations = exportLocations(day.rows);
+        const tables = locations.map(location => {
+            const slotNames = locationSlotNames(location);
+            const header = slotNames.map(name => `<th>${escapeHtml(name)}</th>`).join('');
+            const body = location.halls.map(hall => {
+                const cells = slotNames.map(name => {
+                    const slot = hall.slots.find(candidate => candidate.timeSlot === name);
+                    if (!slot) return '<td class="none">–</td>';
+                    const label = `${CUSTOMER_STATUS_LABELS[slot.status]}${slot.span?.fullDay ? ' – full day' : ''}`;
+                    return `<td style="background:${statusColors[slot.status].background}">${escapeHtml(label)}</td>`;
+                }).join('');
+                return `<tr><td class="hall">${escapeHtml(hall.name)}</td>${cells}</tr>`;
+            }).join('');
+            return `<h3>${escapeHtml(location.name)}</h3><table><tr><th>Hall</th>${header}</tr>${body}</table>`;
+        }).join('');
+        return `<section><h2>${escapeHtml(formatExportDate(day.date))}</h2>${tables || '<p>No halls to show for this date.</p>'}</section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222222; margin: 24px; }
+  h1 { color: #C6A556; margin: 0 0 4px; }
+  h2 { border-bottom: 2px solid #C6A556; padding-bottom: 4px; margin-top: 28px; }
+  h3 { margin: 16px 0 6px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #CCCCCC; padding: 6px 8px; text-align: center; font-size: 13px; }
+  th { background: #1C1C1E; color: #FFFFFF; }
+  td.hall { text-align: left; font-weight: bold; }
+  td.none { color: #999999; }
+  section { page-break-inside: avoid; }
+  .footer { margin-top: 28px; color: #666666; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(BRAND_NAME)}</h1>
+<div>Hall availability</div>
+${sections}
+<p class="footer">${escapeHtml(footer(data))}</p>
+</body>
+</html>`;
+};
+
+// The rows of every day from `startDate` to `endDate` (inclusive), read like the results screen reads a day:
+// live where possible, otherwise from the stored copy
+export const collectAvailability = async (startDate: Date, endDate: Date): Promise<AvailabilityExport> => {
+    const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+    if (start > end) {
+        throw new Error('The start date must be on or before the end date.');
+    }
+    const dayCount = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+    if (dayCount > MAX_EXPORT_DAYS) {
+        throw new Error(`Please share at most ${MAX_EXPORT_DAYS} days at a time.`);
+    }
+
+    const days: ExportDay[] = [];
+    let syncedAt = Date.now();
+    let stale = false;
+    const months = new Map<string, SyncedMonth>();
+    for (let offset = 0; offset < dayCount; offset++) {
+        const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+        const { sheetName } = getSheetDetails(date);
+        let synced = months.get(sheetName);
+        if (!synced) {
+            synced = await fetchMonthDataOrStored(date);
+            months.set(sheetName, synced);
+            syncedAt = Math.min(syncedAt, synced.syncedAt);
+            stale = stale || synced.stale;
+        }
+        const dateKey = formatDate(date);
+        days.push({ date: dateKey, rows: groupDaySlots(synced.month.days[dateKey] || [], date) });
+    }
+    return { days, syncedAt, stale };
+};
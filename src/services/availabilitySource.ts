@@ -0,0 +1,58 @@
+// Where sheet data is read from. Availability, the venue config tab and the users tab are all read through
+// the selected source, so the app, the proxy and the scripts can run against live Google Sheets, the bundled
+// fixtures or an in-memory mock with the same processing pipeline.
+// Select with EXPO_PUBLIC_AVAILABILITY_SOURCE = sheets (default) | fixtures | mock.
+import { createSheetsSource } from './sheetsSource';
+import { AvailabilityFixture, createFixtureSource } from './fixtureSource';
+import { createMockSource } from './mockSource';
+import bundledFixture from '../fixtures/availability.json';
+
+export type AvailabilitySourceName = 'sheets' | 'fixtures' | 'mock';
+
+export interface RangeRead {
+    // A tab named in the ranges doesn't exist, e.g. next month's hasn't been added yet
+    tabMissing: boolean;
+    // One entry per requested range, in request order: the range's rows ([] if it is empty),
+    // or undefined if the backend didn't return that range
+    valueRanges: Array<string[][] | undefined>;
+}
+
+export interface AvailabilitySource {
+    readonly name: AvailabilitySourceName;
+    // Read A1 ranges such as "'JUN 2025'!B4:B33" from one spreadsheet in a single round trip.
+    // Rejects when the spreadsheet can't be read at all (offline, quota, bad key, ...).
+    readRanges(sheetId: string, ranges: string[]): Promise<RangeRead>;
+    // Titles of the spreadsheet's tabs exactly as written (spaces included), or null if the source can't list them.
+    // Rejects like readRanges.
+    listTabs(sheetId: string): Promise<string[] | null>;
+}
+
+const createConfiguredSource = (): AvailabilitySource => {
+    const name = process.env.EXPO_PUBLIC_AVAILABILITY_SOURCE || 'sheets';
+    switch (name) {
+        case 'fixtures':
+            return createFixtureSource(bundledFixture as AvailabilityFixture);
+        case 'mock':
+            return createMockSource();
+        case 'sheets':
+            return createSheetsSource();
+        default:
+            console.warn(`Unknown EXPO_PUBLIC_AVAILABILITY_SOURCE '${name}', reading Google Sheets`);
+            return createSheetsSource();
+    }
+};
+
+let currentSource: AvailabilitySource | null = null;
+
+export const getAvailabilitySource = (): AvailabilitySource => {
+    if (!currentSource) {
+        currentSource = createConfiguredSource();
+        console.log(`Reading sheet data from: ${currentSource.name}`);
+    }
+    return currentSource;
+};
+
+// Swap the source, e.g. for a test or script. Call clearMonthCache() too so grids from the old source aren't served.
+export const setAvailabilitySource = (source: AvailabilitySource) => {
+    currentSource = source;
+};
@@ -0,0 +1,90 @@
+// Month grids persisted in AsyncStorage so the app can show the last known availability instantly
+// (and offline) while a fresh copy is fetched in the background.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MonthAvailability, VenueConfig } from '../types';
+
+const STORE_KEY_PREFIX = '@gmk_availability_';
+// Months ending before the start of this many months ago are dropped
+const KEEP_PAST_MONTHS = 1;
+// Upper bound on stored months; the least recently fetched go first
+const MAX_STORED_MONTHS = 12;
+
+interface StoredMonth {
+    layout: string; // Layout signature of the venue config the month was read with
+    month: MonthAvailability;
+}
+
+const storeKey = (sheetName: string) => `${STORE_KEY_PREFIX}${sheetName}`;
+
+// Hall ids and ranges decide which cell became which slot; a month read with another layout can't be reused
+const layoutSignature = (config: VenueConfig): string => {
+    return config.locations.map(location =>
+        `${location.id}@${location.sheetId}:` + location.halls.map(hall =>
+            `${hall.id}=${hall.morningRange}+${hall.morningHeaderOffset || 0}/${hall.eveningRange}+${hall.eveningHeaderOffset || 0}` +
+            (hall.extraSlots || []).map(slot => `/${slot.name}:${slot.range}+${slot.headerOffset || 0}`).join('')
+        ).join(',')
+    ).join(';');
+};
+
+export const saveStoredMonth = async (month: MonthAvailability, config: VenueConfig) => {
+    try {
+        const entry: StoredMonth = { layout: layoutSignature(config), month };
+        await AsyncStorage.setItem(storeKey(month.sheetName), JSON.stringify(entry));
+        console.log(`Stored ${month.sheetName} (fetched ${new Date(month.fetchedAt).toISOString()})`);
+        await evictStoredMonths();
+    } catch (e) {
+        console.warn(`Failed to store ${month.sheetName}:`, e);
+    }
+};
+
+// The stored copy of a month, or null if there is none or it was read with a different hall layout
+export const loadStoredMonth = async (sheetName: string, config: VenueConfig): Promise<MonthAvailability | null> => {
+    try {
+        const raw = await AsyncStorage.getItem(storeKey(sheetName));
+        if (!raw) return null;
+
+        const entry = JSON.parse(raw) as StoredMonth;
+        if (entry.layout !== layoutSignature(config)) {
+            console.log(`Ignoring stored ${sheetName}: venue layout has changed since it was fetched`);
+            return null;
+        }
+        return entry.month;
+    } catch (e) {
+        console.warn(`Failed to load stored ${sheetName}:`, e);
+        return null;
+    }
+};
+
+// Drop months that are long past, then the least recently fetched beyond MAX_STORED_MONTHS
+export const evictStoredMonths = async (now: Date = new Date()) => {
+    try {
+        const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(STORE_KEY_PREFIX));
+        const entries = await AsyncStorage.multiGet(keys);
+        const cutoff = new Date(now.getFullYear(), now.getMonth() - KEEP_PAST_MONTHS, 1);
+
+        const expired: string[] = [];
+        const kept: Array<{ key: string; fetchedAt: number }> = [];
+        entries.forEach(([key, raw]) => {
+            try {
+                const { month } = JSON.parse(raw || '') as StoredMonth;
+                if (new Date(month.year, month.monthIndex + 1, 1) <= cutoff) {
+                    expired.push(key);
+                } else {
+                    kept.push({ key, fetchedAt: month.fetchedAt });
+                }
+            } catch {
+                expired.push(key); // Unreadable entry
+            }
+        });
+
+        kept.sort((a, b) => b.fetchedAt - a.fetchedAt);
+        expired.push(...kept.slice(MAX_STORED_MONTHS).map(entry => entry.key));
+
+        if (expired.length > 0) {
+            await AsyncStorage.multiRemove(expired);
+            console.log(`Evicted ${expired.length} stored month(s):`, expired.map(key => key.slice(STORE_KEY_PREFIX.length)).join(', '));
+        }
+    } catch (e) {
+        console.warn('Failed to evict stored months:', e);
+    }
+};
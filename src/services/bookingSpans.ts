@@ -0,0 +1,86 @@
+// Full-day and multi-day bookings. Staff book a hall for the whole day or for consecutive days by writing
+// the same booking into each cell, e.g. "occ - Sharma Wedding" in both the Morning and Evening columns.
+// Cells are linked by their client/event label only: plain "occ" cells say nothing about who booked them.
+import { BookingSpan, HallData } from '../types';
+
+// "Sharma Wedding day 2", "Sharma Wedding - Day 2/3" and "Sharma Wedding (day 2 of 3)" are all "sharma wedding"
+const DAY_NUMBER_SUFFIX = /[\s\-–(]*\bday\s*\d+(\s*(of|\/)\s*\d+)?\)?\s*$/i;
+
+// What links the cells of one booking, or null for a slot that can't be part of one
+const bookingKey = (slot: HallData): string | null => {
+    if ((slot.status !== 'Booked' && slot.status !== 'Enquiry') || !slot.booking?.label) {
+        return null;
+    }
+    const key = slot.booking.label.replace(DAY_NUMBER_SUFFIX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+    return key || null;
+};
+
+// A copy of a month's days with `span` set on every slot of a full-day or multi-day booking (and cleared elsewhere).
+// Bookings that run over the end of the month are counted within the month only.
+export const markBookingSpans = (days: Record<string, HallData[]>): Record<string, HallData[]> => {
+    const dateKeys = Object.keys(days).sort();
+
+    // Per hall and day, the booking key of each slot
+    const keysByHall = new Map<string, Array<Map<string, string | null>>>();
+    dateKeys.forEach((dateKey, dayIndex) => {
+        days[dateKey].forEach(slot => {
+            let hallDays = keysByHall.get(slot.hallId);
+            if (!hallDays) {
+                hallDays = dateKeys.map(() => new Map());
+                keysByHall.set(slot.hallId, hallDays);
+            }
+            hallDays[dayIndex].set(slot.timeSlot, bookingKey(slot));
+        });
+    });
+
+    // Per hall and booking key, the span of each day it appears on
+    const spans = new Map<string, BookingSpan>();
+    const spanKey = (hallId: string, dayIndex: number, key: string) => `${hallId}\u0000${dayIndex}\u0000${key}`;
+    keysByHall.forEach((hallDays, hallId) => {
+        const hasKey = (dayIndex: number, key: string) =>
+            dayIndex >= 0 && dayIndex < hallDays.length && Array.from(hallDays[dayIndex].values()).includes(key);
+
+        hallDays.forEach((slotKeys, dayIndex) => {
+            new Set(slotKeys.values()).forEach(key => {
+                if (key === null || hasKey(dayIndex - 1, key)) return;
+                // First day of a run; follow it through the consecutive days
+                let days = 1;
+                while (hasKey(dayIndex + days, key)) days++;
+                for (let offset = 0; offset < days; offset++) {
+                    const keys = Array.from(hallDays[dayIndex + offset].values());
+                    const fullDay = keys.length > 1 && keys.every(other => other === key);
+                    if (fullDay || days > 1) {
+                        spans.set(spanKey(hallId, dayIndex + offset, key), { fullDay, day: offset + 1, days });
+                    }
+                }
+            });
+        });
+    });
+
+    const marked: Record<string, HallData[]> = {};
+    dateKeys.forEach((dateKey, dayIndex) => {
+        marked[dateKey] = days[dateKey].map(slot => {
+            const key = bookingKey(slot);
+            const span = key === null ? undefined : spans.get(spanKey(slot.hallId, dayIndex, key));
+            if (span) {
+                return { ...slot, span };
+            }
+            if (!slot.span) {
+                return slot;
+            }
+            const { span: _stale, ...rest } = slot;
+            return rest;
+        });
+    });
+    return marked;
+};
+
+// How a slot's span reads on its hall card: "Booked – full day", "Day 2 of 3" or both; null if it has none
+export const describeSpan = (slot: HallData): string | null => {
+    if (!slot.span) return null;
+    const parts = [
+        slot.span.fullDay ? `${slot.status} – full day` : null,
+        slot.span.days > 1 ? `Day ${slot.span.day} of ${slot.span.days}` : null
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : null;
+};
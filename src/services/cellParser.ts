@@ -0,0 +1,161 @@
+// Turns the free text managers type into a sheet cell into a slot status plus structured booking details.
+// Typical cells: "vac", "occ", "Sharma Wedding", "Patil - Reception (advance paid)", "Tentative - Joshi engagement?"
+import { BookingDetails, SlotStatus, StatusRule } from '../types';
+
+export interface ParsedCell {
+    status: SlotStatus;
+    booking?: BookingDetails;
+    recognized: boolean; // false when no status rule matched and the status was inferred from free text
+    error?: string;      // Set with status 'Unknown'
+}
+
+// Tokens understood at every location; a location's own statusVocabulary is checked first
+export const DEFAULT_STATUS_VOCABULARY: StatusRule[] = [
+    { match: '', status: 'Available' },
+    { match: 'vac', status: 'Available' },
+    { match: 'vacc', status: 'Available' },
+    { match: 'vacant', status: 'Available' },
+    { match: 'free', status: 'Available' },
+    { match: '-', status: 'Available' },
+    { match: 'occ', status: 'Booked' },
+    { match: 'occupied', status: 'Booked' },
+    { match: 'booked', status: 'Booked' },
+    { match: 'hold', status: 'Enquiry' },
+    { match: 'tentative', status: 'Enquiry' },
+    { match: 'maintenance', status: 'Maintenance' },
+    { match: 'renovation', status: 'Maintenance' },
+];
+
+// Markers meaning the slot is held for a customer but not confirmed
+const TENTATIVE_MARKER = /\b(tentative|tent|on hold|hold|tbc|tbd|pencil(?:led)?|enq|enquiry|inquiry)\b/gi;
+// Leading "occ"/"occupied" in front of a client name, e.g. "occ - Sharma"
+const BOOKED_PREFIX = /^(occ|occupied)\b[\s:\-/]*/i;
+// Notes are kept in brackets, e.g. "(advance paid)" or "[decorator: Rao]"
+const NOTES_PATTERN = /[([]([^)\]]*)[)\]]/g;
+const PART_SEPARATOR = /\s+-\s+|\s*[/|,;]\s*/;
+// A status token in front of a client name, e.g. "occ - Sharma" or "hold: Joshi" (as written by formatCellValue)
+const LEADING_TOKEN = /^([a-z]+)\s*[-:/]\s*\S/;
+
+const EVENT_TYPES: Array<[RegExp, string]> = [
+    [/\b(wedding|lagna|lagn)\b/i, 'Wedding'],
+    [/\b(reception)\b/i, 'Reception'],
+    [/\b(engagement|sakharpuda)\b/i, 'Engagement'],
+    [/\b(sangeet)\b/i, 'Sangeet'],
+    [/\b(meh[ae]n?di)\b/i, 'Mehendi'],
+    [/\b(haldi)\b/i, 'Haldi'],
+    [/\b(birthday|b'?day)\b/i, 'Birthday'],
+    [/\b(anniversary)\b/i, 'Anniversary'],
+    [/\b(baby shower|dohale)\b/i, 'Baby Shower'],
+    [/\b(naming|barsa)\b/i, 'Naming Ceremony'],
+    [/\b(munj|thread ceremony)\b/i, 'Thread Ceremony'],
+    [/\b(puja|pooja)\b/i, 'Puja'],
+    [/\b(conference|seminar|meeting|corporate)\b/i, 'Corporate'],
+    [/\b(party)\b/i, 'Party'],
+];
+
+const tidy = (text: string) => text.replace(/\s+/g, ' ').replace(/^[\s\-:/|,;]+|[\s\-:/|,;]+$/g, '');
+
+// Pull client/event/notes out of the text of a booked or held cell
+export const parseBookingText = (raw: string): BookingDetails => {
+    let text = raw.trim();
+
+    const notes: string[] = [];
+    text = text.replace(NOTES_PATTERN, (_match, note: string) => {
+        if (note.trim()) notes.push(note.trim());
+        return ' ';
+    });
+
+    text = text.replace(BOOKED_PREFIX, '');
+
+    let tentative = /\?\s*$/.test(text);
+    text = text.replace(/\?+\s*$/, '');
+    text = text.replace(TENTATIVE_MARKER, () => {
+        tentative = true;
+        return ' ';
+    });
+
+    const eventMatch = EVENT_TYPES.find(([pattern]) => pattern.test(text));
+    const eventType = eventMatch?.[1];
+
+    // Whatever isn't just the event keyword is the client/event label
+    const parts = text.split(PART_SEPARATOR).map(tidy).filter(Boolean);
+    const labelParts = parts.filter(part => !eventMatch || tidy(part.replace(eventMatch[0], '')) !== '');
+    const label = labelParts.join(' - ') || eventType;
+
+    return {
+        raw,
+        label: label || undefined,
+        eventType,
+        tentative,
+        notes: notes.length > 0 ? notes.join('; ') : undefined
+    };
+};
+
+// Compiled regexes, cached per rule object since the same vocabulary is applied to every cell of a month
+const compiledRules = new WeakMap<StatusRule, RegExp>();
+
+const ruleMatches = (rule: StatusRule, cleanValue: string) => {
+    if (!rule.regex) {
+        return rule.match.trim().toLowerCase() === cleanValue;
+    }
+    let pattern = compiledRules.get(rule);
+    if (!pattern) {
+        pattern = new RegExp(rule.match, 'i');
+        compiledRules.set(rule, pattern);
+    }
+    return pattern.test(cleanValue);
+};
+
+// Map a raw cell value to a status, keeping booking details when the cell has more than a status token.
+// Exact tokens are tried before regex rules, location vocabulary before the defaults.
+export const parseCellValue = (value: string | undefined, vocabulary: StatusRule[] = []): ParsedCell => {
+    if (value === undefined) {
+        // There is no cell for this day in the configured range; we can't tell whether it is free
+        return { status: 'Unknown', recognized: true, error: 'No cell for this day in the configured sheet range' };
+    }
+
+    const cleanValue = value.trim().toLowerCase();
+    const rules = [...vocabulary, ...DEFAULT_STATUS_VOCABULARY];
+    const rule = rules.find(candidate => !candidate.regex && ruleMatches(candidate, cleanValue))
+        || rules.find(candidate => candidate.regex && ruleMatches(candidate, cleanValue));
+
+    if (rule) {
+        // A regex rule can match cells that also carry a client name, e.g. "hold - Joshi"
+        const booking = rule.regex && (rule.status === 'Booked' || rule.status === 'Enquiry')
+            ? parseBookingText(value)
+            : undefined;
+        return { status: rule.status, recognized: true, ...(booking ? { booking } : {}) };
+    }
+
+    const leadingToken = LEADING_TOKEN.exec(cleanValue)?.[1];
+    const prefixRule = leadingToken
+        ? rules.find(candidate => !candidate.regex && (candidate.status === 'Booked' || candidate.status === 'Enquiry') && ruleMatches(candidate, leadingToken))
+        : undefined;
+    if (prefixRule) {
+        return { status: prefixRule.status, booking: parseBookingText(value), recognized: true };
+    }
+
+    const booking = parseBookingText(value);
+    return {
+        status: booking.tentative ? 'Enquiry' : 'Booked',
+        booking,
+        recognized: false
+    };
+};
+
+// Text written to a cell when a slot is changed from the app; parseCellValue reads it back as the same status
+export const formatCellValue = (status: SlotStatus, note?: string): string => {
+    const text = note?.trim() || '';
+    switch (status) {
+        case 'Available':
+            return 'vac';
+        case 'Booked':
+            return text ? `occ - ${text}` : 'occ';
+        case 'Enquiry':
+            return text ? `hold - ${text}` : 'hold';
+        case 'Maintenance':
+            return 'maintenance';
+        default:
+            throw new Error(`Status '${status}' cannot be written to the sheet`);
+    }
+};
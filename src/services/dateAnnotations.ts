@@ -0,0 +1,223 @@
+// Muhurat dates, festivals and public holidays shown against the calendar. Loaded from a dates tab in the
+// config spreadsheet when there is one, otherwise from the last copy read or the bundled yearly list.
+// Each list says which days it covers, so a search past its end can say so instead of finding no muhurats.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DateAnnotation, DateAnnotationCoverage, DateAnnotationKind } from '../types';
+import { getAvailabilitySource } from './availabilitySource';
+import { CONFIG_SHEET_ID } from './venueConfig';
+import bundledAnnotations from '../config/dateAnnotations.json';
+
+const DATE_ANNOTATIONS_CACHE_KEY = '@gmk_date_annotations';
+const DATE_ANNOTATIONS_TAB = process.env.EXPO_PUBLIC_DATE_ANNOTATIONS_TAB || 'DATES';
+// The list changes a few times a year; read the tab again at most this often
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+const KINDS: DateAnnotationKind[] = ['muhurat', 'festival', 'holiday'];
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 'YYYY-MM-DD' naming a real day (no 31 November)
+const isDateKey = (value: unknown) => {
+    if (typeof value !== 'string' || !DATE_KEY_PATTERN.test(value)) return false;
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+const bundledList = bundledAnnotations as { from: string; to: string; dates: DateAnnotation[] };
+const bundled = bundledList.dates;
+const bundledCoverage: DateAnnotationCoverage = { from: bundledList.from, to: bundledList.to };
+
+// A list without "from" or "to" covers the whole years its dates fall in
+export const validateDateAnnotations = (raw: unknown): {
+    annotations: DateAnnotation[] | null;
+    coverage: DateAnnotationCoverage | null;
+    errors: string[];
+} => {
+    const candidate = raw as { from?: unknown; to?: unknown; dates?: Partial<DateAnnotation>[] } | null;
+    if (!candidate || !Array.isArray(candidate.dates)) {
+        return { annotations: null, coverage: null, errors: ['Date list must contain a "dates" array'] };
+    }
+    if (candidate.dates.length === 0) {
+        return { annotations: null, coverage: null, errors: ['Date list has no dates'] };
+    }
+
+    const errors: string[] = [];
+    candidate.dates.forEach((entry, index) => {
+        const where = entry && typeof entry.name === 'string' && entry.name.trim() ? entry.name : `dates[${index}]`;
+        if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+            errors.push(`${where}: missing "name"`);
+            return;
+        }
+        if (!isDateKey(entry.date)) {
+            errors.push(`${where}: "date" must be a date like 2026-11-21 (got ${JSON.stringify(entry.date)})`);
+        }
+        if (!KINDS.includes(entry.kind as DateAnnotationKind)) {
+            errors.push(`${where}: "kind" must be muhurat, festival or holiday (got ${JSON.stringify(entry.kind)})`);
+        }
+    });
+
+    if (errors.length > 0) {
+        return { annotations: null, coverage: null, errors };
+    }
+
+    const annotations = candidate.dates as DateAnnotation[];
+    const years = annotations.map(entry => entry.date.slice(0, 4)).sort();
+    const coverage = {
+        from: candidate.from ?? `${years[0]}-01-01`,
+        to: candidate.to ?? `${years[years.length - 1]}-12-31`
+    };
+    (['from', 'to'] as const).forEach(field => {
+        if (!isDateKey(coverage[field])) {
+            errors.push(`"${field}" must be a date like 2026-10-01 (got ${JSON.stringify(coverage[field])})`);
+        }
+    });
+    if (errors.length > 0) {
+        return { annotations: null, coverage: null, errors };
+    }
+    const range = coverage as DateAnnotationCoverage;
+    if (range.from > range.to) {
+        errors.push(`"from" (${range.from}) must be on or before "to" (${range.to})`);
+    }
+    annotations
+        .filter(entry => entry.date < range.from || entry.date > range.to)
+        .forEach(entry => errors.push(`${entry.name}: ${entry.date} is outside the list's ${range.from} to ${range.to}`));
+
+    return errors.length === 0 ? { annotations, coverage: range, errors } : { annotations: null, coverage: null, errors };
+};
+
+// "21/11/2026" (day first, as typed in the sheet) -> "2026-11-21"; anything else is kept for validation to report
+const toDateKey = (value: string) => {
+    const match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    return match ? `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}` : value;
+};
+
+// Parse the dates tab. Header row (case-insensitive, any column order):
+// Date | Kind | Name [| From | To]
+// Date is 2026-11-21 or 21/11/2026. Kind is Muhurat, Festival or Holiday; a blank kind means a muhurat.
+// From and To, filled in on any one row, are the first and last day the tab was filled in for.
+export const parseDateAnnotationRows = (rows: string[][]): { from?: string; to?: string; dates: DateAnnotation[] } => {
+    const header = (rows[0] || []).map(cell => (cell || '').trim().toLowerCase());
+    const missing = ['date', 'name'].filter(name => !header.includes(name));
+    if (missing.length > 0) {
+        throw new Error(`Dates tab '${DATE_ANNOTATIONS_TAB}' is missing column(s): ${missing.join(', ')}`);
+    }
+    const cell = (row: string[], name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+
+    const dates: DateAnnotation[] = [];
+    let from = '';
+    let to = '';
+    rows.slice(1).forEach(row => {
+        from = from || cell(row, 'from');
+        to = to || cell(row, 'to');
+        const date = cell(row, 'date');
+        const name = cell(row, 'name');
+        if (!date && !name) return; // Blank spacer row
+        dates.push({
+            date: toDateKey(date),
+            kind: (cell(row, 'kind').toLowerCase() || 'muhurat') as DateAnnotationKind,
+            name
+        });
+    });
+    return {
+        ...(from ? { from: toDateKey(from) } : {}),
+        ...(to ? { to: toDateKey(to) } : {}),
+        dates
+    };
+};
+
+let currentAnnotations: DateAnnotation[] = bundled;
+let currentCoverage: DateAnnotationCoverage = bundledCoverage;
+let lastReadAt = 0;
+let pendingLoad: Promise<DateAnnotation[]> | null = null;
+const changeListeners = new Set<(annotations: DateAnnotation[]) => void>();
+
+const setCurrentAnnotations = (annotations: DateAnnotation[], coverage: DateAnnotationCoverage) => {
+    const changed = JSON.stringify(annotations) !== JSON.stringify(currentAnnotations);
+    currentAnnotations = annotations;
+    currentCoverage = coverage;
+    if (changed) {
+        changeListeners.forEach(listener => listener(annotations));
+    }
+};
+
+// Best date list available right now, without waiting on the network
+export const getDateAnnotations = (): DateAnnotation[] => currentAnnotations;
+
+// The days the list in use was filled in for
+export const getDateAnnotationCoverage = (): DateAnnotationCoverage => currentCoverage;
+
+// Called whenever a newly read list differs from the one in use, so the calendar can re-mark its days
+export const onDateAnnotationsChange = (listener: (annotations: DateAnnotation[]) => void) => {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+};
+
+// Read the dates tab (at most every hour unless forced). Without a tab the bundled list is used;
+// when the tab can't be read or is invalid, the last good copy stays in use.
+export const loadDateAnnotations = async (options?: { forceRefresh?: boolean }): Promise<DateAnnotation[]> => {
+    if (!options?.forceRefresh && Date.now() - lastReadAt < REFRESH_INTERVAL_MS) {
+        return currentAnnotations;
+    }
+    if (pendingLoad) {
+        return pendingLoad;
+    }
+
+    pendingLoad = (async () => {
+        lastReadAt = Date.now();
+        try {
+            const read = await getAvailabilitySource().readRanges(CONFIG_SHEET_ID, [`'${DATE_ANNOTATIONS_TAB}'!A1:E1000`]);
+            if (read.tabMissing) {
+                console.log(`No '${DATE_ANNOTATIONS_TAB}' tab, using the bundled date list`);
+                setCurrentAnnotations(bundled, bundledCoverage);
+                return currentAnnotations;
+            }
+            const { annotations, coverage, errors } = validateDateAnnotations(parseDateAnnotationRows(read.valueRanges[0] || []));
+            if (!annotations || !coverage) {
+                throw new Error(`Dates tab is invalid:\n${errors.join('\n')}`);
+            }
+            setCurrentAnnotations(annotations, coverage);
+            await AsyncStorage.setItem(DATE_ANNOTATIONS_CACHE_KEY, JSON.stringify({ ...coverage, dates: annotations }));
+        } catch (error) {
+            console.warn('Could not load the dates tab, using the last good copy:', error);
+            try {
+                const cached = await AsyncStorage.getItem(DATE_ANNOTATIONS_CACHE_KEY);
+                const { annotations, coverage } = validateDateAnnotations(cached ? JSON.parse(cached) : null);
+                if (annotations && coverage) {
+                    setCurrentAnnotations(annotations, coverage);
+                }
+            } catch (cacheError) {
+                console.warn('Failed to read the cached date list:', cacheError);
+            }
+        }
+        return currentAnnotations;
+    })().finally(() => {
+        pendingLoad = null;
+    });
+
+    return pendingLoad;
+};
+
+// Forget when the tab was last read (tests)
+export const clearDateAnnotationCache = () => {
+    currentAnnotations = bundled;
+    currentCoverage = bundledCoverage;
+    lastReadAt = 0;
+};
+
+// Everything noted for a 'YYYY-MM-DD' day, muhurats first
+export const annotationsFor = (dateKey: string, annotations: DateAnnotation[] = currentAnnotations): DateAnnotation[] =>
+    annotations
+        .filter(entry => entry.date === dateKey)
+        .sort((a, b) => KINDS.indexOf(a.kind) - KINDS.indexOf(b.kind));
+
+export const isMuhurat = (dateKey: string, annotations: DateAnnotation[] = currentAnnotations): boolean =>
+    annotations.some(entry => entry.date === dateKey && entry.kind === 'muhurat');
+
+// "Vivah muhurat · Diwali (Lakshmi Puja)", or '' for an ordinary day
+export const describeAnnotations = (dateKey: string, annotations: DateAnnotation[] = currentAnnotations): string =>
+    annotationsFor(dateKey, annotations).map(entry => entry.name).join(' · ');
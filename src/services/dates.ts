@@ -0,0 +1,9 @@
+// Date helpers with no dependencies, so small modules can use them without pulling in the sheet reading
+
+// 'YYYY-MM-DD' of a date, in local time
+export const formatDate = (date: Date): string => {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
@@ -0,0 +1,335 @@
+// Customer enquiries logged by sales staff against hall slots. An open enquiry shows its free slots as
+// 'Enquiry' on the hall cards until it expires, is lost, or is converted into a booking in the sheet.
+// Enquiries live on the device and, when write-back is set up, are mirrored to an enquiries tab.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Enquiry, EnquirySlot, HallData, MonthAvailability } from '../types';
+import { isWriteBackEnabled } from './googleAuth';
+import { getVenueConfig } from './venueConfig';
+import { fetchMonthData } from './api';
+import { findHall } from './hallDetails';
+import { applyHolds, formatTimeLeft, loadHolds, refreshSheetHolds, releaseHold } from './holds';
+import { endOfDay, newRecordId, slotKey, todayKey } from './recordKeys';
+import { upsertTabRow, writeSlotStatus } from './sheetsWriter';
+
+const ENQUIRIES_STORAGE_KEY = '@gmk_enquiries';
+export const ENQUIRIES_TAB = process.env.EXPO_PUBLIC_ENQUIRIES_TAB || 'ENQUIRIES';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// An enquiry holds its slots this long unless the last requested date comes sooner
+export const ENQUIRY_EXPIRY_DAYS = Number(process.env.EXPO_PUBLIC_ENQUIRY_EXPIRY_DAYS) || 7;
+// First call back to the customer
+const FOLLOW_UP_AFTER_DAYS = 2;
+// Closed enquiries are kept on the device this long for the follow-up history
+const CLOSED_RETENTION_DAYS = 90;
+
+export const ENQUIRY_EVENT_TYPES = ['Wedding', 'Reception', 'Engagement', 'Birthday', 'Corporate', 'Other'];
+
+// What staff fill in when logging an enquiry
+export interface NewEnquiry {
+    customerName: string;
+    phone: string;
+    eventType?: string;
+    guestCount?: number;
+    slots: EnquirySlot[];
+    notes?: string;
+}
+
+// Outcome of converting an enquiry; slots that were no longer free are left for staff to sort out
+export interface EnquiryConversion {
+    enquiry: Enquiry;
+    booked: EnquirySlot[];
+    notBooked: Array<{ slot: EnquirySlot; reason: string }>;
+}
+
+let enquiries: Enquiry[] | null = null;
+const changeListeners = new Set<(enquiries: Enquiry[]) => void>();
+
+// An enquiry that still holds its slots at `now`
+export const isEnquiryActive = (enquiry: Enquiry, now: number = Date.now()) =>
+    enquiry.status === 'open' && enquiry.expiresAt > now;
+
+// Open enquiries past their expiry become 'expired'; long-closed ones are dropped
+const tidyEnquiries = (list: Enquiry[], now: number): Enquiry[] => list
+    .filter(enquiry => enquiry.status === 'open' || now - enquiry.updatedAt < CLOSED_RETENTION_DAYS * DAY_MS)
+    .map(enquiry => enquiry.status === 'open' && enquiry.expiresAt <= now
+        ? { ...enquiry, status: 'expired', followUpAt: null, updatedAt: now }
+        : enquiry);
+
+const saveEnquiries = async (list: Enquiry[]) => {
+    enquiries = list;
+    try {
+        await AsyncStorage.setItem(ENQUIRIES_STORAGE_KEY, JSON.stringify(list));
+    } catch (e) {
+        console.warn('Failed to save enquiries:', e);
+    }
+    changeListeners.forEach(listener => listener(list));
+};
+
+// All enquiries on the device, newest first, with stale ones expired
+export const loadEnquiries = async (now: number = Date.now()): Promise<Enquiry[]> => {
+    if (enquiries === null) {
+        try {
+            const raw = await AsyncStorage.getItem(ENQUIRIES_STORAGE_KEY);
+            enquiries = raw ? JSON.parse(raw) as Enquiry[] : [];
+        } catch (e) {
+            console.warn('Failed to load enquiries:', e);
+            enquiries = [];
+        }
+    }
+    const stored = enquiries;
+    const tidied = tidyEnquiries(stored, now);
+    if (tidied.length !== stored.length || tidied.some((enquiry, index) => enquiry !== stored[index])) {
+        tidied
+            .filter(enquiry => enquiry.status === 'expired' && stored.some(old => old.id === enquiry.id && old.status === 'open'))
+            .forEach(mirrorToSheet);
+        await saveEnquiries(tidied);
+    }
+    return tidied;
+};
+
+// Called whenever an enquiry is logged or changes, e.g. so the hall cards can be re-marked
+export const onEnquiriesChange = (listener: (enquiries: Enquiry[]) => void) => {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+};
+
+// Forget the in-memory copy (tests, and signing out); the stored enquiries stay
+export const clearEnquiryCache = () => {
+    enquiries = null;
+};
+
+// The slots with each free slot that has an active enquiry shown as 'Enquiry' (and its enquiry ids set).
+// Slots marked by an earlier call go back to 'Available' when their enquiries are gone (unless a hold still marks
+// them), so this can be re-run whenever the enquiries change. Cells that aren't free in the sheet are never changed.
+export const applyEnquiries = (slots: HallData[], list: Enquiry[], now: number = Date.now()): HallData[] => {
+    const idsBySlot = new Map<string, string[]>();
+    list.filter(enquiry => isEnquiryActive(enquiry, now)).forEach(enquiry => enquiry.slots.forEach(slot => {
+        const key = slotKey(slot);
+        idsBySlot.set(key, [...(idsBySlot.get(key) || []), enquiry.id]);
+    }));
+
+    return slots.map(slot => {
+        let base = slot;
+        if (slot.enquiryIds) {
+            const { enquiryIds: _previous, ...rest } = slot;
+            base = { ...rest, status: slot.hold ? 'Enquiry' : 'Available' };
+        }
+        const ids = idsBySlot.get(slotKey(base));
+        if (!ids || (base.status !== 'Available' && !base.hold)) {
+            return base;
+        }
+        return { ...base, status: 'Enquiry', enquiryIds: ids };
+    });
+};
+
+// Open enquiries whose follow-up is due by the end of today, most overdue first
+export const dueFollowUps = (list: Enquiry[], now: number = Date.now()): Enquiry[] => {
+    const endOfToday = endOfDay(todayKey(now));
+    return list
+        .filter(enquiry => isEnquiryActive(enquiry, now) && enquiry.followUpAt !== null && enquiry.followUpAt <= endOfToday)
+        .sort((a, b) => (a.followUpAt as number) - (b.followUpAt as number));
+};
+
+// Log a new enquiry from `createdBy` (a username)
+export const createEnquiry = async (input: NewEnquiry, createdBy: string, now: number = Date.now()): Promise<Enquiry> => {
+    const customerName = input.customerName.trim();
+    if (!customerName) {
+        throw new Error("Enter the customer's name.");
+    }
+    const phone = input.phone.trim();
+    const digits = phone.replace(/[\s\-()+]/g, '');
+    if (!/^\d{10,13}$/.test(digits)) {
+        throw new Error('Enter a phone number of 10 to 13 digits.');
+    }
+    if (input.guestCount !== undefined && (!Number.isInteger(input.guestCount) || input.guestCount <= 0)) {
+        throw new Error('The guest count must be a whole number above zero.');
+    }
+    if (input.slots.length === 0) {
+        throw new Error('Pick at least one hall slot the customer is asking about.');
+    }
+    const today = todayKey(now);
+    if (input.slots.some(slot => slot.date < today)) {
+        throw new Error('Enquiries can only be logged for today or later.');
+    }
+
+    const slots = input.slots
+        .filter((slot, index) => input.slots.findIndex(other => slotKey(other) === slotKey(slot)) === index)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const expiresAt = Math.min(now + ENQUIRY_EXPIRY_DAYS * DAY_MS, endOfDay(slots[slots.length - 1].date));
+    const enquiry: Enquiry = {
+        id: newRecordId('E', now),
+        customerName,
+        phone,
+        eventType: input.eventType?.trim() || undefined,
+        guestCount: input.guestCount,
+        slots,
+        notes: input.notes?.trim() || undefined,
+        status: 'open',
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+        followUpAt: Math.min(now + FOLLOW_UP_AFTER_DAYS * DAY_MS, expiresAt),
+        expiresAt
+    };
+
+    const list = await loadEnquiries(now);
+    await saveEnquiries([enquiry, ...list]);
+    mirrorToSheet(enquiry);
+    return enquiry;
+};
+
+const updateEnquiry = async (id: string, change: (enquiry: Enquiry) => Partial<Enquiry>, now: number = Date.now()): Promise<Enquiry> => {
+    const list = await loadEnquiries(now);
+    const current = list.find(enquiry => enquiry.id === id);
+    if (!current) {
+        throw new Error('This enquiry is no longer on this device.');
+    }
+    const updated: Enquiry = { ...current, ...change(current), updatedAt: now };
+    await saveEnquiries(list.map(enquiry => enquiry.id === id ? updated : enquiry));
+    mirrorToSheet(updated);
+    return updated;
+};
+
+// Call the customer again at `at`
+export const scheduleFollowUp = (id: string, at: number, now: number = Date.now()) => updateEnquiry(id, enquiry => {
+    if (enquiry.status !== 'open') {
+        throw new Error(`This enquiry is already ${enquiry.status}.`);
+    }
+    return { followUpAt: at };
+}, now);
+
+// The customer went elsewhere; frees the slots
+export const markEnquiryLost = (id: string, now: number = Date.now()) =>
+    updateEnquiry(id, () => ({ status: 'lost', followUpAt: null }), now);
+
+// The note written into each booked cell, e.g. "Sharma Wedding"
+const bookingNote = (enquiry: Enquiry) =>
+    enquiry.eventType && enquiry.eventType !== 'Other' ? `${enquiry.customerName} ${enquiry.eventType}` : enquiry.customerName;
+
+// The customer confirmed, as told to `convertedBy` (a username). With `writeToSheet`, each requested slot that is
+// still free and not held by someone else is written as Booked (through writeSlotStatus, so the audit tab records it);
+// the enquiry is closed once at least one slot is booked.
+// Without it, the enquiry is just closed and staff book the slots in the sheet themselves.
+export const convertEnquiry = async (id: string, convertedBy: string, options?: { writeToSheet?: boolean }): Promise<EnquiryConversion> => {
+    const current = (await loadEnquiries()).find(enquiry => enquiry.id === id);
+    if (!current) {
+        throw new Error('This enquiry is no longer on this device.');
+    }
+    if (current.status !== 'open') {
+        throw new Error(`This enquiry is already ${current.status}.`);
+    }
+    if (!options?.writeToSheet) {
+        const enquiry = await updateEnquiry(id, () => ({ status: 'converted', followUpAt: null }));
+        return { enquiry, booked: [], notBooked: [] };
+    }
+
+    // Each month asked about is read fresh, once; a month that can't be read is reported against each of its slots
+    const months = new Map<string, MonthAvailability | Error>();
+    for (const monthKey of new Set(current.slots.map(requested => requested.date.slice(0, 7)))) {
+        const [year, month] = monthKey.split('-').map(Number);
+        try {
+            months.set(monthKey, await fetchMonthData(new Date(year, month - 1, 1), { forceRefresh: true }));
+        } catch (error) {
+            months.set(monthKey, error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+    // Holds placed on other devices count too
+    await refreshSheetHolds({ force: true });
+    const holds = await loadHolds();
+
+    const booked: EnquirySlot[] = [];
+    const notBooked: EnquiryConversion['notBooked'] = [];
+    for (const requested of current.slots) {
+        try {
+            if (!findHall(requested.hallId)) {
+                notBooked.push({ slot: requested, reason: 'The hall is no longer in the venue config.' });
+                continue;
+            }
+            const monthData = months.get(requested.date.slice(0, 7))!;
+            if (monthData instanceof Error) {
+                throw monthData;
+            }
+            const slot = (monthData.days[requested.date] || [])
+                .find(candidate => candidate.hallId === requested.hallId && candidate.timeSlot === requested.timeSlot);
+            // Halls that couldn't be read come back Unknown (or not at all), which says nothing about the slot
+            if (!slot || slot.status === 'Unknown') {
+                notBooked.push({
+                    slot: requested,
+                    reason: monthData.sheetMissing
+                        ? "This month isn't in the sheet yet."
+                        : "Couldn't reach the sheet; try again."
+                });
+                continue;
+            }
+            if (slot.status !== 'Available') {
+                notBooked.push({ slot: requested, reason: `The sheet now shows it as ${slot.status}.` });
+                continue;
+            }
+            const [{ hold }] = applyHolds([slot], holds);
+            if (hold && hold.heldBy !== convertedBy) {
+                notBooked.push({
+                    slot: requested,
+                    reason: `Held for ${hold.customerName} by ${hold.heldBy} (${formatTimeLeft(hold.expiresAt)} left).`
+                });
+                continue;
+            }
+            const result = await writeSlotStatus(slot, 'Booked', convertedBy, bookingNote(current));
+            if (result.status === 'conflict') {
+                notBooked.push({ slot: requested, reason: `Changed in the sheet to "${result.currentValue}".` });
+                continue;
+            }
+            booked.push(requested);
+            // The converter's own hold on the slot has done its job
+            if (hold) {
+                await releaseHold(hold.id, convertedBy).catch(error => console.warn(`Could not release hold ${hold.id}:`, error));
+            }
+        } catch (error) {
+            console.error(`Could not book ${requested.hallId} ${requested.timeSlot} on ${requested.date}:`, error);
+            notBooked.push({ slot: requested, reason: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    const enquiry = booked.length > 0
+        ? await updateEnquiry(id, () => ({ status: 'converted', followUpAt: null }))
+        : current;
+    return { enquiry, booked, notBooked };
+};
+
+// "2025-06-14 Aster Evening" for each slot
+export const describeEnquirySlots = (enquiry: Enquiry) =>
+    enquiry.slots.map(slot => `${slot.date} ${slot.hallName} ${slot.timeSlot}`).join('; ');
+
+// Columns of the enquiries tab; a row per enquiry, updated in place by its id
+const ENQUIRY_COLUMNS = ['ID', 'Created', 'Created by', 'Customer', 'Phone', 'Event', 'Guests', 'Slots', 'Notes', 'Status', 'Follow up', 'Expires', 'Updated'];
+
+const enquiryRow = (enquiry: Enquiry) => [
+    enquiry.id,
+    new Date(enquiry.createdAt).toISOString(),
+    enquiry.createdBy,
+    enquiry.customerName,
+    enquiry.phone,
+    enquiry.eventType || '',
+    enquiry.guestCount !== undefined ? String(enquiry.guestCount) : '',
+    describeEnquirySlots(enquiry),
+    enquiry.notes || '',
+    enquiry.status,
+    enquiry.followUpAt !== null ? new Date(enquiry.followUpAt).toISOString() : '',
+    new Date(enquiry.expiresAt).toISOString(),
+    new Date(enquiry.updatedAt).toISOString()
+];
+
+// Write the enquiry's row to the enquiries tab of the spreadsheet holding its first hall.
+// The device copy is what the app uses, so a failed write is only logged.
+const mirrorToSheet = (enquiry: Enquiry) => {
+    if (!isWriteBackEnabled()) return;
+
+    const location = getVenueConfig().locations.find(config => config.id === enquiry.slots[0]?.locationId)
+        || getVenueConfig().locations[0];
+    upsertTabRow(location.sheetId, ENQUIRIES_TAB, ENQUIRY_COLUMNS, enquiryRow(enquiry))
+        .then(written => {
+            if (!written) console.log(`Not signed in with Google, enquiry ${enquiry.id} is kept on this device only`);
+        })
+        .catch(error => console.error(`Enquiry ${enquiry.id} was saved on this device but not in the sheet:`, error));
+};
@@ -0,0 +1,88 @@
+// Read-only source over recorded tabs, for running offline and for deterministic tests.
+// Fixtures are JSON ({ spreadsheets: { <sheetId>: { <tab name>: rows from A1 } } }) or one CSV export per tab.
+import { AvailabilitySource, RangeRead } from './availabilitySource';
+import { sliceGrid, splitRange } from './sheetRange';
+
+// Tab name -> rows from A1, as typed into the sheet
+export type FixtureTabs = Record<string, string[][]>;
+
+export interface AvailabilityFixture {
+    spreadsheets: Record<string, FixtureTabs>;
+}
+
+// Read ranges out of a spreadsheet's tabs like the Sheets API would; shared with the mock source
+export const readFixtureRanges = (tabs: FixtureTabs, ranges: string[]): RangeRead => {
+    const parsed = ranges.map(splitRange);
+    if (parsed.some(({ tab }) => !tabs[tab])) {
+        return { tabMissing: true, valueRanges: [] };
+    }
+    return { tabMissing: false, valueRanges: parsed.map(({ tab, a1 }) => sliceGrid(tabs[tab], a1)) };
+};
+
+export const createFixtureSource = (fixture: AvailabilityFixture): AvailabilitySource => {
+    const tabsOf = (sheetId: string): FixtureTabs => {
+        const tabs = fixture.spreadsheets[sheetId];
+        if (!tabs) {
+            throw new Error(`No fixture for spreadsheet ${sheetId}`);
+        }
+        return tabs;
+    };
+
+    return {
+        name: 'fixtures',
+        readRanges: async (sheetId: string, ranges: string[]): Promise<RangeRead> => readFixtureRanges(tabsOf(sheetId), ranges),
+        listTabs: async (sheetId: string): Promise<string[]> => Object.keys(tabsOf(sheetId))
+    };
+};
+
+// Parse a CSV export of a tab (File > Download > CSV): quoted fields, doubled quotes and CRLF line ends
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+// Build a fixture from CSV text: { <sheetId>: { <tab name>: csv } }
+export const fixtureFromCsv = (csvBySheet: Record<string, Record<string, string>>): AvailabilityFixture => {
+    const spreadsheets: Record<string, FixtureTabs> = {};
+    Object.entries(csvBySheet).forEach(([sheetId, tabs]) => {
+        spreadsheets[sheetId] = {};
+        Object.entries(tabs).forEach(([tab, csv]) => {
+            spreadsheets[sheetId][tab] = parseCsv(csv);
+        });
+    });
+    return { spreadsheets };
+};
@@ -0,0 +1,63 @@
+// Google sign-in for changing slots from the app. Reading uses the API key, but the Sheets API only
+// accepts writes with an OAuth token for an account that has edit access to the spreadsheet.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GoogleAuth } from '../types';
+import { getAvailabilitySource } from './availabilitySource';
+
+// OAuth client ids from the Google Cloud console; write-back is off unless one is set for the platform
+export const GOOGLE_OAUTH_CLIENT_IDS = {
+    webClientId: process.env.EXPO_PUBLIC_GOOGLE_OAUTH_WEB_CLIENT_ID || undefined,
+    androidClientId: process.env.EXPO_PUBLIC_GOOGLE_OAUTH_ANDROID_CLIENT_ID || undefined,
+    iosClientId: process.env.EXPO_PUBLIC_GOOGLE_OAUTH_IOS_CLIENT_ID || undefined,
+};
+export const GOOGLE_OAUTH_SCOPES = ['openid', 'email', 'https://www.googleapis.com/auth/spreadsheets'];
+
+const GOOGLE_AUTH_STORAGE_KEY = '@gmk_google_auth';
+const USERINFO_URL = 'https://www.googleapis.com/oauth2/v3/userinfo';
+// Consider a token expired a minute early so a write never starts with one about to lapse
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Writes always go to the real spreadsheet, so they are off while the app shows fixture or mock data
+export const isWriteBackEnabled = () => {
+    return Object.values(GOOGLE_OAUTH_CLIENT_IDS).some(Boolean) && getAvailabilitySource().name === 'sheets';
+};
+
+// The signed-in account, or null if nobody is signed in or the token has expired
+export const getGoogleAuth = async (): Promise<GoogleAuth | null> => {
+    try {
+        const raw = await AsyncStorage.getItem(GOOGLE_AUTH_STORAGE_KEY);
+        if (!raw) return null;
+
+        const auth = JSON.parse(raw) as GoogleAuth;
+        if (auth.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+            console.log('Google access token has expired');
+            return null;
+        }
+        return auth;
+    } catch (e) {
+        console.warn('Failed to load Google sign-in:', e);
+        return null;
+    }
+};
+
+// Store the token from a completed sign-in, looking up the account's email for the audit trail
+export const saveGoogleAuth = async (accessToken: string, expiresInSeconds: number = 3600): Promise<GoogleAuth> => {
+    const response = await fetch(USERINFO_URL, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) {
+        throw new Error(`Could not read the Google account (status ${response.status})`);
+    }
+    const userInfo = await response.json() as { email?: string };
+
+    const auth: GoogleAuth = {
+        accessToken,
+        expiresAt: Date.now() + expiresInSeconds * 1000,
+        email: userInfo.email || 'unknown'
+    };
+    await AsyncStorage.setItem(GOOGLE_AUTH_STORAGE_KEY, JSON.stringify(auth));
+    console.log(`Signed in to Google as ${auth.email}`);
+    return auth;
+};
+
+export const signOutGoogle = async () => {
+    await AsyncStorage.removeItem(GOOGLE_AUTH_STORAGE_KEY);
+};
@@ -0,0 +1,121 @@
+// What each hall offers (capacity, amenities, rent) from the venue config, and narrowing a day's slots
+// down to halls that suit an event. Details are optional: a hall without a figure is never ruled out by it.
+import { Hall, HallData, HallDetails, HallPricing, TimeSlot, VenueConfig } from '../types';
+import { getVenueConfig } from './venueConfig';
+import { isMuhurat } from './dateAnnotations';
+
+export interface HallRequirements {
+    guestCount?: number; // Guests expected; halls that can't take them are left out
+    maxBudget?: number;  // Most the customer will pay for one slot, in rupees
+}
+
+// Rent for one slot on one date, in rupees
+export interface SlotPrice {
+    basePrice: number;
+    weekendSurcharge: number;
+    muhuratSurcharge: number;
+    total: number;
+}
+
+export const findHall = (hallId: string, config: VenueConfig = getVenueConfig()): Hall | undefined =>
+    config.locations.flatMap(location => location.halls).find(hall => hall.id === hallId);
+
+// "₹1,20,000": Indian digit grouping, whole rupees
+export const formatPrice = (amount: number): string => {
+    const digits = String(Math.round(Math.abs(amount)));
+    const lastThree = digits.slice(-3);
+    const rest = digits.slice(0, -3).replace(/\B(?=(\d{2})+$)/g, ',');
+    return `${amount < 0 ? '-' : ''}₹${rest ? `${rest},${lastThree}` : lastThree}`;
+};
+
+// The most guests the hall can take, whichever way it is set up; null when neither capacity is known
+export const hallCapacity = (details?: HallDetails): number | null => {
+    const capacities = [details?.seatingCapacity, details?.floatingCapacity].filter((value): value is number => value !== undefined);
+    return capacities.length > 0 ? Math.max(...capacities) : null;
+};
+
+// "Seats 300 · Floating 500 · Indoor · AC · Parking 80" for the hall card; empty when nothing is known
+export const describeHallDetails = (details?: HallDetails): string => {
+    if (!details) return '';
+    return [
+        details.seatingCapacity !== undefined ? `Seats ${details.seatingCapacity}` : null,
+        details.floatingCapacity !== undefined ? `Floating ${details.floatingCapacity}` : null,
+        details.setting ? details.setting.charAt(0).toUpperCase() + details.setting.slice(1) : null,
+        details.airConditioned === true ? 'AC' : details.airConditioned === false ? 'Non-AC' : null,
+        details.parking !== undefined ? `Parking ${details.parking}` : null,
+    ].filter(Boolean).join(' · ');
+};
+
+const isWeekend = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const weekday = new Date(year, month - 1, day).getDay();
+    return weekday === 0 || weekday === 6;
+};
+
+// Rent for a slot on a date ('YYYY-MM-DD'). Weekend and muhurat surcharges are both percentages of the
+// slot's own price and add up when a muhurat falls on a weekend.
+export const priceSlot = (pricing: HallPricing, timeSlot: TimeSlot, dateKey: string, options?: { muhurat?: boolean }): SlotPrice => {
+    const basePrice = pricing.slotPrices?.[timeSlot] ?? pricing.basePrice;
+    const weekendSurcharge = isWeekend(dateKey) ? Math.round(basePrice * (pricing.weekendSurchargePercent || 0) / 100) : 0;
+    const muhuratSurcharge = options?.muhurat ? Math.round(basePrice * (pricing.muhuratSurchargePercent || 0) / 100) : 0;
+    return { basePrice, weekendSurcharge, muhuratSurcharge, total: basePrice + weekendSurcharge + muhuratSurcharge };
+};
+
+// "₹1,20,000 per slot", or each slot's price when they differ: "Morning ₹80,000 · Evening ₹1,20,000"
+export const describeSlotPrices = (pricing: HallPricing, timeSlots: TimeSlot[], dateKey: string, options?: { muhurat?: boolean }): string => {
+    const prices = timeSlots.map(timeSlot => ({ timeSlot, total: priceSlot(pricing, timeSlot, dateKey, options).total }));
+    if (prices.length === 0) return '';
+    if (prices.every(price => price.total === prices[0].total)) {
+        return `${formatPrice(prices[0].total)} per slot`;
+    }
+    return prices.map(price => `${price.timeSlot} ${formatPrice(price.total)}`).join(' · ');
+};
+
+export const hasRequirements =(requirements: HallRequirements) =>
+    requirements.guestCount !== undefined || requirements.maxBudget !== undefined;
+
+// Whether a hall is too small for the guests or has no slot in the budget on the dates in `slots`.
+// Unknown capacity or pricing counts as a fit, so staff check those halls by hand instead of missing them.
+const ruledOut = (hall: Hall, slots: HallData[], requirements: HallRequirements): boolean => {
+    const capacity = hallCapacity(hall.details);
+    if (requirements.guestCount !== undefined && capacity !== null && capacity < requirements.guestCount) {
+        return true;
+    }
+    const pricing = hall.details?.pricing;
+    if (requirements.maxBudget !== undefined && pricing) {
+        return !slots.some(slot => priceSlot(pricing, slot.timeSlot, slot.date, { muhurat: isMuhurat(slot.date) }).total <= requirements.maxBudget!);
+    }
+    return false;
+};
+
+// The halls among `slots` that are too small for the guests or have no slot in the budget
+export const hallsRuledOut = (
+    slots: HallData[],
+    requirements: HallRequirements,
+    config: VenueConfig = getVenueConfig()
+): Hall[] => {
+    if (!hasRequirements(requirements)) {
+        return [];
+    }
+    return Array.from(new Set(slots.map(slot => slot.hallId)))
+        .map(hallId => findHall(hallId, config))
+        .filter((hall): hall is Hall => !!hall && ruledOut(hall, slots.filter(slot => slot.hallId === hall.id), requirements));
+};
+
+// The slots of halls that fit the guest count and budget, in their original order
+export const filterByRequirements = (
+    slots: HallData[],
+    requirements: HallRequirements,
+    config: VenueConfig = getVenueConfig()
+): HallData[] => {
+    const excluded = new Set(hallsRuledOut(slots, requirements, config).map(hall => hall.id));
+    return excluded.size === 0 ? slots : slots.filter(slot => !excluded.has(slot.hallId));
+};
+
+// What the guest count and budget couldn't be checked against for want of figures, e.g. "capacity and price";
+// '' when the hall has every figure the filter uses
+export const uncheckedRequirements = (details: HallDetails | undefined, requirements: HallRequirements): string =>
+    [
+        requirements.guestCount !== undefined && hallCapacity(details) === null ? 'capacity' : null,
+        requirements.maxBudget !== undefined && !details?.pricing ? 'price' : null,
+    ].filter(Boolean).join(' and ');
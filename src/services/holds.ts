@@ -0,0 +1,359 @@
+// Tentative holds: "hold Grand for Saturday evening till Monday". A hold keeps a free slot showing as 'Enquiry'
+// with a countdown until it is released or runs out. Holds are kept on the device and, with write-back, in a holds
+// tab that every device reads, so other staff see them too. The slot's own cell in the sheet is never changed.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HallData, SlotHold } from '../types';
+import { getAvailabilitySource } from './availabilitySource';
+import { isWriteBackEnabled } from './googleAuth';
+import { PROXY_URL, fetchWithRetry } from './sheetsClient';
+import { getVenueConfig } from './venueConfig';
+import { endOfDay, newRecordId, slotKey } from './recordKeys';
+import { upsertTabRow } from './sheetsWriter';
+
+const HOLDS_STORAGE_KEY = '@gmk_holds';
+export const HOLDS_TAB = process.env.EXPO_PUBLIC_HOLDS_TAB || 'HOLDS';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Longest hold staff can place
+export const MAX_HOLD_DAYS = Number(process.env.EXPO_PUBLIC_MAX_HOLD_DAYS) || 7;
+// Holds placed "till tomorrow" or "till Monday" run to this hour of that day
+const HOLD_END_HOUR = 18;
+// Holds placed on other devices are re-read from the holds tabs at most this often
+const SHEET_HOLDS_TTL_MS = 2 * 60 * 1000;
+// Released and expired holds are kept on the device this long, so the holds tab gets their final status
+const ENDED_RETENTION_MS = DAY_MS;
+
+const HOLD_COLUMNS = ['ID', 'Location ID', 'Hall ID', 'Hall', 'Date', 'Slot', 'Customer', 'Note', 'Held by', 'Placed', 'Expires', 'Status', 'Released by', 'Updated'];
+
+let localHolds: SlotHold[] | null = null;
+let sheetHolds: SlotHold[] = [];
+let sheetHoldsReadAt = 0;
+let pendingSheetRead: Promise<void> | null = null;
+const changeListeners = new Set<(holds: SlotHold[]) => void>();
+
+export const isHoldActive = (hold: SlotHold, now: number = Date.now()) => hold.status === 'active' && hold.expiresAt > now;
+
+// The device's copy and the tab's copy of each hold, keeping whichever was changed last
+const mergeHolds = (now: number): SlotHold[] => {
+    const byId = new Map<string, SlotHold>();
+    [...sheetHolds, ...(localHolds || [])].forEach(hold => {
+        const existing = byId.get(hold.id);
+        if (!existing || hold.updatedAt >= existing.updatedAt) {
+            byId.set(hold.id, hold);
+        }
+    });
+    return Array.from(byId.values())
+        .filter(hold => isHoldActive(hold, now))
+        .sort((a, b) => a.expiresAt - b.expiresAt);
+};
+
+const notify = (now: number = Date.now()) => {
+    const holds = mergeHolds(now);
+    changeListeners.forEach(listener => listener(holds));
+};
+
+const saveLocalHolds = async (list: SlotHold[]) => {
+    localHolds = list;
+    try {
+        await AsyncStorage.setItem(HOLDS_STORAGE_KEY, JSON.stringify(list));
+    } catch (e) {
+        console.warn('Failed to save holds:', e);
+    }
+};
+
+// Active holds from this device and the holds tabs, soonest to expire first.
+// Holds placed here that have run out are marked expired (and the tab updated).
+export const loadHolds = async (now: number = Date.now()): Promise<SlotHold[]> => {
+    if (localHolds === null) {
+        try {
+            const raw = await AsyncStorage.getItem(HOLDS_STORAGE_KEY);
+            localHolds = raw ? JSON.parse(raw) as SlotHold[] : [];
+        } catch (e) {
+            console.warn('Failed to load holds:', e);
+            localHolds = [];
+        }
+    }
+    const stored = localHolds;
+    const expired = stored.filter(hold => hold.status === 'active' && hold.expiresAt <= now);
+    const kept = stored.filter(hold => hold.status === 'active' || now - hold.updatedAt < ENDED_RETENTION_MS);
+    if (expired.length > 0 || kept.length !== stored.length) {
+        const updated = kept.map(hold => expired.includes(hold) ? { ...hold, status: 'expired' as const, updatedAt: now } : hold);
+        updated.filter(hold => expired.some(old => old.id === hold.id)).forEach(mirrorToSheet);
+        await saveLocalHolds(updated);
+        notify(now);
+    }
+    return mergeHolds(now);
+};
+
+// Called whenever the active holds change, including when one runs out on the next loadHolds
+export const onHoldsChange = (listener: (holds: SlotHold[]) => void) => {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+};
+
+// Forget the in-memory copies (tests); the stored holds stay
+export const clearHoldCache = () => {
+    localHolds = null;
+    sheetHolds = [];
+    sheetHoldsReadAt = 0;
+    pendingSheetRead = null;
+};
+
+// Parse a holds tab. Header row (case-insensitive, any column order) as in HOLD_COLUMNS; rows that can't be
+// read are skipped.
+export const parseHoldRows = (rows: string[][]): SlotHold[] => {
+    if (rows.length < 2) {
+        return [];
+    }
+    const header = rows[0].map(cell => (cell || '').trim().toLowerCase());
+    const cell = (row: string[], name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+    const time = (value: string) => {
+        const parsed = Date.parse(value);
+        return Number.isNaN(parsed) ? null : parsed;
+    };
+
+    const holds: SlotHold[] = [];
+    rows.slice(1).forEach((row, index) => {
+        const id = cell(row, 'id');
+        if (!id) return; // Blank spacer row
+        const status = cell(row, 'status').toLowerCase();
+        const placedAt = time(cell(row, 'placed'));
+        const expiresAt = time(cell(row, 'expires'));
+        if ((status !== 'active' && status !== 'released' && status !== 'expired') || placedAt === null || expiresAt === null) {
+            console.warn(`${HOLDS_TAB} row ${index + 2}: can't read hold ${id}, skipping`);
+            return;
+        }
+        holds.push({
+            id,
+            locationId: cell(row, 'location id'),
+            hallId: cell(row, 'hall id'),
+            hallName: cell(row, 'hall'),
+            date: cell(row, 'date'),
+            timeSlot: cell(row, 'slot'),
+            customerName: cell(row, 'customer'),
+            note: cell(row, 'note') || undefined,
+            heldBy: cell(row, 'held by'),
+            placedAt,
+            expiresAt,
+            status,
+            releasedBy: cell(row, 'released by') || undefined,
+            updatedAt: time(cell(row, 'updated')) ?? placedAt
+        });
+    });
+    return holds;
+};
+
+// The holds in one spreadsheet's holds tab, none when it has no such tab. Needs the API key; the proxy serves
+// this to the app at /holds.
+export const readSheetHolds = async (sheetId: string): Promise<SlotHold[]> => {
+    const result = await getAvailabilitySource().readRanges(sheetId, [`'${HOLDS_TAB}'!A1:N1000`]);
+    return result.tabMissing ? [] : parseHoldRows(result.valueRanges[0] || []);
+};
+
+// Transport switch, as for the months: through the proxy when EXPO_PUBLIC_PROXY_URL is set, otherwise straight from Sheets
+const fetchSheetHolds = async (sheetId: string): Promise<SlotHold[]> => {
+    if (!PROXY_URL) {
+        return readSheetHolds(sheetId);
+    }
+    const response = await fetchWithRetry(`${PROXY_URL}/holds?sheetId=${encodeURIComponent(sheetId)}`, `proxy ${HOLDS_TAB}`);
+    if (!response.ok) {
+        throw new Error(`The availability server returned status ${response.status}`);
+    }
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+        throw new Error('The availability server sent an unexpected response');
+    }
+    return data as SlotHold[];
+};
+
+// Re-read the holds tab of every spreadsheet in the venue config, at most every couple of minutes unless forced.
+// A spreadsheet that can't be read keeps the holds last read from it.
+export const refreshSheetHolds = (options?: { force?: boolean }): Promise<void> => {
+    if (pendingSheetRead) {
+        return pendingSheetRead;
+    }
+    if (!options?.force && Date.now() - sheetHoldsReadAt < SHEET_HOLDS_TTL_MS) {
+        return Promise.resolve();
+    }
+
+    const sheetIds = Array.from(new Set(getVenueConfig().locations.map(location => location.sheetId)));
+    pendingSheetRead = (async () => {
+        const read: SlotHold[] = [];
+        for (const sheetId of sheetIds) {
+            try {
+                read.push(...await fetchSheetHolds(sheetId));
+            } catch (error) {
+                console.warn(`Could not read the '${HOLDS_TAB}' tab of spreadsheet ${sheetId}:`, error);
+                const locationHallIds = getVenueConfig().locations
+                    .filter(location => location.sheetId === sheetId)
+                    .flatMap(location => location.halls.map(hall => hall.id));
+                read.push(...sheetHolds.filter(hold => locationHallIds.includes(hold.hallId)));
+            }
+        }
+        sheetHolds = read;
+        sheetHoldsReadAt = Date.now();
+        notify();
+    })().finally(() => {
+        pendingSheetRead = null;
+    });
+    return pendingSheetRead;
+};
+
+// The active hold on a slot, if any
+export const findHold = (holds: SlotHold[], slot: { hallId: string; date: string; timeSlot: string }, now: number = Date.now()) =>
+    holds.find(hold => slotKey(hold) === slotKey(slot) && isHoldActive(hold, now)) || null;
+
+// The slots with each free slot under an active hold shown as 'Enquiry' (and its hold set). Like applyEnquiries,
+// slots marked by an earlier call are restored first, so this can be re-run whenever the holds change.
+export const applyHolds = (slots: HallData[], holds: SlotHold[], now: number = Date.now()): HallData[] => slots.map(slot => {
+    let base = slot;
+    if (slot.hold) {
+        const { hold: _previous, ...rest } = slot;
+        base = { ...rest, status: slot.enquiryIds ? 'Enquiry' : 'Available' };
+    }
+    if (base.hallName === '' || (base.status !== 'Available' && !base.enquiryIds)) {
+        return base;
+    }
+    const hold = findHold(holds, base, now);
+    return hold ? { ...base, status: 'Enquiry', hold } : base;
+});
+
+// "2d 4h", "3h 20m", "12m" until `expiresAt`
+export const formatTimeLeft = (expiresAt: number, now: number = Date.now()): string => {
+    const minutes = Math.max(Math.ceil((expiresAt - now) / 60000), 0);
+    if (minutes >= 24 * 60) {
+        return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+    }
+    if (minutes >= 60) {
+        return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    }
+    return `${minutes}m`;
+};
+
+// Why a hold until `expiresAt` can't be placed on a slot of `date`, or null if it can
+const holdLengthProblem = (date: string, expiresAt: number, now: number): string | null => {
+    if (expiresAt <= now) {
+        return 'Pick a time in the future.';
+    }
+    if (expiresAt - now > MAX_HOLD_DAYS * DAY_MS) {
+        return `Holds can last at most ${MAX_HOLD_DAYS} days.`;
+    }
+    if (expiresAt > endOfDay(date)) {
+        return 'A hold has to end by the day of the slot.';
+    }
+    return null;
+};
+
+// Ready-made lengths for a hold on a slot of `date`, e.g. "Till tomorrow 6 PM" or "Till Monday 6 PM"
+export const holdPresets = (date: string, now: number = Date.now()): Array<{ label: string; expiresAt: number }> => {
+    const today = new Date(now);
+    const at = (daysAhead: number) =>
+        new Date(today.getFullYear(), today.getMonth(), today.getDate() + daysAhead, HOLD_END_HOUR).getTime();
+    const untilMonday = ((8 - today.getDay()) % 7) || 7;
+    const presets = [
+        { label: '24 hours', expiresAt: now + DAY_MS },
+        { label: 'Till tomorrow 6 PM', expiresAt: at(1) },
+        { label: '2 days', expiresAt: now + 2 * DAY_MS },
+        { label: 'Till Monday 6 PM', expiresAt: at(untilMonday) },
+        { label: '1 week', expiresAt: now + 7 * DAY_MS },
+    ];
+    return presets.filter((preset, index) =>
+        holdLengthProblem(date, preset.expiresAt, now) === null
+        && presets.findIndex(other => other.expiresAt === preset.expiresAt) === index
+    );
+};
+
+// Hold a free slot for a customer until `expiresAt`, as `heldBy` (a username).
+// The holds tabs are re-read first so a slot just held on another device isn't held twice.
+export const placeHold = async (
+    slot: HallData,
+    details: { customerName: string; note?: string; expiresAt: number },
+    heldBy: string,
+    now: number = Date.now()
+): Promise<SlotHold> => {
+    const customerName = details.customerName.trim();
+    if (!customerName) {
+        throw new Error("Enter the customer's name.");
+    }
+    if (slot.status !== 'Available' && !slot.enquiryIds && !slot.hold) {
+        throw new Error(`${slot.hallName} ${slot.timeSlot} is ${slot.status} in the sheet, so it can't be held.`);
+    }
+    const problem = holdLengthProblem(slot.date, details.expiresAt, now);
+    if (problem) {
+        throw new Error(problem);
+    }
+
+    await refreshSheetHolds({ force: true });
+    const existing = findHold(await loadHolds(now), slot, now);
+    if (existing) {
+        throw new Error(`Already held for ${existing.customerName} by ${existing.heldBy} (${formatTimeLeft(existing.expiresAt, now)} left).`);
+    }
+
+    const hold: SlotHold = {
+        id: newRecordId('H', now),
+        locationId: slot.locationId,
+        hallId: slot.hallId,
+        hallName: slot.hallName,
+        date: slot.date,
+        timeSlot: slot.timeSlot,
+        customerName,
+        note: details.note?.trim() || undefined,
+        heldBy,
+        placedAt: now,
+        expiresAt: details.expiresAt,
+        status: 'active',
+        updatedAt: now
+    };
+    await saveLocalHolds([...(localHolds || []), hold]);
+    mirrorToSheet(hold);
+    notify(now);
+    return hold;
+};
+
+// Release a hold before it runs out, as `releasedBy` (a username). Works for holds placed on other devices too.
+export const releaseHold = async (id: string, releasedBy: string, now: number = Date.now()): Promise<SlotHold> => {
+    const current = (await loadHolds(now)).find(hold => hold.id === id);
+    if (!current) {
+        throw new Error('This hold has already ended.');
+    }
+    const released: SlotHold = { ...current, status: 'released', releasedBy, updatedAt: now };
+    await saveLocalHolds([...(localHolds || []).filter(hold => hold.id !== id), released]);
+    mirrorToSheet(released);
+    notify(now);
+    return released;
+};
+
+const holdRow = (hold: SlotHold) => [
+    hold.id,
+    hold.locationId,
+    hold.hallId,
+    hold.hallName,
+    hold.date,
+    hold.timeSlot,
+    hold.customerName,
+    hold.note || '',
+    hold.heldBy,
+    new Date(hold.placedAt).toISOString(),
+    new Date(hold.expiresAt).toISOString(),
+    hold.status,
+    hold.releasedBy || '',
+    new Date(hold.updatedAt).toISOString()
+];
+
+// Write the hold's row to the holds tab of its hall's spreadsheet; without it other devices don't see the hold
+const mirrorToSheet = (hold: SlotHold) => {
+    if (!isWriteBackEnabled()) return;
+
+    const location = getVenueConfig().locations.find(config => config.id === hold.locationId) || getVenueConfig().locations[0];
+    upsertTabRow(location.sheetId, HOLDS_TAB, HOLD_COLUMNS, holdRow(hold))
+        .then(written => {
+            if (!written) console.log(`Not signed in with Google, hold ${hold.id} is only visible on this device`);
+        })
+        .catch(error => console.error(`Hold ${hold.id} was saved on this device but not in the sheet:`, error));
+};
@@ -0,0 +1,263 @@
+// Work out a month tab's layout from its content: which column holds the dates, which rows hold the hall names
+// and Morning/Evening headers, and which columns each hall uses. Used by `npm run discover-layout` to propose
+// a venue config and to catch a config that no longer matches the sheet.
+import { Hall, LocationConfig } from '../types';
+import { columnLetters, parseA1 } from './sheetRange';
+
+// The day of the month a date column cell shows: "7", "07", "7-Jun-2025", "Sat 7", "07/06/2025" or "2025-06-07"
+export const dayOfDateCell = (value: string): number | null => {
+    const text = value.trim();
+    const match = /^\d{4}-\d{1,2}-(\d{1,2})\b/.exec(text) || /(?:^|\D)(\d{1,2})(?!\d)/.exec(text);
+    return match ? Number(match[1]) : null;
+};
+
+export interface DiscoveredHall {
+    name: string;          // As written in the hall header row
+    morningColumn: string; // e.g. "B"
+    eveningColumn: string;
+}
+
+export interface DiscoveredLayout {
+    sheetName: string;
+    dateColumn: string | null;  // null when no column counts 1, 2, 3... down the rows
+    firstDayRow: number;        // 1-based row of day 1
+    daysFound: number;          // How many consecutive days the date column has from day 1
+    slotHeaderRow: number | null; // 1-based row with the Morning/Evening headers
+    hallHeaderRow: number | null; // 1-based row with the hall names
+    halls: DiscoveredHall[];
+    problems: string[];         // Why parts of the layout couldn't be found
+}
+
+export interface LayoutIssue {
+    hallId?: string;
+    message: string;
+}
+
+const MORNING_HEADER = /^(morning|am|lunch)$/i;
+const EVENING_HEADER = /^(evening|pm|dinner)$/i;
+// A date column has to count at least this far to be believed
+const MIN_DAY_RUN = 28;
+// How far above day 1 the Morning/Evening header row may be
+const MAX_HEADER_DISTANCE = 5;
+
+const cellAt = (rows: string[][], row: number, column: number): string => ((rows[row] || [])[column] || '').trim();
+
+// The column and row (0-based) where the longest run of days 1, 2, 3... starts
+const findDateColumn = (rows: string[][]): { column: number; row: number; days: number } | null => {
+    let best: { column: number; row: number; days: number } | null = null;
+    const width = Math.max(0, ...rows.map(row => row.length));
+    for (let column = 0; column < width; column++) {
+        for (let row = 0; row < rows.length; row++) {
+            if (dayOfDateCell(cellAt(rows, row, column)) !== 1) continue;
+            let days = 1;
+            while (dayOfDateCell(cellAt(rows, row + days, column)) === days + 1) days++;
+            if (!best || days > best.days) {
+                best = { column, row, days };
+            }
+        }
+    }
+    return best && best.days >= MIN_DAY_RUN ? best : null;
+};
+
+// The nearest row above `firstDayRow` (0-based) with Morning/Evening headers in it
+const findSlotHeaderRow = (rows: string[][], firstDayRow: number): number | null => {
+    for (let row = firstDayRow - 1; row >= Math.max(0, firstDayRow - MAX_HEADER_DISTANCE); row--) {
+        if ((rows[row] || []).some(cell => MORNING_HEADER.test((cell || '').trim()))) {
+            return row;
+        }
+    }
+    return null;
+};
+
+// Read the layout of a month tab given as rows from A1 (as the Sheets API or a CSV export returns them)
+export const discoverLayout = (rows: string[][], sheetName: string): DiscoveredLayout => {
+    const problems: string[] = [];
+    const dates = findDateColumn(rows);
+
+    let firstDayRow: number;
+    let slotHeaderRow: number | null;
+    if (dates) {
+        firstDayRow = dates.row;
+        slotHeaderRow = findSlotHeaderRow(rows, firstDayRow);
+    } else {
+        problems.push(`No column in '${sheetName}' counts the days 1, 2, 3... down the rows; add a date column to check the rows against`);
+        // Without dates, day 1 is taken to be the row under the Morning/Evening headers
+        const headerRow = rows.findIndex(row => (row || []).some(cell => MORNING_HEADER.test((cell || '').trim())));
+        slotHeaderRow = headerRow === -1 ? null : headerRow;
+        firstDayRow = headerRow + 1;
+    }
+
+    const halls: DiscoveredHall[] = [];
+    let hallHeaderRow: number | null = null;
+    if (slotHeaderRow === null) {
+        problems.push(`No Morning/Evening header row found in '${sheetName}'`);
+    } else {
+        hallHeaderRow = slotHeaderRow > 0 ? slotHeaderRow - 1 : null;
+        const slotCells = rows[slotHeaderRow] || [];
+
+        // Hall names are usually merged across the Morning and Evening columns, leaving the text in the first one
+        const hallNameAt = (column: number): string => {
+            if (hallHeaderRow === null) return '';
+            for (let c = column; c >= 0; c--) {
+                const name = cellAt(rows, hallHeaderRow, c);
+                if (name) return name;
+                if (c < column && MORNING_HEADER.test(cellAt(rows, slotHeaderRow as number, c))) return '';
+            }
+            return '';
+        };
+
+        slotCells.forEach((cell, column) => {
+            if (!MORNING_HEADER.test((cell || '').trim())) return;
+            const name = hallNameAt(column);
+            let evening = -1;
+            for (let c = column + 1; c < slotCells.length && !MORNING_HEADER.test(cellAt(rows, slotHeaderRow as number, c)); c++) {
+                if (EVENING_HEADER.test(cellAt(rows, slotHeaderRow as number, c))) {
+                    evening = c;
+                    break;
+                }
+            }
+            if (!name) {
+                problems.push(`Morning column ${columnLetters(column)} has no hall name above it`);
+                return;
+            }
+            if (evening === -1) {
+                problems.push(`${name}: no Evening column after its Morning column ${columnLetters(column)}`);
+                return;
+            }
+            halls.push({ name, morningColumn: columnLetters(column), eveningColumn: columnLetters(evening) });
+        });
+        if (halls.length === 0) {
+            problems.push(`No halls found in the header rows of '${sheetName}'`);
+        }
+    }
+
+    return {
+        sheetName,
+        dateColumn: dates ? columnLetters(dates.column) : null,
+        firstDayRow: firstDayRow + 1,
+        daysFound: dates ? dates.days : 0,
+        slotHeaderRow: slotHeaderRow === null ? null : slotHeaderRow + 1,
+        hallHeaderRow: hallHeaderRow === null ? null : hallHeaderRow + 1,
+        halls,
+        problems
+    };
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// "Aster" -> "tathawade-aster", for halls that aren't in the config yet
+const proposedHallId = (locationId: string, name: string) =>
+    `${locationId}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`;
+
+// Configured halls paired with their columns in the sheet: by header name, then (for renamed headers) by morning column
+const matchHalls = (layout: DiscoveredLayout, locations: LocationConfig[]): Map<Hall, DiscoveredHall> => {
+    const matches = new Map<Hall, DiscoveredHall>();
+    const claimed = new Set<DiscoveredHall>();
+    const halls = locations.flatMap(location => location.halls);
+    halls.forEach(hall => {
+        const found = layout.halls.find(candidate => !claimed.has(candidate) && sameName(candidate.name, hall.name));
+        if (found) {
+            matches.set(hall, found);
+            claimed.add(found);
+        }
+    });
+    halls.filter(hall => !matches.has(hall)).forEach(hall => {
+        const morningColumn = columnLetters(parseA1(hall.morningRange).startColumn);
+        const found = layout.halls.find(candidate => !claimed.has(candidate) && candidate.morningColumn === morningColumn);
+        if (found) {
+            matches.set(hall, found);
+            claimed.add(found);
+        }
+    });
+    return matches;
+};
+
+// The configured locations of one spreadsheet rewritten to match the discovered layout, keeping hall ids and names.
+// Halls found in the sheet but not in the config are added to the last location for a person to sort out.
+export const proposeLocations = (layout: DiscoveredLayout, locations: LocationConfig[]): LocationConfig[] => {
+    const lastRow = layout.firstDayRow + 30;
+    // Extra slots (e.g. Night) and hall details aren't discovered and are kept as configured
+    const hallConfig = (id: string, name: string, found: DiscoveredHall, configured?: Hall): Hall => ({
+        id,
+        name,
+        morningRange: `${found.morningColumn}${layout.firstDayRow}:${found.morningColumn}${lastRow}`,
+        eveningRange: `${found.eveningColumn}${layout.firstDayRow}:${found.eveningColumn}${lastRow}`,
+        morningHeaderOffset: 0,
+        eveningHeaderOffset: 0,
+        ...(configured?.extraSlots ? { extraSlots: configured.extraSlots } : {}),
+        ...(configured?.details ? { details: configured.details } : {})
+    });
+
+    const matches = matchHalls(layout, locations);
+    const proposed = locations.map(location => ({
+        ...location,
+        ...(layout.dateColumn ? { dateColumn: layout.dateColumn } : {}),
+        halls: location.halls.flatMap(hall => {
+            const found = matches.get(hall);
+            return found ? [hallConfig(hall.id, hall.name, found, hall)] : [];
+        })
+    }));
+
+    const matched = new Set(matches.values());
+    const unmatched = layout.halls.filter(found => !matched.has(found));
+    if (unmatched.length > 0 && proposed.length > 0) {
+        const target = proposed[proposed.length - 1];
+        target.halls.push(...unmatched.map(found => hallConfig(proposedHallId(target.id, found.name), found.name, found)));
+    }
+    return proposed.filter(location => location.halls.length > 0);
+};
+
+// Where the configured locations of one spreadsheet disagree with the discovered layout
+export const diffLayout = (layout: DiscoveredLayout, locations: LocationConfig[], daysInMonth: number): LayoutIssue[] => {
+    const issues: LayoutIssue[] = layout.problems.map(message => ({ message }));
+
+    if (layout.dateColumn && layout.daysFound < daysInMonth) {
+        issues.push({ message: `The date column ${layout.dateColumn} stops at day ${layout.daysFound}; '${layout.sheetName}' has ${daysInMonth} days` });
+    }
+
+    const matches = matchHalls(layout, locations);
+    locations.forEach(location => {
+        if (location.dateColumn && layout.dateColumn && location.dateColumn !== layout.dateColumn) {
+            issues.push({ message: `${location.name}: date column is ${location.dateColumn} in the config but the dates are in column ${layout.dateColumn}` });
+        }
+
+        location.halls.forEach(hall => {
+            const where = `${location.name} - ${hall.name}`;
+            const found = matches.get(hall);
+            if (!found) {
+                issues.push({ hallId: hall.id, message: `${where}: no '${hall.name}' header in the sheet` });
+                return;
+            }
+            if (!sameName(found.name, hall.name)) {
+                issues.push({ hallId: hall.id, message: `${where}: column ${found.morningColumn} is headed '${found.name}' in the sheet; was the hall renamed?` });
+            }
+
+            ([
+                ['morning', hall.morningRange, hall.morningHeaderOffset || 0, found.morningColumn],
+                ['evening', hall.eveningRange, hall.eveningHeaderOffset || 0, found.eveningColumn]
+            ] as const).forEach(([label, range, offset, sheetColumn]) => {
+                const { startRow, startColumn } = parseA1(range);
+                const column = columnLetters(startColumn);
+                if (column !== sheetColumn) {
+                    issues.push({ hallId: hall.id, message: `${where}: ${label} is column ${column} in the config but column ${sheetColumn} in the sheet` });
+                }
+                const configuredFirstDay = startRow + offset + 1;
+                if (configuredFirstDay !== layout.firstDayRow) {
+                    issues.push({
+                        hallId: hall.id,
+                        message: `${where}: ${label} day 1 is row ${configuredFirstDay} in the config (${range}, offset ${offset}) but row ${layout.firstDayRow} in the sheet`
+                    });
+                }
+            });
+        });
+    });
+
+    const matched = new Set(matches.values());
+    layout.halls
+        .filter(found => !matched.has(found))
+        .forEach(found => {
+            issues.push({ message: `'${found.name}' (columns ${found.morningColumn}/${found.eveningColumn}) is in the sheet but not in the config` });
+        });
+    return issues;
+};
+
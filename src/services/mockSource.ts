@@ -0,0 +1,170 @@
+// In-memory source for tests and demos. Tabs can be set cell by cell and spreadsheets can be made to fail;
+// month tabs that weren't set are generated from the venue layout with the same bookings every time.
+import { AvailabilitySource, RangeRead } from './availabilitySource';
+import { FixtureTabs, readFixtureRanges } from './fixtureSource';
+import { columnIndex, parseA1, splitRange } from './sheetRange';
+import { hallSlotRanges } from './slots';
+import { USERS_TAB } from './userAccounts';
+import { getVenueConfig } from './venueConfig';
+
+export interface MockSource extends AvailabilitySource {
+    setTab(sheetId: string, tab: string, rows: string[][]): void;
+    // Set one cell, e.g. setCell(id, "'JUN 2025'!B12", 'occ - Sharma')
+    setCell(sheetId: string, cell: string, value: string): void;
+    removeTab(sheetId: string, tab: string): void;
+    // Make every read of a spreadsheet reject with `error` until called again with null
+    failWith(sheetId: string, error: Error | null): void;
+    // Every readRanges call, oldest first
+    readonly calls: Array<{ sheetId: string; ranges: string[] }>;
+}
+
+export interface MockSourceOptions {
+    generateMonths?: boolean; // Fill missing "JUN 2025"-style tabs from the venue layout (default true)
+    generateUsers?: boolean;  // Add a users tab with demo accounts (default true)
+    latencyMs?: number;       // Delay every read, to see loading states
+}
+
+const MONTH_TAB = /^(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC) (\d{4})$/;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const CLIENTS = ['Sharma', 'Patil', 'Joshi', 'Kulkarni', 'Deshmukh', 'Rao', 'Mehta', 'Iyer'];
+const EVENTS = ['Wedding', 'Reception', 'Engagement', 'Birthday', 'Corporate', 'Haldi'];
+
+// Demo accounts: "demo" (admin, PIN 1234) and "viewer" (viewer, PIN 0000)
+const DEMO_USERS: string[][] = [
+    ['Username', 'Name', 'Role', 'PIN Hash', 'Active'],
+    ['demo', 'Demo Admin', 'admin', 'sha256:demo0001:18ed5833562f2291adcdc8f78f30876d8a401e026a73ea592a1731e49a2bb547', 'yes'],
+    ['viewer', 'Demo Viewer', 'viewer', 'sha256:demo0002:5d5e93c6601cf60dd692ac550bf237c157a37b3871a5bc60744d96adee29c54e', 'yes'],
+];
+
+// FNV-1a, so generated bookings don't change between runs
+const hash = (text: string): number => {
+    let value = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        value ^= text.charCodeAt(i);
+        value = Math.imul(value, 0x01000193) >>> 0;
+    }
+    return value;
+};
+
+// A plausible cell: mostly free, some bookings and holds, the odd maintenance day and free-text entry
+const generatedValue = (seed: string): string => {
+    const value = hash(seed);
+    const client = CLIENTS[value % CLIENTS.length];
+    const event = EVENTS[(value >>> 8) % EVENTS.length];
+    const roll = (value >>> 16) % 100;
+    if (roll < 55) return '';
+    if (roll < 62) return 'vac';
+    if (roll < 82) return `occ - ${client} ${event}`;
+    if (roll < 94) return `hold - ${client}`;
+    if (roll < 97) return 'maintenance';
+    return `${client} ${event}`;
+};
+
+const setGridCell = (rows: string[][], row: number, column: number, value: string) => {
+    while (rows.length <= row) rows.push([]);
+    while (rows[row].length <= column) rows[row].push('');
+    rows[row][column] = value;
+};
+
+// Every configured hall's slot columns for the month (and each location's date column),
+// for the halls kept in `sheetId`
+const generateMonthTab = (sheetId: string, tab: string): string[][] | null => {
+    const match = MONTH_TAB.exec(tab);
+    if (!match) return null;
+    const daysInMonth = new Date(Number(match[2]), MONTHS.indexOf(match[1]) + 1, 0).getDate();
+
+    const rows: string[][] = [];
+    getVenueConfig().locations
+        .filter(location => location.sheetId === sheetId)
+        .forEach(location => {
+            location.halls.forEach(hall => {
+                hallSlotRanges(location, hall).forEach(({ name: timeSlot, range, headerOffset }) => {
+                    const { startRow, startColumn } = parseA1(range);
+                    for (let day = 1; day <= daysInMonth; day++) {
+                        const row = startRow + headerOffset + day - 1;
+                        setGridCell(rows, row, startColumn, generatedValue(`${hall.id}|${tab}|${day}|${timeSlot}`));
+                        if (location.dateColumn) {
+                            setGridCell(rows, row, columnIndex(location.dateColumn), String(day));
+                        }
+                    }
+                });
+            });
+        });
+    return rows;
+};
+
+export const createMockSource = (options: MockSourceOptions = {}): MockSource => {
+    const { generateMonths = true, generateUsers = true, latencyMs = 0 } = options;
+    const spreadsheets = new Map<string, FixtureTabs>();
+    const failures = new Map<string, Error>();
+    // Tabs removed on purpose, which must not be generated again
+    const removedTabs = new Set<string>();
+    const tabKey = (sheetId: string, tab: string) => `${sheetId}\u0000${tab}`;
+    const calls: Array<{ sheetId: string; ranges: string[] }> = [];
+
+    const tabsOf = (sheetId: string): FixtureTabs => {
+        let tabs = spreadsheets.get(sheetId);
+        if (!tabs) {
+            tabs = generateUsers ? { [USERS_TAB]: DEMO_USERS.map(row => [...row]) } : {};
+            spreadsheets.set(sheetId, tabs);
+        }
+        return tabs;
+    };
+
+    const ensureTab = (sheetId: string, tab: string) => {
+        const tabs = tabsOf(sheetId);
+        if (!tabs[tab] && generateMonths && !removedTabs.has(tabKey(sheetId, tab))) {
+            const generated = generateMonthTab(sheetId, tab);
+            if (generated) tabs[tab] = generated;
+        }
+        return tabs;
+    };
+
+    return {
+        name: 'mock',
+        calls,
+        readRanges: async (sheetId: string, ranges: string[]): Promise<RangeRead> => {
+            calls.push({ sheetId, ranges });
+            if (latencyMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, latencyMs));
+            }
+            const failure = failures.get(sheetId);
+            if (failure) {
+                throw failure;
+            }
+            ranges.forEach(range => ensureTab(sheetId, splitRange(range).tab));
+            return readFixtureRanges(tabsOf(sheetId), ranges);
+        },
+        // Generated months exist for any month, which can't be listed
+        listTabs: async (sheetId: string): Promise<string[] | null> => {
+            const failure = failures.get(sheetId);
+            if (failure) {
+                throw failure;
+            }
+            return generateMonths ? null : Object.keys(tabsOf(sheetId));
+        },
+        setTab: (sheetId: string, tab: string, rows: string[][]) => {
+            removedTabs.delete(tabKey(sheetId, tab));
+            tabsOf(sheetId)[tab] = rows.map(row => [...row]);
+        },
+        setCell: (sheetId: string, cell: string, value: string) => {
+            const { tab, a1 } = splitRange(cell);
+            removedTabs.delete(tabKey(sheetId, tab));
+            const tabs = ensureTab(sheetId, tab);
+            if (!tabs[tab]) tabs[tab] = [];
+            const { startRow, startColumn } = parseA1(a1);
+            setGridCell(tabs[tab], startRow, startColumn, value);
+        },
+        removeTab: (sheetId: string, tab: string) => {
+            removedTabs.add(tabKey(sheetId, tab));
+            delete tabsOf(sheetId)[tab];
+        },
+        failWith: (sheetId: string, error: Error | null) => {
+            if (error) {
+                failures.set(sheetId, error);
+            } else {
+                failures.delete(sheetId);
+            }
+        }
+    };
+};
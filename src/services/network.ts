@@ -1,7 +1,6 @@
 // Network and connection utilities to handle Java IO section errors and connectivity issues
 import { Alert, Platform } from 'react-native';
 import { getDevServerUrl, logErrorForAnalytics } from './updates';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Handle NetInfo import safely with fallback to mock
 // Updated for compatibility with @react-native-community/netinfo v11.4.1
@@ -13,31 +12,6 @@ try {
   NetInfo = require('./__mocks__/netinfo').default;
 }
 
-// Cache key for storing hall data
-const HALL_DATA_CACHE_KEY = 'hallDataCache';
-
-// Save data to cache
-const cacheHallData = async (date: Date, data: string) => {
-  const key = `${HALL_DATA_CACHE_KEY}_${date.toISOString().split('T')[0]}`;
-  try {
-    await AsyncStorage.setItem(key, data);
-    console.log(`Cached hall data for ${date}`);
-  } catch (e) {
-    console.warn('Failed to cache hall data:', e);
-  }
-};
-
-// Load data from cache
-const loadCachedHallData = async (date: Date): Promise<string | null> => {
-  const key = `${HALL_DATA_CACHE_KEY}_${date.toISOString().split('T')[0]}`;
-  try {
-    return await AsyncStorage.getItem(key);
-  } catch (e) {
-    console.warn('Failed to load cached hall data:', e);
-    return null;
-  }
-};
-
 // Check if we can reach the internet
 export const checkInternetConnectivity = async (): Promise<boolean> => {
   try {
@@ -53,6 +27,20 @@ export const checkInternetConnectivity = async (): Promise<boolean> => {
   }
 };
 
+// Call `listener` whenever the device goes from offline to online (not on the initial state).
+// Returns an unsubscribe function.
+export const onConnectivityRestored = (listener: () => void): (() => void) => {
+  let wasOnline: boolean | null = null;
+  return NetInfo.addEventListener((state: any) => {
+    const isOnline = Boolean(state.isConnected && state.isInternetReachable !== false);
+    if (wasOnline === false && isOnline) {
+      console.log('Connectivity restored');
+      listener();
+    }
+    wasOnline = isOnline;
+  });
+};
+
 // Retry a network request with exponential backoff and specific error handling for Java IO errors
 export const retryNetworkRequest = async <T>(
   requestFn: () => Promise<T>,
@@ -84,12 +72,7 @@ export const retryNetworkRequest = async <T>(
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
-      const data = await requestFn();
-      // Cache successful fetch
-      if (requestFn.name === 'fetchHallData') {
-        await cacheHallData((requestFn as any).date, JSON.stringify(data));
-      }
-      return data;
+      return await requestFn();
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
@@ -113,15 +96,6 @@ export const retryNetworkRequest = async <T>(
         }
       }
       
-      // On last attempt, try cached data
-      if (attempt === maxRetries - 1) {
-        const cached = await loadCachedHallData((requestFn as any).date);
-        if (cached) {
-          console.log('Using cached hall data due to network failure');
-          return JSON.parse(cached) as T;
-        }
-      }
-      
       // Check if we should retry based on the error
       if (!shouldRetry(lastError) || attempt >= maxRetries - 1) {
         throw lastError;
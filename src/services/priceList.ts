@@ -0,0 +1,170 @@
+// The packages, add-on items, taxes and terms quotes are built from. Loaded from a price list tab in the
+// config spreadsheet when there is one, otherwise from the last copy read or the bundled default.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PriceList, PriceListItem, TaxRate } from '../types';
+import { getAvailabilitySource } from './availabilitySource';
+import { CONFIG_SHEET_ID } from './venueConfig';
+import bundledPriceList from '../config/priceList.json';
+
+const PRICE_LIST_CACHE_KEY = '@gmk_price_list';
+const PRICE_LIST_TAB = process.env.EXPO_PUBLIC_PRICE_LIST_TAB || 'PRICE LIST';
+// Prices change rarely; read the tab again at most this often
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export const validatePriceList = (raw: unknown): { priceList: PriceList | null; errors: string[] } => {
+    const candidate = raw as Partial<PriceList> | null;
+    if (!candidate || !Array.isArray(candidate.items)) {
+        return { priceList: null, errors: ['Price list must contain an "items" array'] };
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    candidate.items.forEach((item: Partial<PriceListItem>, index) => {
+        const where = item && typeof item.name === 'string' && item.name.trim() ? item.name : `items[${index}]`;
+        if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+            errors.push(`${where}: missing "name"`);
+            return;
+        }
+        if (typeof item.id !== 'string' || !ID_PATTERN.test(item.id)) {
+            errors.push(`${where}: "id" must be lowercase letters, digits and dashes (got ${JSON.stringify(item.id)})`);
+        } else if (ids.has(item.id)) {
+            errors.push(`${where}: duplicate id "${item.id}"`);
+        } else {
+            ids.add(item.id);
+        }
+        if (item.category !== 'package' && item.category !== 'item') {
+            errors.push(`${where}: "category" must be package or item (got ${JSON.stringify(item.category)})`);
+        }
+        if (item.unit !== 'fixed' && item.unit !== 'perGuest') {
+            errors.push(`${where}: "unit" must be fixed or perGuest (got ${JSON.stringify(item.unit)})`);
+        }
+        if (!isAmount(item.price)) {
+            errors.push(`${where}: "price" must be an amount in rupees (got ${JSON.stringify(item.price)})`);
+        }
+    });
+    if (!Array.isArray(candidate.taxes)) {
+        errors.push('Price list must contain a "taxes" array (empty for no tax)');
+    } else {
+        candidate.taxes.forEach((tax: Partial<TaxRate>, index) => {
+            if (!tax || typeof tax.name !== 'string' || !tax.name.trim() || !isAmount(tax.percent)) {
+                errors.push(`taxes[${index}]: needs a "name" and a "percent" (got ${JSON.stringify(tax)})`);
+            }
+        });
+    }
+    if (candidate.terms !== undefined && (!Array.isArray(candidate.terms) || candidate.terms.some(term => typeof term !== 'string'))) {
+        errors.push('"terms" must be a list of lines');
+    }
+
+    return { priceList: errors.length === 0 ? (candidate as PriceList) : null, errors };
+};
+
+// "Veg buffet – Silver" -> "veg-buffet-silver"
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Parse the price list tab. Header row (case-insensitive, any column order):
+// Type | Name | Unit | Price | ID | Description
+// Type is Package, Item, Tax or Term. Unit is "per guest" (or "per plate") or blank for a fixed price.
+// A tax row gives its percentage in Price, e.g. CGST | | 9; a term row is just its text in Name.
+export const parsePriceListRows = (rows: string[][]): PriceList => {
+    const header = (rows[0] || []).map(cell => (cell || '').trim().toLowerCase());
+    const missing = ['type', 'name', 'price'].filter(name => !header.includes(name));
+    if (missing.length > 0) {
+        throw new Error(`Price list tab '${PRICE_LIST_TAB}' is missing column(s): ${missing.join(', ')}`);
+    }
+    const cell = (row: string[], name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+    // "₹1,20,000" and "9%" are read as numbers; other text is kept for validation to report
+    const amount = (row: string[]) => {
+        const value = cell(row, 'price');
+        const number = Number(value.replace(/[₹,%\s]/g, ''));
+        return value && Number.isFinite(number) ? number : value;
+    };
+
+    const priceList: PriceList = { items: [], taxes: [], terms: [] };
+    rows.slice(1).forEach(row => {
+        const type = cell(row, 'type').toLowerCase();
+        const name = cell(row, 'name');
+        if (!type && !name) return; // Blank spacer row
+
+        if (type === 'tax') {
+            priceList.taxes.push({ name, percent: amount(row) as number });
+        } else if (type === 'term') {
+            priceList.terms!.push(name);
+        } else {
+            const description = cell(row, 'description');
+            priceList.items.push({
+                id: cell(row, 'id') || slugify(name),
+                name,
+                category: type as PriceListItem['category'],
+                unit: /^per\s*(guest|plate|head|person)$/i.test(cell(row, 'unit')) ? 'perGuest' : 'fixed',
+                price: amount(row) as number,
+                ...(description ? { description } : {})
+            });
+        }
+    });
+    return priceList;
+};
+
+let currentPriceList: PriceList = bundledPriceList as PriceList;
+let lastReadAt = 0;
+let pendingLoad: Promise<PriceList> | null = null;
+
+// Best price list available right now, without waiting on the network
+export const getPriceList = (): PriceList => currentPriceList;
+
+// Read the price list tab (at most every few minutes unless forced). Without a tab the bundled list is used;
+// when the tab can't be read or is invalid, the last good copy stays in use.
+export const loadPriceList = async (options?: { forceRefresh?: boolean }): Promise<PriceList> => {
+    if (!options?.forceRefresh && Date.now() - lastReadAt < REFRESH_INTERVAL_MS) {
+        return currentPriceList;
+    }
+    if (pendingLoad) {
+        return pendingLoad;
+    }
+
+    pendingLoad = (async () => {
+        lastReadAt = Date.now();
+        try {
+            const read = await getAvailabilitySource().readRanges(CONFIG_SHEET_ID, [`'${PRICE_LIST_TAB}'!A1:F300`]);
+            if (read.tabMissing) {
+                console.log(`No '${PRICE_LIST_TAB}' tab, using the bundled price list`);
+                currentPriceList = bundledPriceList as PriceList;
+                return currentPriceList;
+            }
+            const { priceList, errors } = validatePriceList(parsePriceListRows(read.valueRanges[0] || []));
+            if (!priceList) {
+                throw new Error(`Price list tab is invalid:\n${errors.join('\n')}`);
+            }
+            currentPriceList = priceList;
+            await AsyncStorage.setItem(PRICE_LIST_CACHE_KEY, JSON.stringify(priceList));
+        } catch (error) {
+            console.warn('Could not load the price list tab, using the last good copy:', error);
+            try {
+                const cached = await AsyncStorage.getItem(PRICE_LIST_CACHE_KEY);
+                const { priceList } = validatePriceList(cached ? JSON.parse(cached) : null);
+                if (priceList) {
+                    currentPriceList = priceList;
+                }
+            } catch (cacheError) {
+                console.warn('Failed to read the cached price list:', cacheError);
+            }
+        }
+        return currentPriceList;
+    })().finally(() => {
+        pendingLoad = null;
+    });
+
+    return pendingLoad;
+};
+
+// Forget when the tab was last read (tests)
+export const clearPriceListCache = () => {
+    currentPriceList = bundledPriceList as PriceList;
+    lastReadAt = 0;
+};
@@ -0,0 +1,126 @@
+// A saved quotation as a WhatsApp-ready message or a printable page for a PDF, and sharing either one.
+import { Share } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Quotation } from '../types';
+import { BRAND_NAME, escapeHtml, formatExportDate } from './availabilityExport';
+import { formatDate } from './dates';
+import { formatPrice } from './hallDetails';
+
+const dateOf = (time: number) => formatExportDate(formatDate(new Date(time)));
+
+// "400 × ₹650" for per-guest lines, nothing for single items
+const quantityText = (quote: Quotation, index: number) => {
+    const entry = quote.lines[index];
+    return entry.quantity === 1 ? '' : `${entry.quantity} × ${formatPrice(entry.unitPrice)}`;
+};
+
+const discountLabel = (quote: Quotation) =>
+    quote.discount?.kind === 'percent' ? `Discount (${quote.discount.value}%)` : 'Discount';
+
+const eventText = (quote: Quotation) =>
+    [quote.eventType, quote.guestCount ? `${quote.guestCount} guests` : null].filter(Boolean).join(' · ');
+
+const closingText = (quote: Quotation) =>
+    `Prepared by ${quote.createdBy}. Valid till ${dateOf(quote.validUntil)}, subject to the hall being free when the booking is confirmed.`;
+
+// A message for WhatsApp with *bold* headings and one line per charge
+export const formatQuoteText = (quote: Quotation): string => {
+    const { slot, totals } = quote;
+    const lines = [
+        `*${BRAND_NAME} – Quotation ${quote.id}*`,
+        dateOf(quote.createdAt),
+        '',
+        `Customer: ${quote.customerName}${quote.phone ? ` (${quote.phone})` : ''}`,
+        ...(eventText(quote) ? [`Event: ${eventText(quote)}`] : []),
+        `Hall: ${slot.hallName}, ${slot.location}`,
+        `Date: ${formatExportDate(slot.date)} – ${slot.timeSlot}`,
+        '',
+        ...quote.lines.map((entry, index) => {
+            const quantity = quantityText(quote, index);
+            return `${entry.description}: ${quantity ? `${quantity} = ` : ''}${formatPrice(entry.amount)}`;
+        }),
+        '',
+        `Subtotal: ${formatPrice(totals.subtotal)}`,
+        ...(totals.discount > 0 ? [`${discountLabel(quote)}: -${formatPrice(totals.discount)}`] : []),
+        ...totals.taxes.map(tax => `${tax.name} ${tax.percent}%: ${formatPrice(tax.amount)}`),
+        `*Total: ${formatPrice(totals.total)}*`,
+        ...(quote.notes ? ['', quote.notes] : []),
+        ...(quote.terms.length > 0 ? ['', '_Terms_', ...quote.terms.map(term => `• ${term}`)] : []),
+        '',
+        closingText(quote),
+    ];
+    return lines.join('\n');
+};
+
+// A printable page (for expo-print) with the charges as a table
+export const buildQuoteHtml = (quote: Quotation): string => {
+    const { slot, totals } = quote;
+    const row = (label: string, amount: string, className = '') =>
+        `<tr class="${className}"><td colspan="2">${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`;
+    const body = quote.lines.map((entry, index) =>
+        `<tr><td>${escapeHtml(entry.description)}</td><td>${escapeHtml(quantityText(quote, index))}</td><td class="amount">${escapeHtml(formatPrice(entry.amount))}</td></tr>`
+    ).join('');
+    const summary = [
+        row('Subtotal', formatPrice(totals.subtotal), 'summary'),
+        ...(totals.discount > 0 ? [row(discountLabel(quote), `-${formatPrice(totals.discount)}`, 'summary')] : []),
+        ...totals.taxes.map(tax => row(`${tax.name} ${tax.percent}%`, formatPrice(tax.amount), 'summary')),
+        row('Total', formatPrice(totals.total), 'total'),
+    ].join('');
+    const terms = quote.terms.length > 0
+        ? `<h3>Terms</h3><ul>${quote.terms.map(term => `<li>${escapeHtml(term)}</li>`).join('')}</ul>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222222; margin: 24px; }
+  h1 { color: #C6A556; margin: 0 0 4px; }
+  h3 { margin: 20px 0 6px; }
+  .meta { display: flex; justify-content: space-between; border-bottom: 2px solid #C6A556; padding-bottom: 8px; margin-bottom: 16px; }
+  .details td { padding: 2px 12px 2px 0; font-size: 14px; border: none; }
+  table { border-collapse: collapse; width: 100%; margin-top: 12px; }
+  th, td { border: 1px solid #CCCCCC; padding: 6px 8px; text-align: left; font-size: 13px; }
+  th { background: #1C1C1E; color: #FFFFFF; }
+  td.amount { text-align: right; white-space: nowrap; }
+  tr.summary td { border: none; }
+  tr.total td { border: none; border-top: 2px solid #222222; font-weight: bold; font-size: 15px; }
+  .footer { margin-top: 28px; color: #666666; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(BRAND_NAME)}</h1>
+<div class="meta"><span>Quotation ${escapeHtml(quote.id)}</span><span>${escapeHtml(dateOf(quote.createdAt))}</span></div>
+<table class="details">
+  <tr><td>Customer</td><td>${escapeHtml(quote.customerName)}${quote.phone ? ` · ${escapeHtml(quote.phone)}` : ''}</td></tr>
+  ${eventText(quote) ? `<tr><td>Event</td><td>${escapeHtml(eventText(quote))}</td></tr>` : ''}
+  <tr><td>Hall</td><td>${escapeHtml(slot.hallName)}, ${escapeHtml(slot.location)}</td></tr>
+  <tr><td>Date</td><td>${escapeHtml(formatExportDate(slot.date))} – ${escapeHtml(slot.timeSlot)}</td></tr>
+</table>
+<table>
+<tr><th>Description</th><th>Quantity</th><th class="amount">Amount</th></tr>
+${body}
+${summary}
+</table>
+${quote.notes ? `<p>${escapeHtml(quote.notes)}</p>` : ''}
+${terms}
+<p class="footer">${escapeHtml(closingText(quote))}</p>
+</body>
+</html>`;
+};
+
+// Send the quote through the native share sheet, as a message or a PDF
+export const shareQuote = async (quote: Quotation, format: 'text' | 'pdf'): Promise<void> => {
+    if (format === 'text') {
+        await Share.share({ message: formatQuoteText(quote) });
+        return;
+    }
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing files is not available on this device.');
+    }
+    const { uri } = await Print.printToFileAsync({ html: buildQuoteHtml(quote) });
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: `${BRAND_NAME} quotation ${quote.id}` });
+};
@@ -0,0 +1,210 @@
+// Quotations built from a free hall slot: the hall's rent for the slot, packages and items from the price list,
+// a discount and taxes. Each quote gets a number, is kept on the device and can be found again by customer.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PriceList, QuoteDiscount, QuoteLine, QuoteSlot, QuoteTotals, Quotation, TaxRate, VenueConfig } from '../types';
+import { endOfDay, nextRecordNumber, todayKey } from './recordKeys';
+import { findHall, priceSlot } from './hallDetails';
+import { isMuhurat } from './dateAnnotations';
+import { getPriceList } from './priceList';
+import { getVenueConfig } from './venueConfig';
+
+const QUOTES_STORAGE_KEY = '@gmk_quotes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How long the prices on a quote are honoured, unless the event comes sooner
+export const QUOTE_VALIDITY_DAYS = Number(process.env.EXPO_PUBLIC_QUOTE_VALIDITY_DAYS) || 15;
+// Quotes are kept on the device this long for looking up what a customer was offered
+const QUOTE_RETENTION_DAYS = 365;
+
+// What staff fill in when building a quote
+export interface NewQuote {
+    slot: QuoteSlot;
+    customerName: string;
+    phone?: string;
+    eventType?: string;
+    guestCount?: number;
+    rent?: number;        // Agreed hall rent; the configured price with its surcharges when left out
+    itemIds: string[];    // Price list entries in the order they were picked
+    discount?: QuoteDiscount;
+    applyTaxes: boolean;
+    notes?: string;
+}
+
+let quotes: Quotation[] | null = null;
+const changeListeners = new Set<(quotes: Quotation[]) => void>();
+// The last queued save; quotes are numbered and saved one at a time so two quick saves can't take the same number
+// or drop each other
+let savingQuote: Promise<unknown> = Promise.resolve();
+
+const line = (description: string, quantity: number, unitPrice: number, itemId?: string): QuoteLine => ({
+    description,
+    quantity,
+    unitPrice,
+    amount: quantity * unitPrice,
+    ...(itemId ? { itemId } : {})
+});
+
+// The hall's configured rent for the slot, with the weekend and muhurat surcharges on their own lines;
+// empty when the hall has no pricing
+export const hallRentLines = (slot: QuoteSlot, config: VenueConfig = getVenueConfig()): QuoteLine[] => {
+    const pricing = findHall(slot.hallId, config)?.details?.pricing;
+    if (!pricing) return [];
+    const price = priceSlot(pricing, slot.timeSlot, slot.date, { muhurat: isMuhurat(slot.date) });
+    return [
+        line(`${slot.hallName} hall rent – ${slot.timeSlot}`, 1, price.basePrice),
+        ...(price.weekendSurcharge > 0 ? [line(`Weekend surcharge (${pricing.weekendSurchargePercent}%)`, 1, price.weekendSurcharge)] : []),
+        ...(price.muhuratSurcharge > 0 ? [line(`Muhurat surcharge (${pricing.muhuratSurchargePercent}%)`, 1, price.muhuratSurcharge)] : []),
+    ];
+};
+
+// The quote's lines: hall rent first, then the picked price list entries. Per-guest entries are charged for the
+// guest count (none until it is entered); entries no longer in the price list are left out.
+export const quoteLines = (input: NewQuote, priceList: PriceList = getPriceList(), config: VenueConfig = getVenueConfig()): QuoteLine[] => {
+    const rent = input.rent !== undefined
+        ? [line(`${input.slot.hallName} hall rent – ${input.slot.timeSlot}`, 1, input.rent)]
+        : hallRentLines(input.slot, config);
+    const items = input.itemIds.flatMap(id => {
+        const item = priceList.items.find(entry => entry.id === id);
+        if (!item) return [];
+        return [line(item.name, item.unit === 'perGuest' ? input.guestCount || 0 : 1, item.price, item.id)];
+    });
+    return [...rent, ...items];
+};
+
+// Discount off the subtotal, then each tax on what is left; every amount is rounded to whole rupees
+export const calculateTotals = (lines: QuoteLine[], discount: QuoteDiscount | undefined, taxes: TaxRate[]): QuoteTotals => {
+    const subtotal = lines.reduce((sum, entry) => sum + entry.amount, 0);
+    const discountAmount = !discount ? 0 : Math.round(discount.kind === 'percent' ? subtotal * discount.value / 100 : discount.value);
+    const taxable = subtotal - discountAmount;
+    const taxLines = taxes.map(tax => ({ ...tax, amount: Math.round(taxable * tax.percent / 100) }));
+    return {
+        subtotal,
+        discount: discountAmount,
+        taxes: taxLines,
+        total: taxable + taxLines.reduce((sum, tax) => sum + tax.amount, 0)
+    };
+};
+
+const saveQuotes = async (list: Quotation[]) => {
+    quotes = list;
+    try {
+        await AsyncStorage.setItem(QUOTES_STORAGE_KEY, JSON.stringify(list));
+    } catch (e) {
+        console.warn('Failed to save quotes:', e);
+    }
+    changeListeners.forEach(listener => listener(list));
+};
+
+// All quotes on the device, newest first; quotes older than a year are dropped
+export const loadQuotes = async (now: number = Date.now()): Promise<Quotation[]> => {
+    if (quotes === null) {
+        try {
+            const raw = await AsyncStorage.getItem(QUOTES_STORAGE_KEY);
+            quotes = raw ? JSON.parse(raw) as Quotation[] : [];
+        } catch (e) {
+            console.warn('Failed to load quotes:', e);
+            quotes = [];
+        }
+    }
+    const kept = quotes.filter(quote => now - quote.createdAt < QUOTE_RETENTION_DAYS * DAY_MS);
+    if (kept.length !== quotes.length) {
+        await saveQuotes(kept);
+    }
+    return kept;
+};
+
+// Called whenever a quote is saved, e.g. so the quotes list can refresh
+export const onQuotesChange = (listener: (quotes: Quotation[]) => void) => {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+};
+
+// Forget the in-memory copy (tests, and signing out); the stored quotes stay
+export const clearQuoteCache = () => {
+    quotes = null;
+};
+
+// Quotes whose customer name, phone number or quote number contains the query
+export const searchQuotes = (list: Quotation[], query: string): Quotation[] => {
+    const text = query.trim().toLowerCase();
+    if (!text) return list;
+    const digits = text.replace(/\D/g, '');
+    return list.filter(quote =>
+        quote.customerName.toLowerCase().includes(text) ||
+        quote.id.toLowerCase().includes(text) ||
+        (digits.length >= 3 && (quote.phone || '').replace(/\D/g, '').includes(digits))
+    );
+};
+
+// Number and save a quote from `createdBy` (a username)
+export const createQuote = async (
+    input: NewQuote,
+    createdBy: string,
+    now: number = Date.now(),
+    priceList: PriceList = getPriceList()
+): Promise<Quotation> => {
+    const customerName = input.customerName.trim();
+    if (!customerName) {
+        throw new Error("Enter the customer's name.");
+    }
+    const phone = input.phone?.trim() || undefined;
+    if (phone && !/^\d{10,13}$/.test(phone.replace(/[\s\-()+]/g, ''))) {
+        throw new Error('Enter a phone number of 10 to 13 digits.');
+    }
+    if (input.guestCount !== undefined && (!Number.isInteger(input.guestCount) || input.guestCount <= 0)) {
+        throw new Error('The guest count must be a whole number above zero.');
+    }
+    if (input.slot.date < todayKey(now)) {
+        throw new Error('Quotes can only be made for today or later.');
+    }
+    if (input.rent !== undefined && !(Number.isFinite(input.rent) && input.rent >= 0)) {
+        throw new Error('Enter the hall rent in rupees.');
+    }
+    if (input.itemIds.some(id => !priceList.items.some(item => item.id === id))) {
+        throw new Error('A picked item is no longer in the price list; pick it again.');
+    }
+    if (input.guestCount === undefined && input.itemIds.some(id => priceList.items.find(item => item.id === id)?.unit === 'perGuest')) {
+        throw new Error('Enter the guest count for the per-guest items.');
+    }
+
+    const lines = quoteLines(input, priceList);
+    if (lines.length === 0) {
+        throw new Error('Enter the hall rent or pick at least one item.');
+    }
+    const { discount } = input;
+    if (discount?.kind === 'percent' && !(discount.value >= 0 && discount.value <= 100)) {
+        throw new Error('A discount percentage must be between 0 and 100.');
+    }
+    const totals = calculateTotals(lines, discount, input.applyTaxes ? priceList.taxes : []);
+    if (discount?.kind === 'amount' && !(discount.value >= 0 && discount.value <= totals.subtotal)) {
+        throw new Error("The discount can't be more than the subtotal.");
+    }
+
+    const fields: Omit<Quotation, 'id'> = {
+        customerName,
+        phone,
+        eventType: input.eventType?.trim() || undefined,
+        guestCount: input.guestCount,
+        slot: input.slot,
+        lines,
+        discount: discount && discount.value > 0 ? discount : undefined,
+        totals,
+        terms: priceList.terms || [],
+        notes: input.notes?.trim() || undefined,
+        createdBy,
+        createdAt: now,
+        validUntil: Math.min(now + QUOTE_VALIDITY_DAYS * DAY_MS, endOfDay(input.slot.date))
+    };
+
+    // Numbered after the user's saved quotes for the day, so their numbers run in order and never repeat
+    const save = savingQuote.then(async () => {
+        const list = await loadQuotes(now);
+        const quote: Quotation = { id: nextRecordNumber('Q', now, createdBy, list.map(saved => saved.id)), ...fields };
+        await saveQuotes([quote, ...list]);
+        return quote;
+    });
+    savingQuote = save.catch(() => undefined);
+    return save;
+};
@@ -0,0 +1,34 @@
+// Day and slot keys, and the short ids of enquiries, holds and quotes, shared by the services that keep them
+import { formatDate } from './dates';
+
+// 'YYYY-MM-DD' of an epoch-milliseconds time, in local time
+export const todayKey = (now: number) => formatDate(new Date(now));
+
+// End of a 'YYYY-MM-DD' day in local time
+export const endOfDay = (dateKey: string) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day + 1).getTime() - 1;
+};
+
+// Identifies one hall slot on one day
+export const slotKey = (slot: { hallId: string; date: string; timeSlot: string }) => `${slot.hallId}|${slot.date}|${slot.timeSlot}`;
+
+// "250614" for 14 Jun 2025
+const dayStamp = (now: number) => todayKey(now).slice(2).replace(/-/g, '');
+
+// "E250614-K3F9": a letter for the kind of record, the day it was made and a random suffix,
+// short enough to read out on the phone
+export const newRecordId = (prefix: string, now: number) => {
+    const suffix = Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, '0');
+    return `${prefix}${dayStamp(now)}-${suffix}`;
+};
+
+// "Q250614-PRIYA-003": the day's records by user `by` numbered in order, one past the highest of `existingIds` they
+// made that day. The user part keeps staff on different devices from issuing the same number.
+export const nextRecordNumber = (prefix: string, now: number, by: string, existingIds: string[]) => {
+    const dayPrefix = `${prefix}${dayStamp(now)}-${by.toUpperCase().replace(/[^0-9A-Z]/g, '') || 'X'}-`;
+    const highest = existingIds
+        .filter(id => id.startsWith(dayPrefix) && /^\d+$/.test(id.slice(dayPrefix.length)))
+        .reduce((max, id) => Math.max(max, Number(id.slice(dayPrefix.length))), 0);
+    return `${dayPrefix}${String(highest + 1).padStart(3, '0')}`;
+};
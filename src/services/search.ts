@@ -0,0 +1,118 @@
+import { DateSearchCriteria, DateSearchMatch, DateSearchResult, HallData } from '../types';
+import { fetchMonthData, getSheetDetails } from './api';
+import { formatDate } from './dates';
+import { getDateAnnotationCoverage, isMuhurat } from './dateAnnotations';
+import { applyEnquiries, loadEnquiries } from './enquiries';
+import { applyHolds, loadHolds } from './holds';
+
+// Guard against accidentally scanning years of sheets in one tap
+const MAX_SEARCH_MONTHS = 12;
+
+// First day of every month touched by [startDate, endDate]
+const monthsInRange = (startDate: Date, endDate: Date): Date[] => {
+    const months: Date[] = [];
+    const cursor = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
+    const last = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    while (cursor <= last) {
+        months.push(new Date(cursor));
+        cursor.setMonth(cursor.getMonth() + 1);
+    }
+    return months;
+};
+
+// Available slots on one day that satisfy the hall/location/slot filters.
+// Unknown slots never match; months with unreadable halls are reported in incompleteMonths.
+// Slots with a hold or an open enquiry are marked before this, so they don't count as free either.
+const matchDay = (halls: HallData[], criteria: DateSearchCriteria): HallData[] => {
+    const candidates = halls.filter(hall =>
+        (!criteria.locationIds?.length || criteria.locationIds.includes(hall.locationId)) &&
+        (!criteria.hallIds?.length || criteria.hallIds.includes(hall.hallId))
+    );
+
+    switch (criteria.timeSlot) {
+        case 'FullDay': {
+            // Keep every slot of halls that are free all day, whatever slots their venue has
+            const isFree = (hall: HallData) => candidates.every(other => other.hallId !== hall.hallId || other.status === 'Available');
+            return candidates.filter(hall => hall.status === 'Available' && isFree(hall));
+        }
+        case 'Either':
+            return candidates.filter(hall => hall.status === 'Available');
+        default:
+            return candidates.filter(hall => hall.timeSlot === criteria.timeSlot && hall.status === 'Available');
+    }
+};
+
+// Find dates in a range where at least one matching hall slot is free.
+// Each month in the range costs one batchGet (or nothing if it's already cached).
+export const findAvailableDates = async (criteria: DateSearchCriteria): Promise<DateSearchResult> => {
+    const startKey = formatDate(criteria.startDate);
+    const endKey = formatDate(criteria.endDate);
+    if (startKey > endKey) {
+        throw new Error('The search start date must be on or before the end date.');
+    }
+
+    const months = monthsInRange(criteria.startDate, criteria.endDate);
+    if (months.length > MAX_SEARCH_MONTHS) {
+        throw new Error(`Please search at most ${MAX_SEARCH_MONTHS} months at a time.`);
+    }
+
+    console.log(`Searching ${startKey} to ${endKey} across ${months.length} month sheet(s)`, {
+        locationIds: criteria.locationIds,
+        hallIds: criteria.hallIds,
+        timeSlot: criteria.timeSlot,
+        weekdays: criteria.weekdays,
+        muhuratOnly: criteria.muhuratOnly
+    });
+
+    // Same marks as the hall cards, so a held or enquired slot isn't offered as free
+    const [enquiries, holds] = await Promise.all([loadEnquiries(), loadHolds()]);
+    const markSlots = (slots: HallData[]) => applyHolds(applyEnquiries(slots, enquiries), holds);
+
+    const matches: DateSearchMatch[] = [];
+    const missingMonths: string[] = [];
+    const incompleteMonths: string[] = [];
+
+    for (const monthStart of months) {
+        const { sheetName } = getSheetDetails(monthStart);
+        let month;
+        try {
+            month = await fetchMonthData(monthStart);
+        } catch (error) {
+            console.error(`Search could not load ${sheetName}:`, error);
+            incompleteMonths.push(sheetName);
+            continue;
+        }
+
+        if (month.sheetMissing) {
+            // A month without a tab has no slots at all; report it instead of returning no dates
+            missingMonths.push(sheetName);
+            continue;
+        }
+        if (!month.complete) {
+            incompleteMonths.push(sheetName);
+        }
+
+        Object.keys(month.days).sort().forEach(dateKey => {
+            if (dateKey < startKey || dateKey > endKey) return;
+
+            const [year, monthNumber, day] = dateKey.split('-').map(Number);
+            const weekday = new Date(year, monthNumber - 1, day).getDay();
+            if (criteria.weekdays?.length && !criteria.weekdays.includes(weekday)) return;
+            if (criteria.muhuratOnly && !isMuhurat(dateKey)) return;
+
+            const freeSlots = matchDay(markSlots(month.days[dateKey]), criteria);
+            if (freeSlots.length > 0) {
+                matches.push({ date: dateKey, freeSlots });
+            }
+        });
+    }
+
+    matches.sort((a, b) => a.date.localeCompare(b.date));
+    console.log(`Search found ${matches.length} matching date(s); missing months: ${missingMonths.join(', ') || 'none'}`);
+
+    // Past the end of the date list no day is a muhurat, which would look like nothing free
+    const coverage = getDateAnnotationCoverage();
+    const pastDateList = criteria.muhuratOnly && (startKey < coverage.from || endKey > coverage.to);
+
+    return { matches, missingMonths, incompleteMonths, ...(pastDateList ? { muhuratListCoverage: coverage } : {}) };
+};
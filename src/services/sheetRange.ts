@@ -0,0 +1,72 @@
+// A1 notation helpers shared by the data sources: "'JUN 2025'!B4:B33" -> tab "JUN 2025", columns B..B, rows 4..33
+
+export interface GridRange {
+    startRow: number;    // 0-based, inclusive
+    endRow: number;      // 0-based, inclusive; Infinity for whole columns like "A:I"
+    startColumn: number; // 0-based, inclusive
+    endColumn: number;   // 0-based, inclusive
+}
+
+// "A" -> 0, "Z" -> 25, "AA" -> 26
+export const columnIndex = (letters: string): number => {
+    return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// 0 -> "A", 26 -> "AA"
+export const columnLetters = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + (n - 1) % 26) + letters;
+    }
+    return letters;
+};
+
+// Split "'JUN 2025'!B4:B33" into the tab name and "B4:B33"; quotes inside a tab name are doubled
+export const splitRange = (range: string): { tab: string; a1: string } => {
+    const separator = range.lastIndexOf('!');
+    if (separator === -1) {
+        throw new Error(`Range '${range}' has no tab name`);
+    }
+    const tab = range.slice(0, separator).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+    return { tab, a1: range.slice(separator + 1) };
+};
+
+// The other way round: ("JUN 2025", "B4:B33") -> "'JUN 2025'!B4:B33"
+export const tabRange = (tab: string, a1: string): string => `'${tab.replace(/'/g, "''")}'!${a1}`;
+
+// "B4:B33", "B4", "A:I" or "A1:F" as 0-based row/column bounds
+export const parseA1 = (a1: string): GridRange => {
+    const match = /^([A-Z]+)(\d+)?(?::([A-Z]+)(\d+)?)?$/i.exec(a1.trim());
+    if (!match) {
+        throw new Error(`'${a1}' is not an A1 range`);
+    }
+    const [, startLetters, startRow, endLetters, endRow] = match;
+    const single = endLetters === undefined;
+    return {
+        startRow: startRow ? Number(startRow) - 1 : 0,
+        endRow: single && startRow ? Number(startRow) - 1 : endRow ? Number(endRow) - 1 : Number.POSITIVE_INFINITY,
+        startColumn: columnIndex(startLetters),
+        endColumn: columnIndex(single ? startLetters : endLetters)
+    };
+};
+
+// Cut a range out of a tab's rows (row-major from A1) the way the Sheets API returns it:
+// trailing empty cells of each row and trailing empty rows are dropped, blank rows in between are []
+export const sliceGrid = (rows: string[][], a1: string): string[][] => {
+    const { startRow, endRow, startColumn, endColumn } = parseA1(a1);
+    const sliced = rows.slice(startRow, Math.min(endRow, rows.length - 1) + 1).map(row => {
+        const cells = (row || []).slice(startColumn, endColumn + 1).map(cell => cell ?? '');
+        while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+        return cells;
+    });
+    while (sliced.length > 0 && sliced[sliced.length - 1].length === 0) sliced.pop();
+    return sliced;
+};
+
+// The rows of a single-column slot range that a month uses: its header rows, then one row per day.
+// Only the range's column and first row matter, e.g. ("B4:B34", 0, 30) -> "B4:B33", ("B2:B34", 2, 31) -> "B2:B34"
+export const monthRange = (range: string, headerOffset: number, daysInMonth: number): string => {
+    const { startRow, startColumn } = parseA1(range);
+    const column = columnLetters(startColumn);
+    return `${column}${startRow + 1}:${column}${startRow + headerOffset + daysInMonth}`;
+};
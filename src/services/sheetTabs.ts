@@ -0,0 +1,82 @@
+// Month tabs are named by hand, so "JUN 2025" may just as well be "Jun 2025 ", "June-25" or "SEPT 2025".
+// The spreadsheet's tab list is read once and cached, and each month is looked up in it by meaning, not spelling.
+import { getAvailabilitySource } from './availabilitySource';
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Re-read a spreadsheet's tab list this often
+const TAB_LIST_TTL_MS = 10 * 60 * 1000;
+// ...or sooner when a month isn't in it, since next month's tab may just have been added
+const MISSING_TAB_RECHECK_MS = 60 * 1000;
+
+// "Jun 2025", "JUNE-2025", "Sept 25", "May '25", " may_2025 " -> { year, monthIndex }; null for anything else
+export const parseMonthTitle = (title: string): { year: number; monthIndex: number } | null => {
+    const match = /^([a-z]+)\.?[\s\-_/,']*(\d{4}|\d{2})$/i.exec(title.trim());
+    if (!match) return null;
+    const word = match[1].toLowerCase();
+    const monthIndex = word.length >= 3 ? MONTH_NAMES.findIndex(name => name.startsWith(word)) : -1;
+    if (monthIndex === -1) return null;
+    const year = Number(match[2]);
+    return { year: year < 100 ? 2000 + year : year, monthIndex };
+};
+
+// The tab among `titles` holding the given month. The canonical "JUN 2025" spelling wins if several match.
+export const findMonthTab = (titles: string[], year: number, monthIndex: number, canonical: string): string | null => {
+    const matches = titles.filter(title => {
+        const parsed = parseMonthTitle(title);
+        return parsed !== null && parsed.year === year && parsed.monthIndex === monthIndex;
+    });
+    if (matches.length > 1) {
+        console.warn(`Several tabs could be ${canonical}: ${matches.map(title => `'${title}'`).join(', ')}`);
+    }
+    return matches.find(title => title === canonical) || matches[0] || null;
+};
+
+const tabLists = new Map<string, { titles: string[]; listedAt: number }>();
+
+export const clearTabCache = () => {
+    tabLists.clear();
+};
+
+const listTabs = async (sheetId: string, refresh: boolean): Promise<string[] | null> => {
+    const cached = tabLists.get(sheetId);
+    if (cached && !refresh && Date.now() - cached.listedAt < TAB_LIST_TTL_MS) {
+        return cached.titles;
+    }
+    const titles = await getAvailabilitySource().listTabs(sheetId);
+    if (titles) {
+        tabLists.set(sheetId, { titles, listedAt: Date.now() });
+    }
+    return titles;
+};
+
+// The title of the tab holding a month in `sheetId` (e.g. "Jun 2025 " for "JUN 2025"), or null when the month
+// hasn't been created in the sheet yet. Falls back to the canonical name when the tabs can't be listed
+// (an offline device, or a source that doesn't list tabs), so reading the month reports the real problem.
+export const resolveMonthTab = async (sheetId: string, year: number, monthIndex: number, canonical: string, options?: { refresh?: boolean }): Promise<string | null> => {
+    let titles: string[] | null;
+    try {
+        titles = await listTabs(sheetId, Boolean(options?.refresh));
+    } catch (error) {
+        console.warn(`Could not list the tabs of spreadsheet ${sheetId}, trying '${canonical}':`, error);
+        return canonical;
+    }
+    if (!titles) {
+        return canonical;
+    }
+
+    const tab = findMonthTab(titles, year, monthIndex, canonical);
+    const listedAt = tabLists.get(sheetId)?.listedAt ?? 0;
+    if (!tab && !options?.refresh && Date.now() - listedAt >= MISSING_TAB_RECHECK_MS) {
+        return resolveMonthTab(sheetId, year, monthIndex, canonical, { refresh: true });
+    }
+    if (tab && tab !== canonical) {
+        console.log(`Reading ${canonical} from tab '${tab}'`);
+    }
+    return tab;
+};
+
+// Forget a spreadsheet's tab list, e.g. when a tab it listed turned out not to exist
+export const forgetTabs = (sheetId: string) => {
+    tabLists.delete(sheetId);
+};
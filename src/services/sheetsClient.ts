@@ -0,0 +1,94 @@
+// Low-level access to the Google Sheets REST API shared by the availability and config loaders
+
+// When set, the app reads availability, venue config and accounts through the proxy server (server/),
+// which holds the API key, instead of calling the Sheets API itself
+export const PROXY_URL = (process.env.EXPO_PUBLIC_PROXY_URL || '').replace(/\/+$/, '');
+
+// Only the proxy and the scripts have the key (GOOGLE_SHEETS_API_KEY). It is deliberately not read from an
+// EXPO_PUBLIC_ variable: those are compiled into every build, where anyone can pull the key out.
+export const API_KEY = process.env.GOOGLE_SHEETS_API_KEY || '';
+if (!API_KEY && !PROXY_URL) {
+    console.error('WARNING: Neither a proxy nor a Google Sheets API key is set. Set EXPO_PUBLIC_PROXY_URL in your .env file.');
+}
+
+export const SHEETS_API_BASE_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+const MAX_FETCH_RETRIES = 3;
+
+// Fetch with timeout function that works across different environments
+export const fetchWithTimeout = async (url: string, timeoutMs: number = 15000, init: RequestInit = {}) => {
+    // Create an abort controller with timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        clearTimeout(timeoutId);
+        return response;
+    } catch (error) {
+        clearTimeout(timeoutId);
+        throw error;
+    }
+};
+
+// The URL with its API key blanked, for logs; the proxy exists to keep the key out of sight
+const redactKey = (url: string) => url.replace(/([?&]key=)[^&]*/, '$1REDACTED');
+
+// Custom fetch function with retry logic (exponential backoff with jitter)
+export const fetchWithRetry = async (url: string, label: string, retryAttempt: number = 0): Promise<Response> => {
+    try {
+        console.log(`[${label}] attempt ${retryAttempt + 1}: Fetching ${redactKey(url)}`);
+        return await fetchWithTimeout(url, 15000); // 15 second timeout
+    } catch (error) {
+        console.error(`[${label}] attempt ${retryAttempt + 1} failed:`, error);
+
+        if (retryAttempt < MAX_FETCH_RETRIES) {
+            const delay = Math.min(2000 * Math.pow(2, retryAttempt), 10000) + Math.random() * 1000;
+            console.log(`[${label}] retrying in ${Math.round(delay)}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            return fetchWithRetry(url, label, retryAttempt + 1);
+        }
+
+        throw error;
+    }
+};
+
+// URL for a single A1 range, e.g. "'JUN 2025'!B4:B33"
+export const buildValuesUrl = (sheetId: string, range: string) => {
+    return `${SHEETS_API_BASE_URL}/${sheetId}/values/${encodeURIComponent(range)}?key=${API_KEY}&alt=json`;
+};
+
+// URL for several A1 ranges fetched in one values:batchGet request
+export const buildBatchGetUrl = (sheetId: string, ranges: string[]) => {
+    const rangeParams = ranges.map(range => `ranges=${encodeURIComponent(range)}`).join('&');
+    return `${SHEETS_API_BASE_URL}/${sheetId}/values:batchGet?${rangeParams}&majorDimension=ROWS&key=${API_KEY}`;
+};
+
+// URL for the spreadsheet's tab titles only, without any cell data
+export const buildTabListUrl = (sheetId: string) => {
+    return `${SHEETS_API_BASE_URL}/${sheetId}?fields=${encodeURIComponent('sheets.properties.title')}&key=${API_KEY}`;
+};
+
+// Writes need an OAuth access token; the API key only allows reading
+export const authorizedRequest = (accessToken: string, method: 'GET' | 'PUT' | 'POST' = 'GET', body?: unknown): RequestInit => ({
+    method,
+    headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+});
+
+// URL for reading a range with an access token instead of the API key
+export const buildAuthorizedValuesUrl = (sheetId: string, range: string) => {
+    return `${SHEETS_API_BASE_URL}/${sheetId}/values/${encodeURIComponent(range)}`;
+};
+
+// URL for values.update; RAW stores the text exactly as given (no formula or date parsing)
+export const buildValuesUpdateUrl = (sheetId: string, range: string) => {
+    return `${SHEETS_API_BASE_URL}/${sheetId}/values/${encodeURIComponent(range)}?valueInputOption=RAW`;
+};
+
+// URL for values.append, adding rows after the last row of the table in `range`
+export const buildValuesAppendUrl = (sheetId: string, range: string) => {
+    return `${SHEETS_API_BASE_URL}/${sheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`;
+};
@@ -0,0 +1,40 @@
+// The live source: values:batchGet against the Google Sheets API with the API key
+import { GoogleSheetsBatchResponse, GoogleSpreadsheetMetadata } from '../types';
+import { AvailabilitySource, RangeRead } from './availabilitySource';
+import { buildBatchGetUrl, buildTabListUrl, fetchWithRetry } from './sheetsClient';
+import { splitRange } from './sheetRange';
+
+export const createSheetsSource = (): AvailabilitySource => ({
+    name: 'sheets',
+    readRanges: async (sheetId: string, ranges: string[]): Promise<RangeRead> => {
+        const tab = ranges.length > 0 ? splitRange(ranges[0]).tab : '';
+        const response = await fetchWithRetry(buildBatchGetUrl(sheetId, ranges), `batchGet ${tab}`);
+
+        if (!response.ok) {
+            let responseText = '';
+            try { responseText = await response.text(); } catch {}
+            console.error(`batchGet for ${tab} failed with status ${response.status}: ${responseText}`);
+
+            // The Sheets API rejects ranges on a tab that doesn't exist with a 400 "Unable to parse range"
+            if (response.status === 400 && /unable to parse range/i.test(responseText)) {
+                console.warn(`Sheet tab '${tab}' does not exist in spreadsheet ${sheetId}`);
+                return { tabMissing: true, valueRanges: [] };
+            }
+            throw new Error(`Google Sheets returned status ${response.status}`);
+        }
+
+        const data = await response.json() as GoogleSheetsBatchResponse;
+        const valueRanges = data.valueRanges || [];
+        console.log(`batchGet for ${tab}: received ${valueRanges.length} of ${ranges.length} ranges`);
+        // An empty range comes back without `values`
+        return { tabMissing: false, valueRanges: ranges.map((_, index) => valueRanges[index] ? valueRanges[index].values || [] : undefined) };
+    },
+    listTabs: async (sheetId: string): Promise<string[]> => {
+        const response = await fetchWithRetry(buildTabListUrl(sheetId), 'tab list');
+        if (!response.ok) {
+            throw new Error(`Google Sheets returned status ${response.status} listing the tabs`);
+        }
+        const data = await response.json() as GoogleSpreadsheetMetadata;
+        return (data.sheets || []).map(sheet => sheet.properties.title);
+    }
+});
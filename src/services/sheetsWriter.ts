@@ -0,0 +1,154 @@
+// Changing a slot's status from the app: writes the cell with the signed-in Google account and
+// appends who changed what to an audit tab in the same spreadsheet.
+import { GoogleSheetsResponse, HallData, SlotStatus, SlotWriteResult } from '../types';
+import { authorizedRequest, buildAuthorizedValuesUrl, buildValuesAppendUrl, buildValuesUpdateUrl, fetchWithTimeout } from './sheetsClient';
+import { formatCellValue, parseCellValue } from './cellParser';
+import { getGoogleAuth } from './googleAuth';
+import { getVenueConfig } from './venueConfig';
+import { applySlotUpdate } from './api';
+import { columnLetters } from './sheetRange';
+
+const AUDIT_TAB = process.env.EXPO_PUBLIC_AUDIT_TAB || 'AUDIT';
+
+// Turn a failed Sheets response into a message staff can act on
+const describeWriteFailure = async (response: Response, action: string) => {
+    let responseText = '';
+    try { responseText = await response.text(); } catch {}
+    console.error(`${action} failed with status ${response.status}: ${responseText}`);
+
+    if (response.status === 401) {
+        return new Error('Your Google sign-in has expired. Please sign in again.');
+    }
+    if (response.status === 403) {
+        return new Error('Your Google account does not have edit access to this sheet.');
+    }
+    return new Error(`${action} failed (status ${response.status})`);
+};
+
+// The slot as it reads after `value` was written to its cell
+const slotWithValue = (slot: HallData, value: string): HallData => {
+    const location = getVenueConfig().locations.find(config => config.id === slot.locationId);
+    const { status, booking } = parseCellValue(value, location?.statusVocabulary);
+    return {
+        ...slot,
+        status,
+        booking,
+        error: undefined,
+        cell: slot.cell ? { ...slot.cell, value } : undefined
+    };
+};
+
+// What the slot will look like once saved, for updating the card before the write finishes
+export const previewSlotChange = (slot: HallData, status: SlotStatus, note?: string): HallData => {
+    return slotWithValue(slot, formatCellValue(status, note));
+};
+
+// Write a new status (and booking note) for a slot as `changedBy` (the app user's username).
+// The cell is re-read first and nothing is written if it no longer holds the value the app showed,
+// unless `force` is set. There is still a short window between that check and the write.
+export const writeSlotStatus = async (
+    slot: HallData,
+    status: SlotStatus,
+    changedBy: string,
+    note?: string,
+    options?: { force?: boolean }
+): Promise<SlotWriteResult> => {
+    const auth = await getGoogleAuth();
+    if (!auth) {
+        throw new Error('Sign in with Google to change slots.');
+    }
+    if (!slot.cell) {
+        throw new Error('This slot has no cell in the configured sheet range, so it cannot be changed from the app.');
+    }
+
+    const { sheetId, range } = slot.cell;
+    const newValue = formatCellValue(status, note);
+
+    const readResponse = await fetchWithTimeout(buildAuthorizedValuesUrl(sheetId, range), 15000, authorizedRequest(auth.accessToken));
+    if (!readResponse.ok) {
+        throw await describeWriteFailure(readResponse, `Reading ${range}`);
+    }
+    const current = await readResponse.json() as Partial<GoogleSheetsResponse>;
+    const currentValue = current.values?.[0]?.[0] ?? '';
+
+    if (currentValue !== slot.cell.value && !options?.force) {
+        console.warn(`Not writing ${range}: expected '${slot.cell.value}' but the sheet now has '${currentValue}'`);
+        return { status: 'conflict', currentValue };
+    }
+
+    const writeResponse = await fetchWithTimeout(
+        buildValuesUpdateUrl(sheetId, range),
+        15000,
+        authorizedRequest(auth.accessToken, 'PUT', { range, majorDimension: 'ROWS', values: [[newValue]] })
+    );
+    if (!writeResponse.ok) {
+        throw await describeWriteFailure(writeResponse, `Writing ${range}`);
+    }
+
+    // The change is already saved; a failed audit entry is reported but doesn't undo it
+    let auditLogged = false;
+    try {
+        const auditRow = [
+            new Date().toISOString(),
+            auth.email,
+            slot.locationId,
+            slot.hallId,
+            slot.date,
+            slot.timeSlot,
+            currentValue,
+            newValue,
+            options?.force ? 'overwrote a newer value' : '',
+            // The Google account can be shared or left signed in, so the app user is recorded as well
+            changedBy
+        ];
+        const auditResponse = await fetchWithTimeout(
+            buildValuesAppendUrl(sheetId, `'${AUDIT_TAB}'!A:J`),
+            15000,
+            authorizedRequest(auth.accessToken, 'POST', { majorDimension: 'ROWS', values: [auditRow] })
+        );
+        if (!auditResponse.ok) {
+            throw await describeWriteFailure(auditResponse, `Appending to the '${AUDIT_TAB}' tab`);
+        }
+        auditLogged = true;
+    } catch (error) {
+        console.error('Slot was changed but the audit entry could not be written:', error);
+    }
+
+    const saved = slotWithValue(slot, newValue);
+    applySlotUpdate(saved);
+    return { status: 'saved', slot: saved, auditLogged };
+};
+
+// Write `row` to a tab kept by the app (enquiries, holds) whose column A is each row's id: the row with the same id
+// is updated in place, otherwise `row` is appended, after a `columns` header if the tab is empty.
+// Resolves false without writing when nobody is signed in with Google.
+export const upsertTabRow = async (sheetId: string, tab: string, columns: string[], row: string[]): Promise<boolean> => {
+    const auth = await getGoogleAuth();
+    if (!auth) {
+        return false;
+    }
+    const lastColumn = columnLetters(columns.length - 1);
+
+    const idsResponse = await fetchWithTimeout(buildAuthorizedValuesUrl(sheetId, `'${tab}'!A:A`), 15000, authorizedRequest(auth.accessToken));
+    if (!idsResponse.ok) {
+        throw await describeWriteFailure(idsResponse, `Reading the '${tab}' tab`);
+    }
+    const ids = ((await idsResponse.json()) as Partial<GoogleSheetsResponse>).values || [];
+    const rowIndex = ids.findIndex(existing => existing[0] === row[0]);
+
+    const response = rowIndex >= 0
+        ? await fetchWithTimeout(
+            buildValuesUpdateUrl(sheetId, `'${tab}'!A${rowIndex + 1}:${lastColumn}${rowIndex + 1}`),
+            15000,
+            authorizedRequest(auth.accessToken, 'PUT', { majorDimension: 'ROWS', values: [row] })
+        )
+        : await fetchWithTimeout(
+            buildValuesAppendUrl(sheetId, `'${tab}'!A:${lastColumn}`),
+            15000,
+            authorizedRequest(auth.accessToken, 'POST', { majorDimension: 'ROWS', values: ids.length === 0 ? [columns, row] : [row] })
+        );
+    if (!response.ok) {
+        throw await describeWriteFailure(response, `Writing ${row[0]} to the '${tab}' tab`);
+    }
+    return true;
+};
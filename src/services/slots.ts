@@ -0,0 +1,31 @@
+// The slots of a day. Morning and Evening are the two columns every hall has; a location can add more
+// (e.g. Lunch, Night) by listing them in `slots` and giving each hall a range for them in `extraSlots`.
+import { Hall, LocationConfig, TimeSlot } from '../types';
+
+export const DEFAULT_SLOTS: TimeSlot[] = ['Morning', 'Evening'];
+
+export interface HallSlotRange {
+    name: TimeSlot;
+    range: string;
+    headerOffset: number;
+}
+
+// The location's slots in the order of the day
+export const locationSlots = (location: LocationConfig): TimeSlot[] => location.slots && location.slots.length > 0
+    ? location.slots
+    : DEFAULT_SLOTS;
+
+// Each slot the hall has with its range, in the location's slot order. Slots a hall has no range for are left out.
+export const hallSlotRanges = (location: LocationConfig, hall: Hall): HallSlotRange[] => {
+    const ranges: HallSlotRange[] = [
+        { name: 'Morning', range: hall.morningRange, headerOffset: hall.morningHeaderOffset || 0 },
+        { name: 'Evening', range: hall.eveningRange, headerOffset: hall.eveningHeaderOffset || 0 },
+        ...(hall.extraSlots || []).map(slot => ({ name: slot.name, range: slot.range, headerOffset: slot.headerOffset || 0 }))
+    ];
+    const order = locationSlots(location);
+    const rank = (name: TimeSlot) => {
+        const index = order.indexOf(name);
+        return index === -1 ? order.length : index;
+    };
+    return ranges.sort((a, b) => rank(a.name) - rank(b.name));
+};
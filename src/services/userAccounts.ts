@@ -0,0 +1,64 @@
+// The USERS tab: parsing and reading staff accounts. Kept free of React Native imports so the
+// proxy server can check PINs against the same rows the app uses.
+import { UserAccount, UserRole } from '../types';
+import { getAvailabilitySource } from './availabilitySource';
+import { getVenueConfig } from './venueConfig';
+
+export const USERS_TAB = process.env.EXPO_PUBLIC_USERS_TAB || 'USERS';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'sales', 'manager', 'admin'];
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const parseRole = (value: string): UserRole | null => {
+    const role = value.trim().toLowerCase() as UserRole;
+    return USER_ROLES.includes(role) ? role : null;
+};
+
+// Parse the USERS tab. Header row (case-insensitive, any column order):
+// Username | Name | Role | PIN Hash | Active
+// Active defaults to yes; "no"/"false"/"0" disables the account without deleting the row.
+export const parseUserRows = (rows: string[][]): UserAccount[] => {
+    if (rows.length < 2) {
+        return [];
+    }
+
+    const header = rows[0].map(cell => (cell || '').trim().toLowerCase());
+    const cell = (row: string[], name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+
+    const users: UserAccount[] = [];
+    rows.slice(1).forEach((row, index) => {
+        const username = normalizeUsername(cell(row, 'username'));
+        if (!username) return; // Blank spacer row
+
+        const role = parseRole(cell(row, 'role'));
+        if (!role) {
+            console.warn(`${USERS_TAB} row ${index + 2}: unknown role '${cell(row, 'role')}' for ${username}, skipping`);
+            return;
+        }
+        users.push({
+            username,
+            name: cell(row, 'name') || username,
+            role,
+            pinHash: cell(row, 'pin hash'),
+            active: !/^(no|false|n|0)$/i.test(cell(row, 'active'))
+        });
+    });
+    return users;
+};
+
+// Read the USERS tab from the config spreadsheet; throws if it can't be reached
+export const fetchSheetUsers = async (): Promise<UserAccount[]> => {
+    const sheetId = process.env.EXPO_PUBLIC_USERS_SHEET_ID
+        || process.env.EXPO_PUBLIC_VENUE_CONFIG_SHEET_ID
+        || getVenueConfig().locations[0].sheetId;
+
+    const read = await getAvailabilitySource().readRanges(sheetId, [`'${USERS_TAB}'!A1:F500`]);
+    if (read.tabMissing) {
+        throw new Error(`No '${USERS_TAB}' tab in spreadsheet ${sheetId}`);
+    }
+    return parseUserRows(read.valueRanges[0] || []);
+};
@@ -0,0 +1,477 @@
+// Venue/hall layout: which halls exist, in what order, and where their columns live in the sheet.
+// Loaded from a JSON document or a config tab in the spreadsheet, validated, and cached in AsyncStorage
+// so the layout can change without shipping a new build.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Hall, HallDetails, HallPricing, LocationConfig, SlotRange, SlotStatus, StatusRule, TimeSlot, VenueConfig } from '../types';
+import { DEFAULT_SLOTS } from './slots';
+import { PROXY_URL, fetchWithRetry } from './sheetsClient';
+import { getAvailabilitySource } from './availabilitySource';
+import bundledVenueConfig from '../config/venues.json';
+
+const VENUE_CONFIG_CACHE_KEY = '@gmk_venue_config';
+
+// Where to read the remote config from. A JSON URL (by default the proxy's, when one is set) wins over the config tab.
+const VENUE_CONFIG_URL = process.env.EXPO_PUBLIC_VENUE_CONFIG_URL || (PROXY_URL ? `${PROXY_URL}/venue-config` : '');
+const VENUE_CONFIG_TAB = process.env.EXPO_PUBLIC_VENUE_CONFIG_TAB || 'CONFIG';
+// Spreadsheet with the config tabs; by default the one the bundled config points at
+export const CONFIG_SHEET_ID = process.env.EXPO_PUBLIC_VENUE_CONFIG_SHEET_ID || bundledVenueConfig.locations[0].sheetId;
+// Optional tab with per-location status tokens; see parseStatusVocabularyRows
+const STATUS_VOCABULARY_TAB = process.env.EXPO_PUBLIC_STATUS_VOCABULARY_TAB || 'STATUSES';
+
+// Don't hammer the remote source when it is unreachable; each month fetch asks for the config
+const REMOTE_RETRY_INTERVAL_MS = 5 * 60 * 1000;
+
+const A1_COLUMN_RANGE = /^([A-Z]+)(\d+):([A-Z]+)(\d+)$/;
+const COLUMN_LETTERS = /^[A-Z]+$/;
+// Slot ranges must have a row for every day of the longest month
+const MAX_DAYS_IN_MONTH = 31;
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const SLOT_STATUSES: SlotStatus[] = ['Available', 'Booked', 'Enquiry', 'Maintenance'];
+
+// A slot range has to be one column with a row for each day, e.g. B4:B34; returns what is wrong with it
+const checkSlotRange = (range: unknown, headerOffset: unknown): string | null => {
+    const match = typeof range === 'string' ? A1_COLUMN_RANGE.exec(range) : null;
+    if (!match || match[1] !== match[3]) {
+        return `must be a single-column A1 range like B4:B34 (got ${JSON.stringify(range)})`;
+    }
+    const offset = Number(headerOffset) || 0;
+    const dayRows = Number(match[4]) - Number(match[2]) + 1 - offset;
+    if (dayRows < MAX_DAYS_IN_MONTH) {
+        return `${range} has rows for ${dayRows} days, so the 31st would be missed; extend it to ${match[1]}${Number(match[2]) + offset + MAX_DAYS_IN_MONTH - 1}`;
+    }
+    return null;
+};
+
+const isHeaderOffset = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// What is wrong with a hall's capacity, amenities and pricing, given its location's slots
+const checkHallDetails = (details: Partial<HallDetails>, slots: TimeSlot[]): string[] => {
+    if (typeof details !== 'object' || details === null || Array.isArray(details)) {
+        return ['"details" must be an object'];
+    }
+    const problems: string[] = [];
+    (['seatingCapacity', 'floatingCapacity', 'parking'] as const).forEach(key => {
+        if (details[key] !== undefined && !isCount(details[key])) {
+            problems.push(`"details.${key}" must be a whole number (got ${JSON.stringify(details[key])})`);
+        }
+    });
+    if (details.setting !== undefined && details.setting !== 'indoor' && details.setting !== 'outdoor') {
+        problems.push(`"details.setting" must be indoor or outdoor (got ${JSON.stringify(details.setting)})`);
+    }
+    if (details.airConditioned !== undefined && typeof details.airConditioned !== 'boolean') {
+        problems.push(`"details.airConditioned" must be true or false (got ${JSON.stringify(details.airConditioned)})`);
+    }
+
+    const pricing = details.pricing as Partial<HallPricing> | undefined;
+    if (pricing === undefined) {
+        return problems;
+    }
+    if (typeof pricing !== 'object' || pricing === null) {
+        return [...problems, '"details.pricing" must be an object'];
+    }
+    if (!isAmount(pricing.basePrice)) {
+        problems.push(`"details.pricing.basePrice" must be an amount in rupees (got ${JSON.stringify(pricing.basePrice)})`);
+    }
+    Object.entries(pricing.slotPrices || {}).forEach(([slot, price]) => {
+        if (!slots.includes(slot)) {
+            problems.push(`"details.pricing.slotPrices" has a price for ${slot}, which isn't one of the location's slots`);
+        } else if (!isAmount(price)) {
+            problems.push(`"details.pricing.slotPrices.${slot}" must be an amount in rupees (got ${JSON.stringify(price)})`);
+        }
+    });
+    (['weekendSurchargePercent', 'muhuratSurchargePercent'] as const).forEach(key => {
+        if (pricing[key] !== undefined && !isAmount(pricing[key])) {
+            problems.push(`"details.pricing.${key}" must be a percentage (got ${JSON.stringify(pricing[key])})`);
+        }
+    });
+    return problems;
+};
+
+// "GMK Banquets Tathawade" -> "gmk-banquets-tathawade"
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const validateVenueConfig = (raw: unknown): { config: VenueConfig | null; errors: string[] } => {
+    const errors: string[] = [];
+    const candidate = raw as Partial<VenueConfig> | null;
+
+    if (!candidate || !Array.isArray(candidate.locations) || candidate.locations.length === 0) {
+        return { config: null, errors: ['Config must contain a non-empty "locations" array'] };
+    }
+
+    const locationIds = new Set<string>();
+    const hallIds = new Set<string>(); // Hall ids are unique across venues
+    candidate.locations.forEach((location: Partial<LocationConfig>, locationIndex) => {
+        const where = `locations[${locationIndex}]`;
+        if (!location || typeof location.name !== 'string' || !location.name.trim()) {
+            errors.push(`${where}: missing "name"`);
+            return;
+        }
+        if (typeof location.id !== 'string' || !ID_PATTERN.test(location.id)) {
+            errors.push(`${location.name}: "id" must be lowercase letters, digits and dashes (got ${JSON.stringify(location.id)})`);
+        } else if (locationIds.has(location.id)) {
+            errors.push(`${where}: duplicate location id "${location.id}"`);
+        } else {
+            locationIds.add(location.id);
+        }
+
+        if (typeof location.sheetId !== 'string' || !location.sheetId.trim()) {
+            errors.push(`${location.name}: missing "sheetId"`);
+        }
+        if (location.dateColumn !== undefined && (typeof location.dateColumn !== 'string' || !COLUMN_LETTERS.test(location.dateColumn))) {
+            errors.push(`${location.name}: "dateColumn" must be a column letter like A (got ${JSON.stringify(location.dateColumn)})`);
+        }
+        const slots = location.slots === undefined ? DEFAULT_SLOTS : location.slots;
+        if (location.slots !== undefined) {
+            if (!Array.isArray(location.slots) || location.slots.some(slot => typeof slot !== 'string' || !slot.trim())) {
+                errors.push(`${location.name}: "slots" must be a list of slot names`);
+            } else {
+                DEFAULT_SLOTS.filter(slot => !location.slots!.includes(slot)).forEach(slot => {
+                    errors.push(`${location.name}: "slots" must include ${slot}`);
+                });
+                if (new Set(location.slots).size !== location.slots.length) {
+                    errors.push(`${location.name}: "slots" lists a slot twice`);
+                }
+            }
+        }
+        if (location.statusVocabulary !== undefined) {
+            if (!Array.isArray(location.statusVocabulary)) {
+                errors.push(`${location.name}: "statusVocabulary" must be an array`);
+            } else {
+                location.statusVocabulary.forEach((rule: Partial<StatusRule>, ruleIndex) => {
+                    const ruleWhere = `${location.name} statusVocabulary[${ruleIndex}]`;
+                    if (!rule || typeof rule.match !== 'string') {
+                        errors.push(`${ruleWhere}: missing "match"`);
+                        return;
+                    }
+                    if (!SLOT_STATUSES.includes(rule.status as SlotStatus)) {
+                        errors.push(`${ruleWhere}: "status" must be one of ${SLOT_STATUSES.join(', ')} (got ${JSON.stringify(rule.status)})`);
+                    }
+                    if (rule.regex) {
+                        try {
+                            new RegExp(rule.match, 'i');
+                        } catch {
+                            errors.push(`${ruleWhere}: invalid regex ${JSON.stringify(rule.match)}`);
+                        }
+                    }
+                });
+            }
+        }
+        if (!Array.isArray(location.halls) || location.halls.length === 0) {
+            errors.push(`${location.name}: must have at least one hall`);
+            return;
+        }
+
+        location.halls.forEach((hall: Partial<Hall>, hallIndex) => {
+            const hallWhere = `${location.name} halls[${hallIndex}]`;
+            if (!hall || typeof hall.name !== 'string' || !hall.name.trim()) {
+                errors.push(`${hallWhere}: missing "name"`);
+                return;
+            }
+            if (typeof hall.id !== 'string' || !ID_PATTERN.test(hall.id)) {
+                errors.push(`${location.name} - ${hall.name}: "id" must be lowercase letters, digits and dashes (got ${JSON.stringify(hall.id)})`);
+            } else if (hallIds.has(hall.id)) {
+                errors.push(`${location.name} - ${hall.name}: duplicate hall id "${hall.id}"`);
+            } else {
+                hallIds.add(hall.id);
+            }
+
+            ([['morningRange', 'morningHeaderOffset'], ['eveningRange', 'eveningHeaderOffset']] as const).forEach(([key, offsetKey]) => {
+                const problem = checkSlotRange(hall[key], hall[offsetKey]);
+                if (problem) {
+                    errors.push(`${location.name} - ${hall.name}: "${key}" ${problem}`);
+                }
+            });
+            (['morningHeaderOffset', 'eveningHeaderOffset'] as const).forEach(key => {
+                const value = hall[key];
+                if (!isHeaderOffset(value)) {
+                    errors.push(`${location.name} - ${hall.name}: "${key}" must be a non-negative integer (got ${JSON.stringify(value)})`);
+                }
+            });
+
+            if (hall.details !== undefined) {
+                checkHallDetails(hall.details, Array.isArray(slots) ? slots : DEFAULT_SLOTS).forEach(problem => {
+                    errors.push(`${location.name} - ${hall.name}: ${problem}`);
+                });
+            }
+
+            if (hall.extraSlots !== undefined && !Array.isArray(hall.extraSlots)) {
+                errors.push(`${location.name} - ${hall.name}: "extraSlots" must be an array`);
+                return;
+            }
+            const seen = new Set<string>();
+            (hall.extraSlots || []).forEach((slot: Partial<SlotRange>, slotIndex) => {
+                const slotWhere = `${location.name} - ${hall.name} extraSlots[${slotIndex}]`;
+                if (!slot || typeof slot.name !== 'string' || !Array.isArray(slots) || !slots.includes(slot.name) || DEFAULT_SLOTS.includes(slot.name)) {
+                    errors.push(`${slotWhere}: "name" must be one of the location's slots other than ${DEFAULT_SLOTS.join(' and ')} (got ${JSON.stringify(slot?.name)})`);
+                    return;
+                }
+                if (seen.has(slot.name)) {
+                    errors.push(`${slotWhere}: ${slot.name} is given twice`);
+                }
+                seen.add(slot.name);
+                const problem = checkSlotRange(slot.range, slot.headerOffset);
+                if (problem) {
+                    errors.push(`${slotWhere}: "range" ${problem}`);
+                }
+                if (!isHeaderOffset(slot.headerOffset)) {
+                    errors.push(`${slotWhere}: "headerOffset" must be a non-negative integer (got ${JSON.stringify(slot.headerOffset)})`);
+                }
+            });
+        });
+    });
+
+    return { config: errors.length === 0 ? (candidate as VenueConfig) : null, errors };
+};
+
+// Parse the config tab. Expected header row (case-insensitive, any column order):
+// Location | Hall | Morning Range | Evening Range | Morning Offset | Evening Offset | Sheet ID | Location ID | Hall ID | Date Column
+// Locations and halls keep the order in which they first appear. Without the id columns, ids are derived
+// from the names, which means renaming a hall in the tab also changes its id.
+// Any other "<Slot> Range" column (with an optional "<Slot> Offset") adds a slot, e.g. "Night Range"; slots
+// are ordered as their range columns are. A hall with that cell blank doesn't have the slot.
+// Optional hall detail columns: Seating | Floating | Setting | AC | Parking | Base Price | Weekend Surcharge % |
+// Muhurat Surcharge %, plus "<Slot> Price" for a slot that costs more or less than the base price, e.g. "Evening Price".
+export const parseVenueConfigRows = (rows: string[][], defaultSheetId: string): VenueConfig => {
+    if (rows.length < 2) {
+        throw new Error(`Config tab '${VENUE_CONFIG_TAB}' has no hall rows`);
+    }
+
+    const header = rows[0].map(cell => (cell || '').trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    const required = ['location', 'hall', 'morning range', 'evening range'];
+    const missing = required.filter(name => column(name) === -1);
+    if (missing.length > 0) {
+        throw new Error(`Config tab '${VENUE_CONFIG_TAB}' is missing column(s): ${missing.join(', ')}`);
+    }
+
+    const cell = (row: string[], name: string) => {
+        const index = column(name);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+    const offset = (row: string[], name: string) => {
+        const value = cell(row, name);
+        return value === '' ? 0 : Number(value);
+    };
+
+    // Slots in the order of their range columns, named as written in the header, e.g. "Night"
+    const slotNames = rows[0]
+        .map(cell => (cell || '').trim())
+        .filter(cell => / range$/i.test(cell))
+        .map(cell => cell.replace(/ range$/i, '').trim())
+        .map(name => DEFAULT_SLOTS.find(slot => slot.toLowerCase() === name.toLowerCase()) || name);
+    const extraSlotNames = slotNames.filter(name => !DEFAULT_SLOTS.includes(name));
+    const priceSlotNames = rows[0]
+        .map(cell => (cell || '').trim())
+        .filter(cell => / price$/i.test(cell) && cell.toLowerCase() !== 'base price')
+        .map(cell => cell.replace(/ price$/i, '').trim())
+        .map(name => slotNames.find(slot => slot.toLowerCase() === name.toLowerCase()) || name);
+
+    // Amounts may be typed as "₹1,20,000" or "10%"
+    const amount = (row: string[], ...names: string[]) => {
+        const value = names.map(name => cell(row, name)).find(Boolean);
+        if (!value) return undefined;
+        const number = Number(value.replace(/[₹,%\s]/g, ''));
+        return Number.isFinite(number) ? number : value;
+    };
+    const withoutBlanks = (fields: Record<string, unknown>) =>
+        Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    // Text that isn't a number, yes/no or indoor/outdoor is kept as written so validation names it
+    const hallDetails = (row: string[]): HallDetails | undefined => {
+        const slotPrices = withoutBlanks(Object.fromEntries(priceSlotNames.map(name => [name, amount(row, `${name.toLowerCase()} price`)])));
+        const pricing = withoutBlanks({
+            basePrice: amount(row, 'base price'),
+            slotPrices: Object.keys(slotPrices).length > 0 ? slotPrices : undefined,
+            weekendSurchargePercent: amount(row, 'weekend surcharge %', 'weekend surcharge'),
+            muhuratSurchargePercent: amount(row, 'muhurat surcharge %', 'muhurat surcharge'),
+        });
+        const ac = cell(row, 'ac');
+        const details = withoutBlanks({
+            seatingCapacity: amount(row, 'seating'),
+            floatingCapacity: amount(row, 'floating'),
+            setting: cell(row, 'setting').toLowerCase() || undefined,
+            airConditioned: !ac ? undefined : /^(yes|y|true)$/i.test(ac) ? true : /^(no|n|false)$/i.test(ac) ? false : ac,
+            parking: amount(row, 'parking'),
+            pricing: Object.keys(pricing).length > 0 ? pricing : undefined,
+        });
+        return Object.keys(details).length > 0 ? details as HallDetails : undefined;
+    };
+
+    const locations: LocationConfig[] = [];
+    rows.slice(1).forEach(row => {
+        const locationName = cell(row, 'location');
+        const hallName = cell(row, 'hall');
+        if (!locationName && !hallName) return; // Blank spacer row
+
+        const locationId = cell(row, 'location id') || slugify(locationName);
+        let location = locations.find(entry => entry.id === locationId);
+        if (!location) {
+            location = { id: locationId, name: locationName, sheetId: cell(row, 'sheet id') || defaultSheetId, halls: [] };
+            if (extraSlotNames.length > 0) {
+                location.slots = slotNames;
+            }
+            locations.push(location);
+        }
+        const dateColumn = cell(row, 'date column').toUpperCase();
+        if (dateColumn && !location.dateColumn) {
+            location.dateColumn = dateColumn;
+        }
+        const extraSlots = extraSlotNames
+            .filter(name => cell(row, `${name.toLowerCase()} range`))
+            .map(name => ({
+                name,
+                range: cell(row, `${name.toLowerCase()} range`).toUpperCase(),
+                headerOffset: offset(row, `${name.toLowerCase()} offset`)
+            }));
+        const details = hallDetails(row);
+        location.halls.push({
+            id: cell(row, 'hall id') || `${locationId}-${slugify(hallName)}`,
+            name: hallName,
+            morningRange: cell(row, 'morning range').toUpperCase(),
+            eveningRange: cell(row, 'evening range').toUpperCase(),
+            morningHeaderOffset: offset(row, 'morning offset'),
+            eveningHeaderOffset: offset(row, 'evening offset'),
+            ...(extraSlots.length > 0 ? { extraSlots } : {}),
+            ...(details ? { details } : {}),
+        });
+    });
+
+    return { locations };
+};
+
+// Parse the optional status vocabulary tab. Header row (case-insensitive, any column order):
+// Location ID | Token | Regex | Status
+// A blank or "*" location id applies the row to every location. Regex is "yes"/"true" for patterns.
+export const parseStatusVocabularyRows = (rows: string[][], config: VenueConfig): VenueConfig => {
+    if (rows.length < 2) {
+        return config;
+    }
+
+    const header = rows[0].map(cell => (cell || '').trim().toLowerCase());
+    const cell = (row: string[], name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? '' : (row[index] || '').trim();
+    };
+
+    const rulesByLocation = new Map<string, StatusRule[]>();
+    rows.slice(1).forEach(row => {
+        const status = cell(row, 'status');
+        if (!status) return; // Blank spacer row
+        const locationId = cell(row, 'location id') || '*';
+        const rule: StatusRule = {
+            match: cell(row, 'token'),
+            status: (status.charAt(0).toUpperCase() + status.slice(1).toLowerCase()) as SlotStatus,
+            ...(/^(yes|true|y|1)$/i.test(cell(row, 'regex')) ? { regex: true } : {})
+        };
+        rulesByLocation.set(locationId, [...(rulesByLocation.get(locationId) || []), rule]);
+    });
+
+    return {
+        ...config,
+        locations: config.locations.map(location => {
+            const rules = [...(rulesByLocation.get(location.id) || []), ...(rulesByLocation.get('*') || [])];
+            return rules.length > 0 ? { ...location, statusVocabulary: rules } : location;
+        })
+    };
+};
+
+const fetchRemoteVenueConfig = async (): Promise<unknown> => {
+    if (VENUE_CONFIG_URL) {
+        const response = await fetchWithRetry(VENUE_CONFIG_URL, 'venue config JSON');
+        if (!response.ok) {
+            throw new Error(`Venue config request failed with status ${response.status}`);
+        }
+        return response.json();
+    }
+
+    const source = getAvailabilitySource();
+    const configRead = await source.readRanges(CONFIG_SHEET_ID, [`'${VENUE_CONFIG_TAB}'!A1:Z200`]);
+    if (configRead.tabMissing) {
+        throw new Error(`No '${VENUE_CONFIG_TAB}' tab in spreadsheet ${CONFIG_SHEET_ID}`);
+    }
+    const config = parseVenueConfigRows(configRead.valueRanges[0] || [], CONFIG_SHEET_ID);
+
+    // The status tab is optional; without it every location uses the default vocabulary.
+    // Network errors still fail the whole load so a half-read config never replaces the cached one.
+    const statusRead = await source.readRanges(CONFIG_SHEET_ID, [`'${STATUS_VOCABULARY_TAB}'!A1:D500`]);
+    if (statusRead.tabMissing) {
+        console.log(`No '${STATUS_VOCABULARY_TAB}' tab, using default status vocabulary`);
+        return config;
+    }
+    return parseStatusVocabularyRows(statusRead.valueRanges[0] || [], config);
+};
+
+let currentConfig: VenueConfig = bundledVenueConfig as VenueConfig;
+let configSource: 'bundled' | 'cache' | 'remote' = 'bundled';
+let lastRemoteAttemptAt = 0;
+let pendingLoad: Promise<VenueConfig> | null = null;
+const changeListeners = new Set<(config: VenueConfig) => void>();
+
+const setCurrentConfig = (config: VenueConfig, source: 'cache' | 'remote') => {
+    const changed = JSON.stringify(config) !== JSON.stringify(currentConfig);
+    currentConfig = config;
+    configSource = source;
+    if (changed) {
+        console.log(`Venue config changed (source: ${source}), notifying ${changeListeners.size} listener(s)`);
+        changeListeners.forEach(listener => listener(config));
+    }
+};
+
+// Best config available right now, without waiting on the network
+export const getVenueConfig = (): VenueConfig => currentConfig;
+
+// Called when a different layout is loaded, e.g. so month grids built from the old layout can be dropped
+export const onVenueConfigChange = (listener: (config: VenueConfig) => void) => {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+};
+
+// Load the venue layout: remote source first, then the last cached copy, then the bundled default
+export const loadVenueConfig = async (options?: { forceRefresh?: boolean }): Promise<VenueConfig> => {
+    if (!options?.forceRefresh) {
+        if (configSource === 'remote') {
+            return currentConfig;
+        }
+        if (Date.now() - lastRemoteAttemptAt < REMOTE_RETRY_INTERVAL_MS) {
+            return currentConfig;
+        }
+    }
+    if (pendingLoad) {
+        return pendingLoad;
+    }
+
+    pendingLoad = (async () => {
+        lastRemoteAttemptAt = Date.now();
+        try {
+            const { config, errors } = validateVenueConfig(await fetchRemoteVenueConfig());
+            if (!config) {
+                throw new Error(`Remote venue config is invalid:\n${errors.join('\n')}`);
+            }
+            await AsyncStorage.setItem(VENUE_CONFIG_CACHE_KEY, JSON.stringify(config));
+            setCurrentConfig(config, 'remote');
+            console.log(`Loaded venue config from ${VENUE_CONFIG_URL ? 'JSON document' : `'${VENUE_CONFIG_TAB}' tab`}: ${config.locations.length} location(s)`);
+        } catch (error) {
+            console.warn('Could not load remote venue config, falling back to cached/bundled config:', error);
+            if (configSource === 'bundled') {
+                try {
+                    const cached = await AsyncStorage.getItem(VENUE_CONFIG_CACHE_KEY);
+                    const { config } = validateVenueConfig(cached ? JSON.parse(cached) : null);
+                    if (config) {
+                        setCurrentConfig(config, 'cache');
+                    }
+                } catch (cacheError) {
+                    console.warn('Failed to read cached venue config:', cacheError);
+                }
+            }
+        }
+        return currentConfig;
+    })().finally(() => {
+        pendingLoad = null;
+    });
+
+    return pendingLoad;
+};
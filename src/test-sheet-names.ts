@@ -1,14 +1,23 @@
-const getSheetName = (date: Date): string => {
-    const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
-    return `'${months[date.getMonth()]} ${date.getFullYear()}'!`;
-};
+// Show which tab each month would be read from, for tab titles spelled the way people type them
+import { getSheetDetails } from './services/api';
+import { findMonthTab, parseMonthTitle } from './services/sheetTabs';
+
+const tabTitles = ['CONFIG', 'MAY 2025', 'Jun 2025 ', 'July-25', 'Sept 2025', 'USERS'];
+
+tabTitles.forEach(title => {
+    const parsed = parseMonthTitle(title);
+    console.log(`'${title}': ${parsed ? `${parsed.year}-${String(parsed.monthIndex + 1).padStart(2, '0')}` : 'not a month'}`);
+});
 
 const testDates = [
-    new Date('2025-05-16'), // May
-    new Date('2025-06-16'), // June
-    new Date('2025-01-16'), // January
+    new Date(2025, 4, 16), // May
+    new Date(2025, 5, 16), // June
+    new Date(2025, 8, 16), // September
+    new Date(2025, 0, 16), // January, not created yet
 ];
 
 testDates.forEach(date => {
-    console.log(`${date.toLocaleDateString()}: ${getSheetName(date)}`);
+    const { sheetName, year } = getSheetDetails(date);
+    const tab = findMonthTab(tabTitles, year, date.getMonth(), sheetName);
+    console.log(`${date.toLocaleDateString()}: ${tab === null ? `no tab for ${sheetName}` : `'${tab}'!`}`);
 });
@@ -0,0 +1,30 @@
+// Shared colors for slot statuses, used by the hall cards and the month calendar
+export const statusColors = {
+  Available: {
+    background: '#90EE90', // LightGreen
+    border: '#5cb85c', // Darker green border
+  },
+  Booked: {
+    background: '#F08080', // LightCoral
+    border: '#d9534f', // Darker red border
+  },
+  Enquiry: {
+    background: '#DAA520', // Goldenrod
+    border: '#b8860b', // Darker gold border
+  },
+  Maintenance: {
+    background: '#A9B4C2', // Slate gray
+    border: '#6c7a89', // Darker slate border
+  },
+  Unknown: {
+    background: '#E0E0E0', // Light gray, drawn with a dashed border so it never reads as a status
+    border: '#8C8C8C', // Mid gray border
+  },
+};
+
+// Date annotations, used for the tags next to a date and the marks in the month calendar
+export const annotationColors = {
+  muhurat: '#FF9933', // Saffron
+  festival: '#C792EA', // Lavender
+  holiday: '#64B5F6', // Sky blue
+};
@@ -1,25 +1,355 @@
+// 'Unknown' means the cell couldn't be read (fetch failed, cell outside the configured range); never treat it as booked
+export type SlotStatus = 'Available' | 'Booked' | 'Enquiry' | 'Maintenance' | 'Unknown';
+
+// A bookable part of the day. Every hall has 'Morning' and 'Evening'; a venue can add more, e.g. 'Lunch' or 'Night'
+export type TimeSlot = string;
+
 export interface HallData {
     date: string;
-    location: 'GMK BANQUETS TATHAWADE' | 'MADHURA BANQUET' | 'GMK BANQUETS RAVET'; // Changed to uppercase
-    hallName: string;
-    timeSlot: 'Morning' | 'Evening';
-    status: 'Available' | 'Booked' | 'Enquiry'; // Added 'Enquiry'
+    locationId: string; // Stable venue id from the venue config, e.g. "tathawade"
+    location: string;   // Venue display name, e.g. "GMK Banquets Tathawade"
+    hallId: string;     // Stable hall id, unique across venues, e.g. "tathawade-aster"
+    hallName: string;   // Hall display name
+    timeSlot: TimeSlot;
+    status: SlotStatus;
+    booking?: BookingDetails; // Present when the cell held more than a plain vac/occ token
+    span?: BookingSpan;       // Present when the booking covers the whole day or several days
+    enquiryIds?: string[];    // Open enquiries logged in the app for this free slot; it then shows as 'Enquiry'
+    hold?: SlotHold;          // Active hold on this free slot; it then shows as 'Enquiry' with a countdown
+    error?: string;           // Why the status is 'Unknown', e.g. "Network request failed"
+    cell?: SheetCell;         // Where the status was read from; needed to write a change back
+}
+
+// The sheet cell behind a slot, as it was when read
+export interface SheetCell {
+    sheetId: string;
+    range: string; // A1 address including the tab, e.g. "'JUN 2025'!B12"
+    value: string; // Raw text when read; a write is refused if the cell no longer holds this
+}
+
+// What was written in a booked or held cell, e.g. "Tentative - Joshi engagement (advance pending)"
+export interface BookingDetails {
+    raw: string;         // Cell text exactly as typed in the sheet
+    label?: string;      // Client or event name, e.g. "Joshi engagement"
+    eventType?: string;  // Recognized event keyword, e.g. "Engagement"
+    tentative: boolean;  // Hold/tentative/TBC markers; such slots are reported as 'Enquiry'
+    notes?: string;      // Text from brackets, e.g. "advance pending"
+}
+
+// A booking written into more than one cell, recognized by the same client/event name in each
+export interface BookingSpan {
+    fullDay: boolean; // Every slot of the hall holds the booking that day
+    day: number;      // Which day of the booking this is, from 1
+    days: number;     // Consecutive days the booking covers within the month
+}
+
+// Where a slot beyond Morning and Evening lives, e.g. { name: 'Night', range: 'R4:R34' }
+export interface SlotRange {
+    name: TimeSlot;        // One of the location's `slots`
+    range: string;         // Same rules as morningRange
+    headerOffset?: number;
 }
 
 // Define a more specific Hall type to include header offsets
 export interface Hall {
-    name: string;
-    morningRange: string;  // e.g., "B2:B31" for morning slot
-    eveningRange: string;  // e.g., "C2:C31" for evening slot
+    id: string;    // Stable id, unique across all venues; never shown to users
+    name: string;  // Display name
+    morningRange: string;  // e.g., "B4:B34" for morning slot; must have room for 31 days, each month reads only its own days
+    eveningRange: string;  // e.g., "C4:C34" for evening slot
     morningHeaderOffset?: number; // Optional: Number of header rows at the START of the morningRange data
     eveningHeaderOffset?: number; // Optional: Number of header rows at the START of the eveningRange data
+    extraSlots?: SlotRange[];     // Optional: the hall's columns for the location's slots beyond Morning and Evening
+    details?: HallDetails;        // Optional: capacity, amenities and pricing shown on the hall card
+}
+
+// What a hall offers; every field is optional so venues can fill them in gradually
+export interface HallDetails {
+    seatingCapacity?: number;     // Guests seated, e.g. for a reception dinner
+    floatingCapacity?: number;    // Guests standing or moving around, e.g. for a cocktail evening
+    setting?: 'indoor' | 'outdoor';
+    airConditioned?: boolean;
+    parking?: number;             // Car parking spaces
+    pricing?: HallPricing;
+}
+
+// Rent for one slot of the hall, in rupees
+export interface HallPricing {
+    basePrice: number;
+    slotPrices?: Record<TimeSlot, number>; // Replaces basePrice for particular slots, e.g. { Evening: 150000 }
+    weekendSurchargePercent?: number;      // Added on Saturdays and Sundays
+    muhuratSurchargePercent?: number;      // Added on auspicious (muhurat) dates
 }
 
 export interface LocationConfig {
+    id: string;    // Stable id, e.g. "tathawade"; keeps working if the display name changes
+    name: string;  // Display name, e.g., "GMK Banquets Tathawade"
     sheetId: string;
-    halls: Hall[]; // Use the new Hall interface
+    halls: Hall[]; // Display order
+    dateColumn?: string; // Column holding each row's day of the month, e.g. "A"; every read checks the hall rows against it
+    slots?: TimeSlot[];  // The location's slots in the order of the day, e.g. ['Morning', 'Lunch', 'Evening', 'Night']; defaults to Morning, Evening
+    statusVocabulary?: StatusRule[]; // What this location's managers type into cells; checked before the defaults
+}
+
+// One entry of a status dictionary, e.g. { match: 'free', status: 'Available' }
+// or { match: '^hold\\b', regex: true, status: 'Enquiry' }
+export interface StatusRule {
+    match: string;    // Whole-cell token (trimmed, case-insensitive), or a regex source when `regex` is true
+    regex?: boolean;
+    status: SlotStatus;
+}
+
+// Cell text that no status rule matched, aggregated per location for extending the dictionary
+export interface UnrecognizedToken {
+    locationId: string;
+    token: string;     // Trimmed, lower-cased cell text
+    count: number;
+    examples: string[]; // A few places it was seen, e.g. "Aster Evening 2025-06-14"
+}
+
+// Venue/hall layout, loaded from src/config/venues.json, a JSON document or the sheet's config tab
+export interface VenueConfig {
+    locations: LocationConfig[]; // Display order
 }
 
 export interface GoogleSheetsResponse {
     values: string[][];
 }
+
+// Response of the values:batchGet endpoint; valueRanges come back in request order
+export interface GoogleSheetsBatchResponse {
+    spreadsheetId: string;
+    valueRanges: Array<Partial<GoogleSheetsResponse> & { range: string; majorDimension?: string }>;
+}
+
+// Response of the spreadsheets.get endpoint with fields=sheets.properties.title
+export interface GoogleSpreadsheetMetadata {
+    sheets?: Array<{ properties: { title: string } }>;
+}
+
+// A whole month of availability for every configured hall, built from one batchGet per spreadsheet
+export interface MonthAvailability {
+    sheetName: string;   // e.g. "JUN 2025"
+    year: number;
+    monthIndex: number;  // 0-based, as returned by Date.getMonth()
+    daysInMonth: number;
+    fetchedAt: number;   // Epoch milliseconds of the fetch
+    complete: boolean;   // false if any hall failed to load and its slots are 'Unknown'
+    failedHallIds: string[]; // Halls whose ranges couldn't be fetched; retry them with retryHallData
+    sheetMissing: boolean; // true if no spreadsheet has a tab for the month yet; `days` then holds no slots
+    unrecognizedTokens: UnrecognizedToken[];
+    days: Record<string, HallData[]>; // Keyed by 'YYYY-MM-DD' (see formatDate)
+}
+
+// A month (or one day of it) together with when it was last read from the sheet
+export interface SyncedMonth {
+    month: MonthAvailability;
+    syncedAt: number; // Epoch milliseconds; the oldest read among the data returned
+    stale: boolean;   // true when some or all of it came from the stored copy rather than a live read
+}
+
+export interface SyncedDay {
+    halls: HallData[];
+    syncedAt: number;
+    stale: boolean;
+    sheetMissing: boolean; // The month's tab doesn't exist yet, so there are no halls to show
+}
+
+export interface DateSearchCriteria {
+    startDate: Date;
+    endDate: Date;                // Inclusive
+    locationIds?: string[];       // Empty or undefined means all venues
+    hallIds?: string[];           // Empty or undefined means all halls
+    timeSlot: TimeSlot | 'Either' | 'FullDay'; // FullDay = free in every slot of the hall
+    weekdays?: number[];          // 0 = Sunday ... 6 = Saturday; empty or undefined means all
+    muhuratOnly?: boolean;        // Only dates with a muhurat in the date annotations
+}
+
+export interface DateSearchMatch {
+    date: string;                 // 'YYYY-MM-DD'
+    freeSlots: HallData[];        // The available slots that satisfied the criteria
+}
+
+export interface DateSearchResult {
+    matches: DateSearchMatch[];   // Chronological
+    missingMonths: string[];      // Sheet tabs that don't exist yet, e.g. "JAN 2026"
+    incompleteMonths: string[];   // Months that couldn't be fully read (network/API errors)
+    muhuratListCoverage?: DateAnnotationCoverage; // Set when a muhurat-only search runs past the date list
+}
+
+// 'expired' enquiries were neither converted nor closed before their expiry
+export type EnquiryStatus = 'open' | 'converted' | 'lost' | 'expired';
+
+// A hall slot a customer asked about
+export interface EnquirySlot {
+    locationId: string;
+    hallId: string;
+    hallName: string;
+    date: string;       // 'YYYY-MM-DD'
+    timeSlot: TimeSlot;
+}
+
+// A customer enquiry logged by staff, kept on the device and mirrored to the enquiries tab when possible
+export interface Enquiry {
+    id: string;           // e.g. "E250614-K3F9"
+    customerName: string;
+    phone: string;
+    eventType?: string;   // e.g. "Wedding"
+    guestCount?: number;
+    slots: EnquirySlot[]; // Chronological
+    notes?: string;
+    status: EnquiryStatus;
+    createdBy: string;    // Username of the staff member who logged it
+    createdAt: number;    // Epoch milliseconds
+    updatedAt: number;    // Epoch milliseconds
+    followUpAt: number | null; // When to call the customer back; null once closed
+    expiresAt: number;    // An open enquiry stops holding its slots after this
+}
+
+// 'expired' holds ran out without being released
+export type HoldStatus = 'active' | 'released' | 'expired';
+
+// A time-limited hold on a free slot for a customer, e.g. "Grand, Saturday evening, till Monday"
+export interface SlotHold {
+    id: string;           // e.g. "H250614-K3F9"
+    locationId: string;
+    hallId: string;
+    hallName: string;
+    date: string;         // 'YYYY-MM-DD'
+    timeSlot: TimeSlot;
+    customerName: string;
+    note?: string;
+    heldBy: string;       // Username of the staff member who placed it
+    placedAt: number;     // Epoch milliseconds
+    expiresAt: number;    // Released automatically after this
+    status: HoldStatus;
+    releasedBy?: string;  // Username, for holds released by hand
+    updatedAt: number;    // Epoch milliseconds; the newer copy wins between the device and the holds tab
+}
+
+// An entry of the price list quotes are built from
+export interface PriceListItem {
+    id: string;
+    name: string;                 // As printed on the quote, e.g. "Veg buffet – Silver"
+    category: 'package' | 'item'; // Packages (catering, decoration) are listed before add-on items
+    unit: 'fixed' | 'perGuest';
+    price: number;                // Rupees; per guest for perGuest entries
+    description?: string;
+}
+
+export interface TaxRate {
+    name: string;    // e.g. "CGST"
+    percent: number;
+}
+
+export interface PriceList {
+    items: PriceListItem[];
+    taxes: TaxRate[];  // Applied to the total after the discount
+    terms?: string[];  // Printed at the foot of every quote
+}
+
+// The hall slot a quote is for
+export interface QuoteSlot {
+    locationId: string;
+    location: string;
+    hallId: string;
+    hallName: string;
+    date: string;         // 'YYYY-MM-DD'
+    timeSlot: TimeSlot;
+}
+
+export interface QuoteLine {
+    description: string;
+    quantity: number;
+    unitPrice: number;    // Rupees
+    amount: number;       // quantity × unitPrice
+    itemId?: string;      // Price list entry; hall rent lines have none
+}
+
+export interface QuoteDiscount {
+    kind: 'percent' | 'amount';
+    value: number;
+}
+
+export interface QuoteTotals {
+    subtotal: number;
+    discount: number;
+    taxes: Array<TaxRate & { amount: number }>;
+    total: number;
+}
+
+// A numbered quotation; lines and totals are fixed when it is saved, so later price changes don't alter it
+export interface Quotation {
+    id: string;           // e.g. "Q250614-PRIYA-003", printed on the quote
+    customerName: string;
+    phone?: string;
+    eventType?: string;
+    guestCount?: number;
+    slot: QuoteSlot;
+    lines: QuoteLine[];
+    discount?: QuoteDiscount;
+    totals: QuoteTotals;
+    terms: string[];
+    notes?: string;
+    createdBy: string;    // Username
+    createdAt: number;    // Epoch milliseconds
+    validUntil: number;   // Epoch milliseconds
+}
+
+// Muhurat dates drive wedding demand; festivals and public holidays drive the rest
+export type DateAnnotationKind = 'muhurat' | 'festival' | 'holiday';
+
+// A note on a calendar date, shown next to it in the app
+export interface DateAnnotation {
+    date: string;         // 'YYYY-MM-DD'
+    kind: DateAnnotationKind;
+    name: string;         // e.g. "Vivah muhurat", "Diwali (Lakshmi Puja)"
+}
+
+// The days a date list was filled in for; outside them a day without notes may just be missing from the list
+export interface DateAnnotationCoverage {
+    from: string;         // 'YYYY-MM-DD', inclusive
+    to: string;           // 'YYYY-MM-DD', inclusive
+}
+
+// Google account signed in for writing to the sheet
+export interface GoogleAuth {
+    accessToken: string;
+    expiresAt: number; // Epoch milliseconds
+    email: string;     // Recorded in the audit tab as who made a change
+}
+
+// Outcome of writing a slot change; 'conflict' means the cell changed since it was read and nothing was written
+export type SlotWriteResult =
+    | { status: 'saved'; slot: HallData; auditLogged: boolean }
+    | { status: 'conflict'; currentValue: string };
+
+// Staff roles, lowest to highest; each role can do everything the ones before it can
+export type UserRole = 'viewer' | 'sales' | 'manager' | 'admin';
+
+// A staff account as read from the users backend
+export interface UserAccount {
+    username: string; // Lowercase login name, e.g. "priya"
+    name: string;     // Display name
+    role: UserRole;
+    pinHash?: string; // "sha256:<salt>:<hex>" (USERS tab only; an HTTP backend checks PINs itself)
+    active: boolean;
+}
+
+// Signed-in user, persisted until it expires or the user logs out
+export interface Session {
+    username: string;
+    name: string;
+    role: UserRole;
+    issuedAt: number;  // Epoch milliseconds
+    expiresAt: number; // Epoch milliseconds
+    token?: string;    // From an HTTP sign-in backend; sent when re-checking the account
+}
+
+// App lock around a signed-in session, persisted so killing the app doesn't bypass it
+export interface AppLockState {
+    locked: boolean;
+    lastActiveAt: number;        // Epoch milliseconds of the last touch
+    failedAttempts: number;      // Wrong PINs since the last unlock or lockout
+    lockouts: number;            // Lockouts since the last successful unlock; each one lasts longer
+    lockoutUntil: number | null; // No unlock attempts accepted before this time
+}
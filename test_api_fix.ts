@@ -7,9 +7,11 @@
 // Import dotenv to load environment variables from .env file
 import 'dotenv/config';
 import { fetchHallData } from './src/services/api';
+import { getAvailabilitySource } from './src/services/availabilitySource';
 
 // Log API key information (without revealing the actual key)
-const apiKey = process.env.EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY;
+const apiKey = process.env.GOOGLE_SHEETS_API_KEY || process.env.EXPO_PUBLIC_GOOGLE_SHEETS_API_KEY;
+console.log('DATA SOURCE:', getAvailabilitySource().name);
 console.log('API KEY STATUS:', apiKey ? `Set (length: ${apiKey.length})` : 'Not set');
 
 // Set a specific date to test with
@@ -28,7 +30,7 @@ async function runApiTest() {
     
     // Filter for GMK Banquets Tathawade - Aster hall to verify it works
     const asterHallResults = results.filter(
-      hall => hall.location === 'GMK Banquets Tathawade' && hall.hallName === 'Aster'
+      hall => hall.hallId === 'tathawade-aster'
     );
     
     if (asterHallResults.length > 0) {
@@ -57,3 +59,4 @@ runApiTest();
 
 // To run this test:
 // npx tsx test_api_fix.ts
+// Offline, against generated data: EXPO_PUBLIC_AVAILABILITY_SOURCE=mock npx tsx test_api_fix.ts